@@ -12,40 +12,66 @@ import {
   History,
   Eye,
   FileType,
-  LogOut
+  LogOut,
+  Settings2,
+  FileUp,
+  Layers,
+  Undo2,
+  Wand2
 } from 'lucide-react';
-import { AppConfig } from './types';
+import { AppConfig, DEFAULT_EXPORT_OPTIONS, DocumentThemeId, ExportFormat, RepairPassId, WordExportOptions } from './types';
 import { ConfigRow } from './components/ConfigRow';
 import { AuthModal } from './components/AuthModal';
 import { HistoryModal } from './components/HistoryModal';
+import { ExportSettingsModal } from './components/ExportSettingsModal';
+import { DraftVersionsModal } from './components/DraftVersionsModal';
 import { supabase } from './lib/supabase';
 import { User } from '@supabase/supabase-js';
 import { generateWordDocument } from './lib/docxGenerator';
+import { PdfFontError, generatePdfDocument } from './lib/pdfGenerator';
+import { generateOdtDocument } from './lib/odtGenerator';
+import { generateHtmlDocument } from './lib/htmlExport';
+import { generateMarkdownBundle } from './lib/markdownBundle';
+import { EXPORT_FORMATS, EXPORT_FORMAT_ORDER } from './lib/exportFormats';
+import { DOCUMENT_THEMES, getDocumentTheme, getThemeCssVariables } from './lib/documentThemes';
 import { saveAs } from 'file-saver';
-import { marked } from 'marked';
-
-// Check marked is loaded correctly
-console.log('[App] marked module:', marked);
-console.log('[App] marked.parse type:', typeof marked.parse);
-import mermaid from 'mermaid';
-import { processLatexInText, hasLatexFormula } from './lib/mathRenderer';
-
-// 初始化 Mermaid
-mermaid.initialize({
-  startOnLoad: false,
-  theme: 'default',
-  securityLevel: 'loose',
-  fontFamily: 'Microsoft YaHei, sans-serif',
-});
+import { REPAIR_PASSES, normalizeMarkdown } from './lib/markdownPipeline';
+import { renderPreviewHtml } from './lib/previewRenderer';
+import { DiagramBlockInfo, applyDiagramWidth, parseDiagramInfo, renderDiagramToHtml } from './lib/diagramRenderers';
+import { clipboardHtmlToMarkdown, isRichHtml, readClipboardMarkdown } from './lib/clipboardHtml';
+import { saveConversion } from './lib/conversionHistory';
+import { IMPORT_ACCEPT, LARGE_FILE_SIZE, isImportableFile, readImportFile } from './lib/fileImport';
+import { fetchCloudDraft, loadDraft, saveCloudDraft, saveDraft, saveSnapshot } from './lib/draftStorage';
+
+// 停止输入后多久写入本地草稿 / 同步到云端
+const DRAFT_SAVE_DELAY = 800;
+const CLOUD_DRAFT_SYNC_DELAY = 5000;
+// 清空后“撤销”提示的显示时长
+const UNDO_CLEAR_TIMEOUT = 10000;
 
 const App: React.FC = () => {
   const [content, setContent] = useState<string>('');
-  const [isProcessing, setIsProcessing] = useState(false);
+  // 正在生成的文件格式
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('docx');
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
   const [showAuthModal, setShowAuthModal] = useState(false);
   const [showHistoryModal, setShowHistoryModal] = useState(false);
+  const [showSettingsModal, setShowSettingsModal] = useState(false);
+  const [exportOptions, setExportOptions] = useState<WordExportOptions>(DEFAULT_EXPORT_OPTIONS);
   const [user, setUser] = useState<User | null>(null);
   const [previewHtml, setPreviewHtml] = useState<string>('');
   const [renderedHtml, setRenderedHtml] = useState<string>('');
+  const [appliedRepairs, setAppliedRepairs] = useState<RepairPassId[]>([]);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [showVersionsModal, setShowVersionsModal] = useState(false);
+  // 本地草稿读取完成前不自动保存，避免空内容覆盖上次的草稿
+  const [isDraftReady, setIsDraftReady] = useState(false);
+  const [draftSavedAt, setDraftSavedAt] = useState<number | null>(null);
+  // 已完成云端草稿检查的用户，检查完成后才开始向云端同步
+  const [cloudDraftUserId, setCloudDraftUserId] = useState<string | null>(null);
+  // 清空前的内容，用于撤销
+  const [clearedContent, setClearedContent] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const previewContainerRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const isScrollSyncLocked = useRef(false);
@@ -58,6 +84,7 @@ const App: React.FC = () => {
   };
 
   const isLoggedIn = !!user;
+  const isProcessing = exportingFormat !== null;
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -74,142 +101,95 @@ const App: React.FC = () => {
     return () => subscription.unsubscribe();
   }, []);
 
-  // 生成预览 HTML
-  const generatePreviewHtml = useCallback((text: string): string => {
-    if (!text.trim()) return '';
-
-    console.log('[Preview] === START ===');
-    console.log('[Preview] Input text (first 500 chars):', text.substring(0, 500));
-    console.log('[Preview] Input length:', text.length);
-    console.log('[Preview] Has LaTeX:', hasLatexFormula(text));
-
-    // 自动修复：去除多余的缩进
-    // 找到所有非空行的最小缩进
-    const lines = text.split('\n');
-    let minIndent = Infinity;
-    let hasNonEmptyLine = false;
-
-    for (const line of lines) {
-      if (line.trim().length > 0) {
-        hasNonEmptyLine = true;
-        const indent = line.match(/^\s*/)?.[0].length || 0;
-        if (indent < minIndent) {
-          minIndent = indent;
-        }
-      }
-    }
-
-    // 如果所有行都有缩进，且缩进大于0，则去除
-    let processedText = text;
-    if (hasNonEmptyLine && minIndent > 0 && minIndent !== Infinity) {
-      console.log(`[Preview] Detected common indentation: ${minIndent}, removing...`);
-      processedText = lines.map(line => {
-        if (line.length >= minIndent) {
-          return line.substring(minIndent);
-        }
-        return line;
-      }).join('\n');
-    }
-
-    // 自动修复：如果文本包含 mermaid 语法但不是代码块，添加代码块标记
-    const mermaidPattern = /^(graph|flowchart|sequenceDiagram|gantt|classDiagram|stateDiagram|pie|gitGraph|erDiagram|journey|mindmap|timeline|sankey|block|c4)/m;
-
-    // 检查是否包含 Mermaid 关键字（不在代码块中）
-    const hasMermaid = mermaidPattern.test(text);
-    const hasMermaidCodeBlock = text.includes('```mermaid');
-
-    console.log('[Preview] Mermaid detection - hasMermaid:', hasMermaid, 'hasMermaidCodeBlock:', hasMermaidCodeBlock);
-
-    if (hasMermaid && !hasMermaidCodeBlock) {
-      console.log('[Preview] Detected Mermaid without code fence, auto-wrapping');
-      // 找到 Mermaid 开始行
-      const lines = processedText.split('\n');
-      console.log('[Preview] Lines:', lines.map((l, i) => `${i}:${l}`).join('\n'));
-      const mermaidStart = lines.findIndex(line => mermaidPattern.test(line.trim()));
-      console.log('[Preview] Mermaid start line:', mermaidStart);
-
-      if (mermaidStart !== -1) {
-        const linesBefore = lines.slice(0, mermaidStart);
-        const remainingLines = lines.slice(mermaidStart);
-
-        // 找到 Mermaid 代码的结束行（下一个代码块标记或空行）
-        let mermaidEnd = remainingLines.findIndex((line, index) => {
-          const trimmed = line.trim();
-          // 遇到下一个代码块标记，且不是在 mermaid 代码块内
-          if (trimmed.startsWith('```') && index > 0) return true;
-          // 遇到连续空行
-          if (index > 2 && trimmed === '' && remainingLines[index - 1].trim() === '') return true;
-          return false;
-        });
-
-        // 如果找不到结束，就到文档末尾
-        if (mermaidEnd === -1) mermaidEnd = remainingLines.length;
-
-        const mermaidLines = remainingLines.slice(0, mermaidEnd);
-        const linesAfter = remainingLines.slice(mermaidEnd);
+  // 启动时恢复上次的本地草稿
+  useEffect(() => {
+    loadDraft()
+      .then(draft => {
+        if (!draft?.content) return;
+        setContent(current => current || draft.content);
+        setDraftSavedAt(draft.updatedAt);
+      })
+      .catch(err => console.error('Failed to load draft:', err))
+      .finally(() => setIsDraftReady(true));
+  }, []);
 
-        console.log('[Preview] Mermaid end line relative:', mermaidEnd);
-        console.log('[Preview] Lines after mermaid:', linesAfter.map((l, i) => `${i}:${l}`).join('\n'));
+  // 自动保存到 IndexedDB
+  useEffect(() => {
+    if (!isDraftReady) return;
+    const timer = setTimeout(() => {
+      saveDraft(content)
+        .then(draft => setDraftSavedAt(draft.updatedAt))
+        .catch(err => console.error('Failed to save draft:', err));
+    }, DRAFT_SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [content, isDraftReady]);
 
-        processedText = linesBefore.join('\n') + '\n```mermaid\n' + mermaidLines.join('\n') + '\n```\n' + linesAfter.join('\n');
-        console.log('[Preview] Auto-wrapped Mermaid in code fence');
-      }
+  // 登录后检查云端草稿：比本地更新时提示恢复
+  useEffect(() => {
+    if (!user || !isDraftReady) {
+      setCloudDraftUserId(null);
+      return;
     }
+    let cancelled = false;
+    fetchCloudDraft(user.id)
+      .then(cloudDraft => {
+        if (cancelled || !cloudDraft?.content || cloudDraft.content === content) return;
+        if (draftSavedAt !== null && cloudDraft.updatedAt <= draftSavedAt) return;
+        if (!content.trim() || window.confirm('云端有一份更新的草稿，是否用它替换当前编辑的内容？')) {
+          setContent(cloudDraft.content);
+        }
+      })
+      .catch(err => console.error('Failed to fetch cloud draft:', err))
+      .finally(() => {
+        if (!cancelled) setCloudDraftUserId(user.id);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id, isDraftReady]);
 
-    // 关键修复：在处理 LaTeX 之前，先提取并保护 Mermaid 代码块
-    // 避免 LaTeX 处理污染 Mermaid 代码
-    const mermaidBlocks: Array<{ placeholder: string; code: string }> = [];
-    let mermaidIndex = 0;
-
-    // 提取所有 mermaid 代码块，用占位符替换
-    processedText = processedText.replace(/```mermaid\s*\n([\s\S]*?)```/g, (match, code) => {
-      const placeholder = `[[MERMAID_BLOCK_${mermaidIndex}]]`;
-      mermaidBlocks.push({ placeholder, code: code.trim() });
-      mermaidIndex++;
-      return placeholder;
-    });
-
-    console.log('[Preview] Extracted Mermaid blocks:', mermaidBlocks.length);
+  // 登录用户的草稿同步到云端
+  useEffect(() => {
+    if (!user || cloudDraftUserId !== user.id) return;
+    const timer = setTimeout(() => {
+      saveCloudDraft(user.id, { content, updatedAt: Date.now() })
+        .catch(err => console.error('Failed to sync draft:', err));
+    }, CLOUD_DRAFT_SYNC_DELAY);
+    return () => clearTimeout(timer);
+  }, [content, cloudDraftUserId]);
 
-    // 1. 处理 LaTeX 公式（此时 Mermaid 代码已被保护）
-    if (hasLatexFormula(processedText)) {
-      processedText = processLatexInText(processedText);
-      console.log('[Preview] LaTeX processed, text (first 500 chars):', processedText.substring(0, 500));
+  // 撤销提示在一段时间后或开始输入新内容时消失
+  useEffect(() => {
+    if (clearedContent === null) return;
+    if (content) {
+      setClearedContent(null);
+      return;
     }
+    const timer = setTimeout(() => setClearedContent(null), UNDO_CLEAR_TIMEOUT);
+    return () => clearTimeout(timer);
+  }, [clearedContent, content]);
 
-    // 2. 恢复 Mermaid 代码块（在 Markdown 解析之前）
-    mermaidBlocks.forEach(({ placeholder, code }) => {
-      processedText = processedText.replace(placeholder, `\`\`\`mermaid\n${code}\n\`\`\``);
-    });
-
-    console.log('[Preview] Mermaid blocks restored');
+  // 生成预览 HTML：与导出使用同一份规范化结果
+  const generatePreviewHtml = useCallback(
+    (text: string): string => renderPreviewHtml(normalizeMarkdown(text, exportOptions.repairs).markdown),
+    [exportOptions.repairs]
+  );
 
-    // 3. 渲染 Markdown（mermaid 代码块会被渲染为 <pre><code class="language-mermaid">）
-    try {
-      console.log('[Preview] Calling marked.parse...');
-      const html = marked.parse(processedText, {
-        gfm: true,
-        breaks: true,
-        headerIds: true,
-        mangle: false
-      }) as string;
-
-      console.log('[Preview] Parsed HTML type:', typeof html);
-      console.log('[Preview] Parsed HTML length:', html.length);
-      console.log('[Preview] Parsed HTML (first 500 chars):', html.substring(0, 500));
-
-      return html;
-    } catch (error) {
-      console.error('[Preview] Error parsing markdown:', error);
-      // 如果解析失败，返回原始文本（编码后）
-      return processedText.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
-    }
-  }, []);
+  // 影响预览中图表渲染结果的设置
+  const diagramSettingsKey = JSON.stringify([
+    exportOptions.mermaid,
+    exportOptions.diagramFont,
+    exportOptions.diagramMaxWidth,
+    exportOptions.plantUmlServer,
+    exportOptions.allowRemoteImages,
+  ]);
 
-  // 当内容变化时更新预览 HTML
+  // 当内容或图表设置变化时更新预览 HTML（重置为未渲染图表的 HTML，图表按新设置重新渲染）
   useEffect(() => {
-    const html = generatePreviewHtml(content);
+    const normalized = normalizeMarkdown(content, exportOptions.repairs);
+    const html = renderPreviewHtml(normalized.markdown);
     console.log('[Content Effect] Content length:', content.length, 'HTML length:', html.length);
+    setAppliedRepairs(normalized.appliedRepairs);
     setPreviewHtml(html);
     setRenderedHtml(html); // 初始化 renderedHtml
     // 重置 Mermaid 渲染标记，延迟以确保 HTML 已更新到 DOM
@@ -217,9 +197,9 @@ const App: React.FC = () => {
       isMermaidRendered.current = false;
       console.log('[Content Effect] Mermaid render flag reset');
     }, 0);
-  }, [content, generatePreviewHtml]);
+  }, [content, exportOptions.repairs, diagramSettingsKey]);
 
-  // 渲染 Mermaid 图表（在预览 HTML 更新后执行）
+  // 渲染 Mermaid、Graphviz 等图表（在预览 HTML 更新后执行）
   useEffect(() => {
     console.log('[Mermaid Effect] Triggered');
     console.log('[Mermaid Effect] isMermaidRendered:', isMermaidRendered.current);
@@ -242,32 +222,32 @@ const App: React.FC = () => {
       console.log('[Mermaid] Starting render, container:', container);
       console.log('[Mermaid] PreviewHtml length:', previewHtml?.length);
 
-      // 查找所有 mermaid 代码块
+      // 查找所有代码块
       const codeElements = container.querySelectorAll('pre code, pre > code');
       console.log('[Mermaid] Total code elements:', codeElements.length);
 
-      // 检查每个 code 元素，判断是否是 Mermaid 代码
-      const mermaidElements: HTMLElement[] = [];
-      const mermaidPattern = /^(graph|flowchart|sequenceDiagram|gantt|classDiagram|stateDiagram|pie|gitGraph|erDiagram|journey|mindmap|timeline|sankey|block|c4)/m;
+      // 检查每个 code 元素，判断是否是图表代码：与导出一致，只按代码块语言查找渲染器
+      // （未放在代码块中的 Mermaid 图表由 Markdown 修复步骤 wrapMermaid 补上 ```mermaid）
+      const diagramElements: Array<{ codeEl: HTMLElement; info: DiagramBlockInfo }> = [];
 
       for (const codeEl of Array.from(codeElements) as HTMLElement[]) {
-        const codeText = codeEl.textContent?.trim() || '';
-        if (mermaidPattern.test(codeText) || codeEl.classList.contains('language-mermaid')) {
-          mermaidElements.push(codeEl);
+        const info = parseDiagramInfo(codeEl.parentElement?.dataset.info);
+        if (info) {
+          diagramElements.push({ codeEl, info });
         }
       }
 
-      console.log('[Mermaid] Found Mermaid code elements:', mermaidElements.length);
+      console.log('[Mermaid] Found diagram code elements:', diagramElements.length);
 
-      if (mermaidElements.length === 0) {
-        // 没有 Mermaid 代码块，直接标记完成
+      if (diagramElements.length === 0) {
+        // 没有图表代码块，直接标记完成
         isMermaidRendered.current = true;
         return;
       }
 
       let hasRendered = false;
 
-      for (const codeEl of mermaidElements) {
+      for (const { codeEl, info } of diagramElements) {
         const preEl = codeEl.parentElement;
         if (!preEl || preEl.tagName !== 'PRE') continue;
 
@@ -278,24 +258,29 @@ const App: React.FC = () => {
         if (!code) continue;
 
         try {
-          const id = `mermaid-${Math.random().toString(36).substring(2, 11)}`;
           console.log('[Mermaid] Rendering diagram:', code.substring(0, 100));
-          const { svg } = await mermaid.render(id, code);
+          const svg = await renderDiagramToHtml(code, info, exportOptions);
 
           // 创建包装元素替换 pre
           const wrapper = document.createElement('div');
           wrapper.className = 'mermaid-rendered flex justify-center my-3';
           wrapper.innerHTML = svg;
+          const svgEl = wrapper.querySelector('svg');
+          if (svgEl) applyDiagramWidth(svgEl, info, exportOptions.diagramMaxWidth);
 
           // 替换 pre 元素
           preEl.replaceWith(wrapper);
           hasRendered = true;
           console.log('[Mermaid] Diagram rendered successfully');
         } catch (error) {
-          console.error('Failed to render mermaid diagram:', error);
+          console.error(`Failed to render ${info.renderer.name} diagram:`, error);
           // 渲染失败时显示错误
           preEl.classList.add('mermaid-rendered');
-          preEl.innerHTML = `<code class="text-red-500 text-xs">Mermaid 渲染失败: ${error}</code>`;
+          // 错误信息可能包含图表原文，按文本插入
+          const errorEl = document.createElement('code');
+          errorEl.className = 'text-red-500 text-xs';
+          errorEl.textContent = `${info.renderer.name} 渲染失败: ${error}`;
+          preEl.replaceChildren(errorEl);
           hasRendered = true;
         }
       }
@@ -314,23 +299,46 @@ const App: React.FC = () => {
     // 延迟执行以确保 DOM 已更新
     const timer = setTimeout(renderMermaid, 100);
     return () => clearTimeout(timer);
-  }, [previewHtml]);
+  }, [previewHtml, diagramSettingsKey]);
+
+  // 预览使用与导出相同的主题样式
+  const themeStyle = useMemo(
+    () => getThemeCssVariables(getDocumentTheme(exportOptions.themeId)) as React.CSSProperties,
+    [exportOptions.themeId]
+  );
 
   const tokenCount = useMemo(() => {
     return content.length > 0 ? Math.ceil(content.length / 4) : 0;
   }, [content]);
 
   const handleClear = () => {
+    if (!content.trim()) return;
+    setClearedContent(content);
+    // 同时留一份自动快照，撤销提示消失后仍可从版本快照中找回
+    saveSnapshot('清空前自动保存', content, true)
+      .catch(err => console.error('Failed to save snapshot:', err));
     setContent('');
   };
 
+  const handleUndoClear = () => {
+    if (clearedContent === null) return;
+    setContent(clearedContent);
+    setClearedContent(null);
+  };
+
+  const formatSavedTime = (timestamp: number) => {
+    const date = new Date(timestamp);
+    return `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+  };
+
   const handleLogout = async () => {
     await supabase.auth.signOut();
   };
 
   const handlePaste = async () => {
     try {
-      const text = await navigator.clipboard.readText();
+      // 从对话页面复制的回答带有 HTML，转换为 Markdown 以保留标题、表格与公式
+      const text = await readClipboardMarkdown();
       setContent(text);
     } catch (err) {
       console.error('Failed to read clipboard', err);
@@ -338,29 +346,102 @@ const App: React.FC = () => {
     }
   };
 
-  const handleDownload = async () => {
-    if (!content.trim()) return;
+  // 在文本框中粘贴富文本时按 Markdown 插入到光标处；纯文本交给浏览器默认处理
+  const handleTextareaPaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const html = e.clipboardData.getData('text/html');
+    if (!html || !isRichHtml(html)) return;
+
+    const markdown = clipboardHtmlToMarkdown(html);
+    if (!markdown.trim()) return;
+    e.preventDefault();
+
+    const textarea = e.currentTarget;
+    const { selectionStart, selectionEnd } = textarea;
+    setContent(content.slice(0, selectionStart) + markdown + content.slice(selectionEnd));
+    // 等 React 更新文本框后再把光标移到插入内容之后
+    requestAnimationFrame(() => {
+      const cursor = selectionStart + markdown.length;
+      textarea.setSelectionRange(cursor, cursor);
+    });
+  };
+
+  const handleImportFile = async (file: File) => {
+    if (!isImportableFile(file)) {
+      alert('仅支持导入 .md、.txt 或 .html 文件。');
+      return;
+    }
+    if (file.size > LARGE_FILE_SIZE) {
+      const sizeText = (file.size / 1024 / 1024).toFixed(1) + 'MB';
+      if (!window.confirm(`文件较大（${sizeText}），预览和导出可能会比较慢，是否继续导入？`)) return;
+    }
+    if (content.trim() && !window.confirm('导入将替换当前编辑的内容，是否继续？')) return;
 
-    setIsProcessing(true);
+    try {
+      setContent(await readImportFile(file));
+    } catch (err) {
+      console.error('Failed to import file', err);
+      alert(err instanceof Error ? err.message : '文件读取失败，请重试。');
+    }
+  };
+
+  const handleImportInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // 清空选择，允许重新导入同名文件
+    e.target.value = '';
+    if (file) handleImportFile(file);
+  };
+
+  const handleEditorDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDraggingFile(true);
+  };
+
+  const handleEditorDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    // 在子元素之间移动时也会触发 dragleave，只在真正离开面板时取消高亮
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFile(false);
+  };
+
+  const handleEditorDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFile(false);
+    const file = e.dataTransfer.files[0];
+    if (file) handleImportFile(file);
+  };
+
+  const generateExportBlob = (markdown: string, format: ExportFormat): Promise<Blob> => {
+    switch (format) {
+      case 'pdf':
+        return generatePdfDocument(markdown, exportOptions);
+      case 'html':
+        // 导出当前内容时复用预览中已渲染好的 Mermaid 图表
+        return generateHtmlDocument(markdown === content && renderedHtml ? renderedHtml : generatePreviewHtml(markdown), exportOptions);
+      case 'odt':
+        return generateOdtDocument(markdown, exportOptions);
+      case 'markdown':
+        return generateMarkdownBundle(markdown, exportOptions);
+      default:
+        return generateWordDocument(markdown, exportOptions);
+    }
+  };
+
+  // 生成并下载文档，登录用户同时保存到下载历史
+  const exportDocument = async (markdown: string, format: ExportFormat = 'docx') => {
+    setExportingFormat(format);
 
     try {
-      const blob = await generateWordDocument(content);
+      const blob = await generateExportBlob(markdown, format);
       // 生成可读的日期时间格式文件名：ai2word-2026-02-01-143052.docx
       const now = new Date();
       const dateStr = now.toISOString().slice(0, 10); // 2026-02-01
       const timeStr = now.toTimeString().slice(0, 8).replace(/:/g, ''); // 143052
-      const fileName = `ai2word-${dateStr}-${timeStr}.docx`;
-      const fileSize = (blob.size / 1024).toFixed(1) + 'KB';
+      const fileName = `ai2word-${dateStr}-${timeStr}.${EXPORT_FORMATS[format].extension}`;
 
       if (user) {
         try {
-          const { error } = await supabase.from('conversions').insert({
-            user_id: user.id,
-            title: fileName,
-            content: content.substring(0, 500),
-            file_size: fileSize
-          });
-          if (error) throw error;
+          await saveConversion({ userId: user.id, fileName, markdown, blob, format });
         } catch (err) {
           console.error('Failed to save history:', err);
         }
@@ -368,13 +449,25 @@ const App: React.FC = () => {
 
       saveAs(blob, fileName);
     } catch (error) {
-      console.error('Failed to generate DOCX:', error);
-      alert('生成文档失败，请重试。');
+      console.error(`Failed to generate ${format.toUpperCase()}:`, error);
+      alert(error instanceof PdfFontError ? error.message : '生成文档失败，请重试。');
     } finally {
-      setIsProcessing(false);
+      setExportingFormat(null);
     }
   };
 
+  const handleDownload = async () => {
+    if (!content.trim()) return;
+    await exportDocument(content, exportFormat);
+  };
+
+  // 从历史记录打开源文到编辑器
+  const handleOpenHistorySource = (markdown: string) => {
+    if (content.trim() && content !== markdown && !window.confirm('打开历史记录将替换当前编辑的内容，是否继续？')) return;
+    setContent(markdown);
+    setShowHistoryModal(false);
+  };
+
   const handleHistoryClick = () => {
     if (isLoggedIn) {
       setShowHistoryModal(true);
@@ -458,6 +551,13 @@ const App: React.FC = () => {
           </div>
 
           <div className="flex items-center gap-2">
+            <button
+              onClick={() => setShowSettingsModal(true)}
+              className="w-8 h-8 flex items-center justify-center rounded-full text-slate-400 hover:text-slate-600 hover:bg-slate-100 transition-all"
+              title="导出设置"
+            >
+              <Settings2 size={18} />
+            </button>
             <button
               onClick={handleHistoryClick}
               className="w-8 h-8 flex items-center justify-center rounded-full text-slate-400 hover:text-slate-600 hover:bg-slate-100 transition-all"
@@ -493,11 +593,30 @@ const App: React.FC = () => {
 
           <div className="flex-1 min-h-0 grid grid-cols-2 gap-6">
 
-            <div className="flex flex-col h-full min-h-0 bg-white border border-slate-100 rounded-3xl overflow-hidden shadow-sm shadow-orange-100/20 focus-within:ring-2 focus-within:ring-primary/20 transition-all">
+            <div
+              onDragOver={handleEditorDragOver}
+              onDragLeave={handleEditorDragLeave}
+              onDrop={handleEditorDrop}
+              className={`relative flex flex-col h-full min-h-0 bg-white border rounded-3xl overflow-hidden shadow-sm shadow-orange-100/20 focus-within:ring-2 focus-within:ring-primary/20 transition-all ${isDraggingFile ? 'border-primary ring-2 ring-primary/30' : 'border-slate-100'}`}
+            >
+              {isDraggingFile && (
+                <div className="absolute inset-0 z-10 flex flex-col items-center justify-center gap-2 bg-orange-50/90 text-primary pointer-events-none">
+                  <FileUp size={32} strokeWidth={1.5} />
+                  <p className="text-sm font-bold">松开以导入文件</p>
+                  <p className="text-[11px] text-slate-400">支持 .md、.txt、.html</p>
+                </div>
+              )}
               <div className="flex items-center justify-between px-4 py-2.5 border-b border-slate-50 shrink-0">
-                <span className="text-[11px] font-bold text-slate-500 tracking-tight uppercase">
-                  粘贴 AI 内容
-                </span>
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="text-[11px] font-bold text-slate-500 tracking-tight uppercase">
+                    粘贴 AI 内容
+                  </span>
+                  {draftSavedAt !== null && content && (
+                    <span className="text-[10px] text-slate-300 truncate" title="内容自动保存在本机浏览器中">
+                      已自动保存 {formatSavedTime(draftSavedAt)}
+                    </span>
+                  )}
+                </div>
                 <div className="flex items-center gap-2">
                   <button
                     onClick={handleClear}
@@ -506,6 +625,29 @@ const App: React.FC = () => {
                     <Trash2 size={12} />
                     清空
                   </button>
+                  <button
+                    onClick={() => importInputRef.current?.click()}
+                    className="text-[10px] font-bold text-slate-500 hover:text-slate-700 hover:bg-slate-100 flex items-center gap-1 bg-slate-50 px-2 py-1 rounded-md transition-all duration-200"
+                    title="导入 .md / .txt / .html 文件，也可直接拖入"
+                  >
+                    <FileUp size={12} />
+                    导入
+                  </button>
+                  <button
+                    onClick={() => setShowVersionsModal(true)}
+                    className="text-[10px] font-bold text-slate-500 hover:text-slate-700 hover:bg-slate-100 flex items-center gap-1 bg-slate-50 px-2 py-1 rounded-md transition-all duration-200"
+                    title="保存快照、对比或恢复历史版本"
+                  >
+                    <Layers size={12} />
+                    版本
+                  </button>
+                  <input
+                    ref={importInputRef}
+                    type="file"
+                    accept={IMPORT_ACCEPT}
+                    className="hidden"
+                    onChange={handleImportInputChange}
+                  />
                   <button
                     onClick={handlePaste}
                     className="text-[10px] font-bold text-primary hover:text-orange-600 hover:bg-orange-100 flex items-center gap-1 bg-orange-50 px-2.5 py-1 rounded-md transition-all duration-200"
@@ -519,6 +661,7 @@ const App: React.FC = () => {
                 ref={textareaRef}
                 value={content}
                 onChange={(e) => setContent(e.target.value)}
+                onPaste={handleTextareaPaste}
                 className="flex-1 w-full bg-transparent border-none focus:ring-0 text-sm text-slate-700 placeholder:text-slate-300 p-4 resize-none leading-relaxed outline-none overflow-y-auto custom-scrollbar"
                 placeholder={`# 在此粘贴内容...
 
@@ -530,6 +673,18 @@ const App: React.FC = () => {
 
 提示：如果流程图或公式没有正确显示，请确保使用了正确的格式标记。`}
               />
+              {clearedContent !== null && (
+                <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 flex items-center gap-3 pl-4 pr-2 py-2 rounded-xl bg-slate-800 text-white text-xs shadow-lg animate-in fade-in duration-200">
+                  已清空内容
+                  <button
+                    onClick={handleUndoClear}
+                    className="flex items-center gap-1 px-2 py-1 rounded-lg font-bold text-orange-300 hover:bg-white/10 transition-colors"
+                  >
+                    <Undo2 size={12} />
+                    撤销
+                  </button>
+                </div>
+              )}
             </div>
 
             <div className="flex flex-col h-full min-h-0 bg-white rounded-3xl border border-slate-100 overflow-hidden relative shadow-sm shadow-orange-100/20">
@@ -538,9 +693,31 @@ const App: React.FC = () => {
                   <Eye size={16} />
                   <span className="text-xs font-bold uppercase tracking-wider">实时预览</span>
                 </div>
-                <div className="flex gap-1.5">
-                  <div className="w-2.5 h-2.5 rounded-full bg-slate-100"></div>
-                  <div className="w-2.5 h-2.5 rounded-full bg-slate-100"></div>
+                <div className="flex items-center gap-2">
+                  {content.trim() && appliedRepairs.length > 0 && (
+                    <button
+                      onClick={() => setShowSettingsModal(true)}
+                      title={`已自动修复：${REPAIR_PASSES.filter(pass => appliedRepairs.includes(pass.id)).map(pass => pass.name).join('、')}（可在导出设置中关闭）`}
+                      className="flex items-center gap-1 text-[11px] font-bold text-emerald-600 bg-emerald-50 border border-emerald-100 rounded-md px-2 py-1 hover:bg-emerald-100/60 transition-all"
+                    >
+                      <Wand2 size={12} />
+                      已修复 {appliedRepairs.length} 项
+                    </button>
+                  )}
+                  <div className="flex items-center gap-1.5 text-slate-400" title="文档主题">
+                    <Palette size={14} />
+                    <select
+                      value={exportOptions.themeId}
+                      onChange={(e) => setExportOptions({ ...exportOptions, themeId: e.target.value as DocumentThemeId })}
+                      className="text-[11px] font-bold text-slate-500 bg-slate-50 border border-slate-100 rounded-md px-2 py-1 outline-none cursor-pointer hover:bg-white hover:border-slate-200 transition-all"
+                    >
+                      {DOCUMENT_THEMES.map(theme => (
+                        <option key={theme.id} value={theme.id} title={theme.description}>
+                          {theme.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
                 </div>
               </div>
 
@@ -549,6 +726,7 @@ const App: React.FC = () => {
                   {content.trim() ? (
                     <div
                       className="prose max-w-none"
+                      style={themeStyle}
                       dangerouslySetInnerHTML={{ __html: renderedHtml || previewHtml }}
                     />
                   ) : (
@@ -564,26 +742,41 @@ const App: React.FC = () => {
           </div>
 
           <div className="shrink-0 pt-4">
-            <button
-              onClick={handleDownload}
-              disabled={!content.trim() || isProcessing}
-              className={`relative w-full h-12 rounded-2xl flex items-center justify-center gap-2 overflow-hidden shadow-xl transition-all duration-300 ${!content.trim()
-                ? 'bg-slate-200 cursor-not-allowed shadow-none opacity-80'
-                : 'bg-gradient-to-r from-primary to-primary-light shadow-orange-500/30 active:scale-[0.98] hover:brightness-105'
-                }`}
-            >
-              {isProcessing ? (
-                <>
-                  <Loader2 className="animate-spin text-white" size={18} />
-                  <span className="text-white text-sm font-bold tracking-wide">处理中...</span>
-                </>
-              ) : (
-                <>
-                  <Download className="text-white" strokeWidth={3} size={16} />
-                  <span className="text-white text-sm font-bold tracking-wide">下载 .docx</span>
-                </>
-              )}
-            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={handleDownload}
+                disabled={!content.trim() || isProcessing}
+                className={`relative flex-1 h-12 rounded-2xl flex items-center justify-center gap-2 overflow-hidden shadow-xl transition-all duration-300 ${!content.trim()
+                  ? 'bg-slate-200 cursor-not-allowed shadow-none opacity-80'
+                  : 'bg-gradient-to-r from-primary to-primary-light shadow-orange-500/30 active:scale-[0.98] hover:brightness-105'
+                  }`}
+              >
+                {isProcessing ? (
+                  <>
+                    <Loader2 className="animate-spin text-white" size={18} />
+                    <span className="text-white text-sm font-bold tracking-wide">处理中...</span>
+                  </>
+                ) : (
+                  <>
+                    <Download className="text-white" strokeWidth={3} size={16} />
+                    <span className="text-white text-sm font-bold tracking-wide">下载 .{EXPORT_FORMATS[exportFormat].extension}</span>
+                  </>
+                )}
+              </button>
+              <select
+                value={exportFormat}
+                onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                disabled={isProcessing}
+                title={EXPORT_FORMATS[exportFormat].description}
+                className="w-32 h-12 rounded-2xl px-3 border-2 border-primary/30 bg-white text-primary text-sm font-bold tracking-wide outline-none cursor-pointer transition-all duration-300 hover:bg-orange-50 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {EXPORT_FORMAT_ORDER.map(format => (
+                  <option key={format} value={format} title={EXPORT_FORMATS[format].description}>
+                    {EXPORT_FORMATS[format].label}
+                  </option>
+                ))}
+              </select>
+            </div>
             <p className="text-center text-[10px] text-slate-400 mt-2 font-semibold tracking-wide uppercase">
               v2.6.0 • {tokenCount > 0 ? `正在处理 ${tokenCount} 个 Token` : '准备就绪'}
             </p>
@@ -599,6 +792,20 @@ const App: React.FC = () => {
         <HistoryModal
           isOpen={showHistoryModal}
           onClose={() => setShowHistoryModal(false)}
+          onOpenSource={handleOpenHistorySource}
+          onRegenerate={exportDocument}
+        />
+        <ExportSettingsModal
+          isOpen={showSettingsModal}
+          onClose={() => setShowSettingsModal(false)}
+          options={exportOptions}
+          onChange={setExportOptions}
+        />
+        <DraftVersionsModal
+          isOpen={showVersionsModal}
+          onClose={() => setShowVersionsModal(false)}
+          content={content}
+          onRestore={setContent}
         />
 
       </div>
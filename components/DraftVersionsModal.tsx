@@ -0,0 +1,243 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Layers, Loader2, Save, RotateCcw, Trash2, FileText } from 'lucide-react';
+import { DraftSnapshot, deleteSnapshot, listSnapshots, saveSnapshot } from '../lib/draftStorage';
+import { diffLines, getDiffStats } from '../lib/textDiff';
+
+interface DraftVersionsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // 当前编辑器内容
+  content: string;
+  // 用快照内容替换编辑器内容
+  onRestore: (content: string) => void;
+}
+
+// 与快照对比的目标：当前编辑内容或另一个快照
+const CURRENT_CONTENT = 'current';
+
+const formatTime = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')} ${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+};
+
+const DIFF_LINE_STYLES = {
+  equal: 'text-slate-500',
+  added: 'bg-emerald-50 text-emerald-700',
+  removed: 'bg-red-50 text-red-600 line-through decoration-red-300',
+};
+
+const DIFF_LINE_MARKERS = { equal: ' ', added: '+', removed: '-' };
+
+export const DraftVersionsModal: React.FC<DraftVersionsModalProps> = ({ isOpen, onClose, content, onRestore }) => {
+  const [snapshots, setSnapshots] = useState<DraftSnapshot[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [snapshotName, setSnapshotName] = useState('');
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [compareTarget, setCompareTarget] = useState<string>(CURRENT_CONTENT);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchSnapshots();
+    } else {
+      setSelectedId(null);
+      setCompareTarget(CURRENT_CONTENT);
+    }
+  }, [isOpen]);
+
+  const fetchSnapshots = async () => {
+    setIsLoading(true);
+    try {
+      const list = await listSnapshots();
+      setSnapshots(list);
+      setSelectedId(prev => (prev !== null && list.some(snapshot => snapshot.id === prev) ? prev : list[0]?.id ?? null));
+    } catch (err) {
+      console.error('Error loading snapshots:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const selected = snapshots.find(snapshot => snapshot.id === selectedId) ?? null;
+  const compareContent = compareTarget === CURRENT_CONTENT
+    ? content
+    : snapshots.find(snapshot => String(snapshot.id) === compareTarget)?.content ?? content;
+
+  const diff = useMemo(
+    () => (selected ? diffLines(selected.content, compareContent) : []),
+    [selected, compareContent]
+  );
+  const stats = useMemo(() => getDiffStats(diff), [diff]);
+
+  const handleSaveSnapshot = async () => {
+    if (!content.trim()) return;
+    setIsSaving(true);
+    try {
+      await saveSnapshot(snapshotName.trim() || `快照 ${formatTime(Date.now())}`, content);
+      setSnapshotName('');
+      setSelectedId(null);
+      await fetchSnapshots();
+    } catch (err) {
+      console.error('Error saving snapshot:', err);
+      alert('保存快照失败，请重试。');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRestore = (snapshot: DraftSnapshot) => {
+    if (content.trim() && content !== snapshot.content && !window.confirm(`恢复「${snapshot.name}」将替换当前编辑的内容，是否继续？`)) return;
+    onRestore(snapshot.content);
+    onClose();
+  };
+
+  const handleDelete = async (snapshot: DraftSnapshot) => {
+    if (!window.confirm(`确定删除快照「${snapshot.name}」吗？`)) return;
+    try {
+      await deleteSnapshot(snapshot.id);
+      if (compareTarget === String(snapshot.id)) setCompareTarget(CURRENT_CONTENT);
+      await fetchSnapshots();
+    } catch (err) {
+      console.error('Error deleting snapshot:', err);
+      alert('删除失败，请重试。');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6">
+      <div
+        className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm transition-opacity"
+        onClick={onClose}
+      />
+      <div className="relative w-full max-w-4xl bg-white rounded-3xl shadow-2xl overflow-hidden transform transition-all animate-in fade-in zoom-in duration-200 flex flex-col h-[80vh]">
+
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-50 bg-white shrink-0">
+          <div className="flex items-center gap-2">
+            <div className="p-1.5 bg-violet-50 text-violet-500 rounded-lg">
+                <Layers size={16} strokeWidth={2.5} />
+            </div>
+            <h2 className="text-base font-bold text-slate-800">版本快照</h2>
+            <span className="text-[10px] text-slate-400">保存在本机浏览器中</span>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1.5 bg-slate-50 hover:bg-slate-100 rounded-full text-slate-400 hover:text-slate-600 transition-colors"
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 flex">
+          <div className="w-64 shrink-0 border-r border-slate-50 flex flex-col min-h-0">
+            <div className="p-3 space-y-2 border-b border-slate-50 shrink-0">
+              <input
+                value={snapshotName}
+                onChange={(e) => setSnapshotName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleSaveSnapshot(); }}
+                placeholder="快照名称（可选）"
+                className="w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs text-slate-700 outline-none focus:border-primary focus:ring-2 focus:ring-primary/10 transition-all"
+              />
+              <button
+                onClick={handleSaveSnapshot}
+                disabled={!content.trim() || isSaving}
+                className="w-full flex items-center justify-center gap-1.5 py-2 rounded-xl bg-orange-50 text-primary text-xs font-bold hover:bg-orange-100 transition-colors disabled:opacity-40 disabled:hover:bg-orange-50"
+              >
+                {isSaving ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />}
+                保存当前内容为快照
+              </button>
+            </div>
+
+            <div className="flex-1 min-h-0 overflow-y-auto p-2 space-y-1.5">
+              {isLoading ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="animate-spin text-primary" size={20} />
+                </div>
+              ) : snapshots.length > 0 ? (
+                snapshots.map(snapshot => (
+                  <div
+                    key={snapshot.id}
+                    onClick={() => setSelectedId(snapshot.id)}
+                    className={`group flex items-center gap-2 px-3 py-2 rounded-xl border cursor-pointer transition-all ${snapshot.id === selectedId
+                      ? 'bg-orange-50/60 border-primary/40'
+                      : 'bg-slate-50 border-slate-100 hover:border-primary/30 hover:bg-white'
+                      }`}
+                  >
+                    <div className="flex-1 min-w-0">
+                      <h3 className="text-xs font-bold text-slate-700 truncate">{snapshot.name}</h3>
+                      <p className="text-[10px] text-slate-400">
+                        {formatTime(snapshot.createdAt)}
+                        {snapshot.auto && <span className="ml-1.5 text-slate-300">自动</span>}
+                      </p>
+                    </div>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); handleDelete(snapshot); }}
+                      className="p-1 text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="删除快照"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                ))
+              ) : (
+                <div className="text-center py-10 text-slate-400 text-xs flex flex-col items-center gap-2">
+                  <FileText size={28} strokeWidth={1} className="text-slate-200" />
+                  暂无快照
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="flex-1 min-w-0 flex flex-col min-h-0">
+            {selected ? (
+              <>
+                <div className="flex items-center justify-between gap-3 px-4 py-2.5 border-b border-slate-50 shrink-0">
+                  <div className="flex items-center gap-2 min-w-0 text-[11px] text-slate-500">
+                    <span className="font-bold text-slate-700 truncate">{selected.name}</span>
+                    <span className="shrink-0">对比</span>
+                    <select
+                      value={compareTarget}
+                      onChange={(e) => setCompareTarget(e.target.value)}
+                      className="min-w-0 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-[11px] text-slate-600 outline-none focus:border-primary"
+                    >
+                      <option value={CURRENT_CONTENT}>当前内容</option>
+                      {snapshots.filter(snapshot => snapshot.id !== selected.id).map(snapshot => (
+                        <option key={snapshot.id} value={String(snapshot.id)}>{snapshot.name}</option>
+                      ))}
+                    </select>
+                    <span className="shrink-0 text-emerald-600">+{stats.added}</span>
+                    <span className="shrink-0 text-red-500">-{stats.removed}</span>
+                  </div>
+                  <button
+                    onClick={() => handleRestore(selected)}
+                    className="shrink-0 flex items-center gap-1 px-2.5 py-1.5 rounded-lg bg-slate-50 text-[11px] font-bold text-slate-600 hover:bg-orange-50 hover:text-primary transition-colors"
+                  >
+                    <RotateCcw size={12} />
+                    恢复此版本
+                  </button>
+                </div>
+                <div className="flex-1 min-h-0 overflow-auto custom-scrollbar py-2 font-mono text-[11px] leading-relaxed">
+                  {stats.added === 0 && stats.removed === 0 ? (
+                    <p className="text-center py-10 text-slate-400 font-sans text-xs">两个版本内容相同</p>
+                  ) : (
+                    diff.map((line, index) => (
+                      <div key={index} className={`flex px-4 whitespace-pre-wrap break-all ${DIFF_LINE_STYLES[line.type]}`}>
+                        <span className="w-4 shrink-0 select-none opacity-60">{DIFF_LINE_MARKERS[line.type]}</span>
+                        <span className="flex-1">{line.text || ' '}</span>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </>
+            ) : (
+              <div className="flex-1 flex items-center justify-center text-xs text-slate-400">
+                选择左侧的快照查看与当前内容的差异
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,530 @@
+import React, { useRef, useState } from 'react';
+import { X, Settings2, Link2, Image as ImageIcon, Code2, FileUp, Trash2, Loader2, ListTree, PanelTop, BookOpen, FileText, BookMarked, Wand2, Shapes, Workflow } from 'lucide-react';
+import { DiagramFont, DiagramImageFormat, ImageScale, LinkStyle, MermaidSettings, MermaidTheme, PageMargins, PageNumberFormat, PageOrientation, PaperSize, WordExportOptions } from '../types';
+import { loadReferenceTemplate } from '../lib/referenceTemplate';
+import { REPAIR_PASSES } from '../lib/markdownPipeline';
+import { Switch } from './Switch';
+
+interface ExportSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  options: WordExportOptions;
+  onChange: (options: WordExportOptions) => void;
+}
+
+interface OptionButtonProps {
+  active: boolean;
+  label: string;
+  onClick: () => void;
+}
+
+const OptionButton: React.FC<OptionButtonProps> = ({ active, label, onClick }) => (
+  <button
+    onClick={onClick}
+    className={`flex-1 px-2.5 py-1.5 rounded-lg text-[11px] font-bold border transition-all ${active
+      ? 'bg-orange-50 text-primary border-primary/40'
+      : 'bg-slate-50 text-slate-500 border-slate-100 hover:bg-white hover:border-slate-200'
+      }`}
+  >
+    {label}
+  </button>
+);
+
+interface TextFieldProps {
+  label: string;
+  value: string;
+  placeholder?: string;
+  onChange: (value: string) => void;
+}
+
+const TextField: React.FC<TextFieldProps> = ({ label, value, placeholder, onChange }) => (
+  <label className="flex items-center gap-3">
+    <span className="text-xs text-slate-600 shrink-0 w-10">{label}</span>
+    <input
+      type="text"
+      value={value}
+      placeholder={placeholder}
+      onChange={(e) => onChange(e.target.value)}
+      className="flex-1 min-w-0 bg-slate-50 border border-slate-100 rounded-lg px-2.5 py-1.5 outline-none focus:border-primary/50 focus:ring-2 focus:ring-primary/10 transition-all text-slate-700 text-xs placeholder:text-slate-300"
+    />
+  </label>
+);
+
+interface MarginFieldProps {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}
+
+const MarginField: React.FC<MarginFieldProps> = ({ label, value, onChange }) => (
+  <label className="flex items-center gap-1.5">
+    <span className="text-xs text-slate-600 shrink-0">{label}</span>
+    <input
+      type="number"
+      min={0}
+      max={100}
+      step={0.1}
+      value={value}
+      onChange={(e) => onChange(Math.max(0, Number(e.target.value) || 0))}
+      className="w-full min-w-0 bg-slate-50 border border-slate-100 rounded-lg px-2 py-1.5 outline-none focus:border-primary/50 focus:ring-2 focus:ring-primary/10 transition-all text-slate-700 text-xs"
+    />
+  </label>
+);
+
+const PAPER_SIZE_OPTIONS: PaperSize[] = ['A4', 'Letter', 'A3', 'B5'];
+
+const ORIENTATION_OPTIONS: Array<{ value: PageOrientation; label: string }> = [
+  { value: 'portrait', label: '纵向' },
+  { value: 'landscape', label: '横向' },
+];
+
+const MARGIN_FIELDS: Array<{ key: keyof PageMargins; label: string }> = [
+  { key: 'top', label: '上' },
+  { key: 'bottom', label: '下' },
+  { key: 'left', label: '左' },
+  { key: 'right', label: '右' },
+];
+
+const PAGE_NUMBER_FORMAT_OPTIONS: Array<{ value: PageNumberFormat; label: string }> = [
+  { value: 'decimal', label: '1' },
+  { value: 'dash', label: '- 1 -' },
+  { value: 'roman', label: 'I' },
+  { value: 'chinese', label: '一' },
+];
+
+const LINK_STYLE_OPTIONS: Array<{ value: LinkStyle; label: string }> = [
+  { value: 'hyperlink', label: '可点击链接' },
+  { value: 'inline-url', label: '括号附网址' },
+  { value: 'footnote', label: '网址作脚注' },
+];
+
+const DIAGRAM_FORMAT_OPTIONS: Array<{ value: DiagramImageFormat; label: string }> = [
+  { value: 'svg', label: '矢量 SVG' },
+  { value: 'png', label: '仅 PNG' },
+];
+
+const IMAGE_SCALE_OPTIONS: Array<{ value: ImageScale; label: string }> = [
+  { value: 1, label: '小体积 1x' },
+  { value: 2, label: '清晰 2x' },
+  { value: 4, label: '高清 4x' },
+];
+
+const MERMAID_THEME_OPTIONS: Array<{ value: MermaidTheme; label: string }> = [
+  { value: 'default', label: '默认' },
+  { value: 'neutral', label: '中性' },
+  { value: 'forest', label: '森林' },
+  { value: 'base', label: '简洁' },
+  { value: 'dark', label: '深色' },
+];
+
+const DIAGRAM_FONT_OPTIONS: Array<{ value: DiagramFont; label: string }> = [
+  { value: 'sans', label: '黑体' },
+  { value: 'serif', label: '宋体' },
+  { value: 'kai', label: '楷体' },
+];
+
+const DIAGRAM_MAX_WIDTH_OPTIONS = [50, 75, 100];
+
+export const ExportSettingsModal: React.FC<ExportSettingsModalProps> = ({ isOpen, onClose, options, onChange }) => {
+  const templateInputRef = useRef<HTMLInputElement>(null);
+  const [isLoadingTemplate, setIsLoadingTemplate] = useState(false);
+  const [templateError, setTemplateError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const update = (patch: Partial<WordExportOptions>) => onChange({ ...options, ...patch });
+  const updateMermaid = (patch: Partial<MermaidSettings>) => update({ mermaid: { ...options.mermaid, ...patch } });
+
+  const handleTemplateChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // 清空选择，允许重新上传同名文件
+    e.target.value = '';
+    if (!file) return;
+
+    setIsLoadingTemplate(true);
+    setTemplateError(null);
+    try {
+      update({ referenceTemplate: await loadReferenceTemplate(file) });
+    } catch (error) {
+      console.error('Failed to load reference template:', error);
+      setTemplateError(error instanceof Error ? error.message : '模板读取失败');
+    } finally {
+      setIsLoadingTemplate(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6">
+      <div
+        className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm transition-opacity"
+        onClick={onClose}
+      />
+      <div className="relative w-full max-w-sm bg-white rounded-3xl shadow-2xl overflow-hidden transform transition-all animate-in fade-in zoom-in duration-200 flex flex-col max-h-[80vh]">
+
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-50 bg-white shrink-0">
+          <div className="flex items-center gap-2">
+            <div className="p-1.5 bg-orange-50 text-primary rounded-lg">
+              <Settings2 size={16} strokeWidth={2.5} />
+            </div>
+            <h2 className="text-base font-bold text-slate-800">导出设置</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1.5 bg-slate-50 hover:bg-slate-100 rounded-full text-slate-400 hover:text-slate-600 transition-colors"
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-5 space-y-5 min-h-0">
+          <section className="space-y-2">
+            <div className="flex items-center gap-1.5 text-slate-500">
+              <FileUp size={12} />
+              <span className="text-[10px] font-bold uppercase tracking-wider">参考模板</span>
+            </div>
+            {options.referenceTemplate ? (
+              <div className="flex items-center justify-between gap-2 px-3 py-2 rounded-lg bg-orange-50 border border-primary/40">
+                <span className="text-xs font-bold text-primary truncate">{options.referenceTemplate.name}</span>
+                <button
+                  onClick={() => update({ referenceTemplate: null })}
+                  className="p-1 rounded-md text-slate-400 hover:text-red-500 hover:bg-red-50 transition-colors shrink-0"
+                  title="移除模板"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={() => templateInputRef.current?.click()}
+                disabled={isLoadingTemplate}
+                className="w-full flex items-center justify-center gap-1.5 px-2.5 py-2 rounded-lg text-[11px] font-bold border border-dashed bg-slate-50 text-slate-500 border-slate-200 hover:bg-white hover:border-primary/40 transition-all"
+              >
+                {isLoadingTemplate ? <Loader2 size={12} className="animate-spin" /> : <FileUp size={12} />}
+                上传 .docx 模板
+              </button>
+            )}
+            <input
+              ref={templateInputRef}
+              type="file"
+              accept=".docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+              className="hidden"
+              onChange={handleTemplateChange}
+            />
+            {templateError && <p className="text-[10px] text-red-500">{templateError}</p>}
+            <p className="text-[10px] text-slate-400">沿用模板中的标题/正文/表格样式、纸张边距和页眉页脚（含 Logo），优先于所选主题的样式定义。</p>
+          </section>
+
+          <section className="space-y-2">
+            <div className="flex items-center gap-1.5 text-slate-500">
+              <FileText size={12} />
+              <span className="text-[10px] font-bold uppercase tracking-wider">页面</span>
+            </div>
+            <div className="flex gap-2">
+              {PAPER_SIZE_OPTIONS.map(size => (
+                <OptionButton
+                  key={size}
+                  active={options.paperSize === size}
+                  label={size}
+                  onClick={() => update({ paperSize: size })}
+                />
+              ))}
+            </div>
+            <div className="flex gap-2">
+              {ORIENTATION_OPTIONS.map(({ value, label }) => (
+                <OptionButton
+                  key={value}
+                  active={options.orientation === value}
+                  label={label}
+                  onClick={() => update({ orientation: value })}
+                />
+              ))}
+            </div>
+            <div className="grid grid-cols-4 gap-2">
+              {MARGIN_FIELDS.map(({ key, label }) => (
+                <MarginField
+                  key={key}
+                  label={label}
+                  value={options.pageMargins[key]}
+                  onChange={(value) => update({ pageMargins: { ...options.pageMargins, [key]: value } })}
+                />
+              ))}
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-slate-600">宽表格 (超过 6 列) 自动横向</span>
+              <Switch
+                checked={options.autoLandscapeTables}
+                onChange={(checked) => update({ autoLandscapeTables: checked })}
+              />
+            </div>
+            <p className="text-[10px] text-slate-400">
+              边距单位为毫米；{'<!-- landscape -->'} 与 {'<!-- /landscape -->'} 之间的内容单独使用横向页面。
+              {options.referenceTemplate && ' 已上传参考模板，纸张与边距以模板为准。'}
+            </p>
+          </section>
+
+          <section className="space-y-2">
+            <div className="flex items-center gap-1.5 text-slate-500">
+              <ListTree size={12} />
+              <span className="text-[10px] font-bold uppercase tracking-wider">目录与编号</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-slate-600">插入目录</span>
+              <Switch
+                checked={options.tableOfContents}
+                onChange={(checked) => update({ tableOfContents: checked })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-slate-600">标题编号 (1 / 1.1 / 1.1.1)</span>
+              <Switch
+                checked={options.headingNumbering}
+                onChange={(checked) => update({ headingNumbering: checked })}
+              />
+            </div>
+            <p className="text-[10px] text-slate-400">打开文档时 Word 会提示更新域以生成目录页码；位于开头的唯一一级标题视为文档标题，不参与编号。</p>
+          </section>
+
+          <section className="space-y-2">
+            <div className="flex items-center gap-1.5 text-slate-500">
+              <PanelTop size={12} />
+              <span className="text-[10px] font-bold uppercase tracking-wider">页眉页脚</span>
+            </div>
+            <TextField
+              label="页眉"
+              value={options.headerText}
+              placeholder="如：{title} · 内部资料"
+              onChange={(value) => update({ headerText: value })}
+            />
+            <TextField
+              label="页脚"
+              value={options.footerText}
+              placeholder="如：第 {page} 页 / 共 {pages} 页"
+              onChange={(value) => update({ footerText: value })}
+            />
+            <div className="flex gap-2">
+              {PAGE_NUMBER_FORMAT_OPTIONS.map(({ value, label }) => (
+                <OptionButton
+                  key={value}
+                  active={options.pageNumberFormat === value}
+                  label={label}
+                  onClick={() => update({ pageNumberFormat: value })}
+                />
+              ))}
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-slate-600">首页不显示页眉页脚</span>
+              <Switch
+                checked={options.differentFirstPage}
+                onChange={(checked) => update({ differentFirstPage: checked })}
+              />
+            </div>
+            <p className="text-[10px] text-slate-400">可用占位符：{'{title}'} 文档标题、{'{date}'} 日期、{'{page}'} 页码、{'{pages}'} 总页数。</p>
+          </section>
+
+          <section className="space-y-2">
+            <div className="flex items-center gap-1.5 text-slate-500">
+              <BookOpen size={12} />
+              <span className="text-[10px] font-bold uppercase tracking-wider">封面</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-slate-600">生成封面页</span>
+              <Switch
+                checked={options.coverPage}
+                onChange={(checked) => update({ coverPage: checked })}
+              />
+            </div>
+            {options.coverPage && (
+              <>
+                <TextField
+                  label="作者"
+                  value={options.coverAuthor}
+                  onChange={(value) => update({ coverAuthor: value })}
+                />
+                <TextField
+                  label="日期"
+                  value={options.coverDate}
+                  placeholder="留空使用当天日期"
+                  onChange={(value) => update({ coverDate: value })}
+                />
+              </>
+            )}
+            <p className="text-[10px] text-slate-400">封面标题取自第一个一级标题，封面不计入页码。</p>
+          </section>
+
+          <section className="space-y-2">
+            <div className="flex items-center gap-1.5 text-slate-500">
+              <Link2 size={12} />
+              <span className="text-[10px] font-bold uppercase tracking-wider">链接</span>
+            </div>
+            <div className="flex gap-2">
+              {LINK_STYLE_OPTIONS.map(({ value, label }) => (
+                <OptionButton
+                  key={value}
+                  active={options.linkStyle === value}
+                  label={label}
+                  onClick={() => update({ linkStyle: value })}
+                />
+              ))}
+            </div>
+            <p className="text-[10px] text-slate-400">打印用文档建议将网址附在括号中或放入脚注。</p>
+          </section>
+
+          <section className="space-y-2">
+            <div className="flex items-center gap-1.5 text-slate-500">
+              <BookMarked size={12} />
+              <span className="text-[10px] font-bold uppercase tracking-wider">脚注与引用</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-slate-600">文末参考文献生成引用链接</span>
+              <Switch
+                checked={options.referenceCitations}
+                onChange={(checked) => update({ referenceCitations: checked })}
+              />
+            </div>
+            <p className="text-[10px] text-slate-400">{'[^1]'} 脚注始终转换为 Word 脚注；开启后，文末 References / 参考文献 下的编号条目作为尾注列表，正文中的 [1]、[2, 3] 变为可跳转的上标引用。</p>
+          </section>
+
+          <section className="space-y-2">
+            <div className="flex items-center gap-1.5 text-slate-500">
+              <ImageIcon size={12} />
+              <span className="text-[10px] font-bold uppercase tracking-wider">图片</span>
+            </div>
+            <div className="flex gap-2">
+              <OptionButton
+                active={options.allowRemoteImages}
+                label="允许联网加载"
+                onClick={() => update({ allowRemoteImages: true })}
+              />
+              <OptionButton
+                active={!options.allowRemoteImages}
+                label="仅本地图片"
+                onClick={() => update({ allowRemoteImages: false })}
+              />
+            </div>
+            <p className="text-[10px] text-slate-400">保密文档可选择仅本地，网络图片将以替代文字占位，不发起任何请求。</p>
+          </section>
+
+          <section className="space-y-2">
+            <div className="flex items-center gap-1.5 text-slate-500">
+              <Shapes size={12} />
+              <span className="text-[10px] font-bold uppercase tracking-wider">图表与公式图片</span>
+            </div>
+            <div className="flex gap-2">
+              {DIAGRAM_FORMAT_OPTIONS.map(({ value, label }) => (
+                <OptionButton
+                  key={value}
+                  active={options.diagramFormat === value}
+                  label={label}
+                  onClick={() => update({ diagramFormat: value })}
+                />
+              ))}
+            </div>
+            <div className="flex gap-2">
+              {IMAGE_SCALE_OPTIONS.map(({ value, label }) => (
+                <OptionButton
+                  key={value}
+                  active={options.imageScale === value}
+                  label={label}
+                  onClick={() => update({ imageScale: value })}
+                />
+              ))}
+            </div>
+            <p className="text-[10px] text-slate-400">用于 Word、ODT 中的图表和无法转换为原生公式的公式。矢量图缩放不失真，另附 PNG 备用图供旧版 Word 显示；倍率越高 PNG 越清晰，文件也越大。图表文字使用随应用提供的黑体并转为轮廓，没有安装中文字体的电脑也能正常显示（图表字体设置只用于预览和 HTML）。</p>
+          </section>
+
+          <section className="space-y-2">
+            <div className="flex items-center gap-1.5 text-slate-500">
+              <Workflow size={12} />
+              <span className="text-[10px] font-bold uppercase tracking-wider">图表</span>
+            </div>
+            <span className="block text-xs text-slate-600">Mermaid 主题</span>
+            <div className="flex gap-2">
+              {MERMAID_THEME_OPTIONS.map(({ value, label }) => (
+                <OptionButton
+                  key={value}
+                  active={options.mermaid.theme === value}
+                  label={label}
+                  onClick={() => updateMermaid({ theme: value })}
+                />
+              ))}
+            </div>
+            <div className="flex gap-2">
+              {DIAGRAM_FONT_OPTIONS.map(({ value, label }) => (
+                <OptionButton
+                  key={value}
+                  active={options.diagramFont === value}
+                  label={label}
+                  onClick={() => update({ diagramFont: value })}
+                />
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-slate-600 shrink-0">最大宽度</span>
+              {DIAGRAM_MAX_WIDTH_OPTIONS.map(value => (
+                <OptionButton
+                  key={value}
+                  active={options.diagramMaxWidth === value}
+                  label={`${value}%`}
+                  onClick={() => update({ diagramMaxWidth: value })}
+                />
+              ))}
+            </div>
+            <div className="flex items-center justify-between" title="禁用图表中的 HTML 标签、点击事件和链接，粘贴来源不明的内容时建议开启">
+              <span className="text-xs text-slate-600">Mermaid 严格安全模式</span>
+              <Switch
+                checked={options.mermaid.strict}
+                onChange={(checked) => updateMermaid({ strict: checked })}
+              />
+            </div>
+            <span className="block text-xs text-slate-600">PlantUML 服务</span>
+            <TextField
+              label="地址"
+              value={options.plantUmlServer}
+              placeholder="如 http://localhost:8080，留空则显示为代码"
+              onChange={(value) => update({ plantUmlServer: value })}
+            />
+            <p className="text-[10px] text-slate-400">支持 mermaid、dot (Graphviz)、plantuml、echarts、vega-lite 代码块，后两者为 JSON 配置。预览与所有下载格式使用相同设置；Mermaid 图表中的 %%{'{'}init: …{'}'}%% 指令优先。单个图表可指定宽度，如 ```mermaid width=80% 或 width=400px；渲染失败的图表导出为代码。</p>
+          </section>
+
+          <section className="space-y-2">
+            <div className="flex items-center gap-1.5 text-slate-500">
+              <Code2 size={12} />
+              <span className="text-[10px] font-bold uppercase tracking-wider">代码块</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-slate-600">显示语言名称</span>
+              <Switch
+                checked={options.codeLanguageCaption}
+                onChange={(checked) => update({ codeLanguageCaption: checked })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-slate-600">显示行号</span>
+              <Switch
+                checked={options.codeLineNumbers}
+                onChange={(checked) => update({ codeLineNumbers: checked })}
+              />
+            </div>
+          </section>
+
+          <section className="space-y-2">
+            <div className="flex items-center gap-1.5 text-slate-500">
+              <Wand2 size={12} />
+              <span className="text-[10px] font-bold uppercase tracking-wider">自动修复</span>
+            </div>
+            {REPAIR_PASSES.map(pass => (
+              <div key={pass.id} className="flex items-center justify-between gap-3" title={pass.description}>
+                <span className="text-xs text-slate-600">{pass.name}</span>
+                <Switch
+                  checked={options.repairs[pass.id]}
+                  onChange={(checked) => update({ repairs: { ...options.repairs, [pass.id]: checked } })}
+                />
+              </div>
+            ))}
+            <p className="text-[10px] text-slate-400">预览与所有下载格式使用相同的修复结果；预览上方会提示本次生效的修复项。</p>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
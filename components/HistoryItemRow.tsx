@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import { FileText, Calendar, Download, Loader2, FilePen, RefreshCw, Pencil, Check, X, Tag, Plus } from 'lucide-react';
+import { ConversionRecord } from '../lib/conversionHistory';
+import { EXPORT_FORMATS } from '../lib/exportFormats';
+import { ExportFormat } from '../types';
+
+export type HistoryAction = 'download' | 'open' | 'regenerate';
+
+interface HistoryItemRowProps {
+  item: ConversionRecord;
+  selected: boolean;
+  pendingAction: HistoryAction | null;
+  onToggleSelected: () => void;
+  onAction: (action: HistoryAction) => void;
+  onRename: (title: string) => Promise<void>;
+  onTagsChange: (tags: string[]) => Promise<void>;
+  onTagClick: (tag: string) => void;
+}
+
+interface ActionButtonProps {
+  title: string;
+  icon: React.ReactNode;
+  busy: boolean;
+  disabled?: boolean;
+  onClick: () => void;
+}
+
+const ActionButton: React.FC<ActionButtonProps> = ({ title, icon, busy, disabled, onClick }) => (
+  <button
+    onClick={onClick}
+    disabled={busy || disabled}
+    title={title}
+    className="p-2 text-slate-300 hover:text-primary transition-colors hover:bg-orange-50 rounded-lg disabled:opacity-40 disabled:hover:text-slate-300 disabled:hover:bg-transparent"
+  >
+    {busy ? <Loader2 size={16} className="animate-spin" /> : icon}
+  </button>
+);
+
+const FORMAT_BADGE_CLASSES: Record<ExportFormat, string> = {
+  docx: 'bg-blue-50 text-blue-500',
+  pdf: 'bg-red-50 text-red-500',
+  html: 'bg-amber-50 text-amber-600',
+  odt: 'bg-sky-50 text-sky-600',
+  markdown: 'bg-slate-100 text-slate-500',
+};
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')} ${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+};
+
+export const HistoryItemRow: React.FC<HistoryItemRowProps> = ({
+  item, selected, pendingAction, onToggleSelected, onAction, onRename, onTagsChange, onTagClick,
+}) => {
+  const [editingTitle, setEditingTitle] = useState<string | null>(null);
+  const [newTag, setNewTag] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const save = async (task: () => Promise<void>) => {
+    setIsSaving(true);
+    try {
+      await task();
+    } catch (err) {
+      console.error('Error updating history item:', err);
+      alert('保存失败，请重试。');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const submitTitle = () => {
+    const title = editingTitle?.trim();
+    setEditingTitle(null);
+    if (title && title !== item.title) save(() => onRename(title));
+  };
+
+  const submitTag = () => {
+    const tag = newTag?.trim();
+    setNewTag(null);
+    if (tag && !item.tags.includes(tag)) save(() => onTagsChange([...item.tags, tag]));
+  };
+
+  const removeTag = (tag: string) => save(() => onTagsChange(item.tags.filter(t => t !== tag)));
+
+  return (
+    <div className={`flex items-start gap-2.5 p-3 rounded-xl border transition-all ${selected
+      ? 'bg-orange-50/60 border-primary/40'
+      : 'bg-slate-50 border-slate-100 hover:border-primary/30 hover:bg-white hover:shadow-sm'
+      }`}
+    >
+      <input
+        type="checkbox"
+        checked={selected}
+        onChange={onToggleSelected}
+        className="mt-3 accent-orange-500 cursor-pointer shrink-0"
+      />
+      <div className="w-9 h-9 rounded-lg bg-white border border-slate-100 text-orange-500 flex items-center justify-center shrink-0 shadow-sm mt-0.5">
+        {isSaving ? <Loader2 size={16} className="animate-spin" /> : <FileText size={18} />}
+      </div>
+
+      <div className="flex-1 min-w-0 flex flex-col gap-1">
+        {editingTitle !== null ? (
+          <div className="flex items-center gap-1">
+            <input
+              autoFocus
+              value={editingTitle}
+              onChange={(e) => setEditingTitle(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') submitTitle();
+                if (e.key === 'Escape') setEditingTitle(null);
+              }}
+              className="flex-1 min-w-0 bg-white border border-primary/40 rounded-md px-2 py-0.5 text-xs text-slate-700 outline-none focus:ring-2 focus:ring-primary/10"
+            />
+            <button onClick={submitTitle} className="p-1 text-slate-400 hover:text-primary" title="保存">
+              <Check size={12} />
+            </button>
+            <button onClick={() => setEditingTitle(null)} className="p-1 text-slate-400 hover:text-slate-600" title="取消">
+              <X size={12} />
+            </button>
+          </div>
+        ) : (
+          <div className="flex items-center gap-1 group/title min-w-0">
+            <h3 className="text-xs font-bold text-slate-700 truncate">{item.title}</h3>
+            <button
+              onClick={() => setEditingTitle(item.title)}
+              className="p-0.5 text-slate-300 hover:text-primary opacity-0 group-hover/title:opacity-100 transition-opacity shrink-0"
+              title="重命名"
+            >
+              <Pencil size={11} />
+            </button>
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <span className="text-[10px] text-slate-400 flex items-center gap-1">
+            <Calendar size={10} /> {formatDate(item.created_at)}
+          </span>
+          <span className="text-[10px] text-slate-300">•</span>
+          <span className="text-[10px] text-slate-400">{item.file_size}</span>
+          <span
+            className={`px-1 rounded text-[9px] font-bold uppercase ${FORMAT_BADGE_CLASSES[item.format] ?? FORMAT_BADGE_CLASSES.docx}`}
+            title={EXPORT_FORMATS[item.format]?.description}
+          >
+            {item.format === 'markdown' ? 'md' : item.format}
+          </span>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-1">
+          {item.tags.map(tag => (
+            <span key={tag} className="inline-flex items-center gap-0.5 pl-1.5 pr-0.5 py-0.5 rounded-md bg-white border border-slate-100 text-[10px] text-slate-500">
+              <button onClick={() => onTagClick(tag)} className="hover:text-primary" title="只看该标签">
+                {tag}
+              </button>
+              <button onClick={() => removeTag(tag)} className="text-slate-300 hover:text-red-500" title="移除标签">
+                <X size={10} />
+              </button>
+            </span>
+          ))}
+          {newTag !== null ? (
+            <input
+              autoFocus
+              value={newTag}
+              placeholder="标签名"
+              onChange={(e) => setNewTag(e.target.value)}
+              onBlur={submitTag}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') submitTag();
+                if (e.key === 'Escape') setNewTag(null);
+              }}
+              className="w-20 bg-white border border-primary/40 rounded-md px-1.5 py-0.5 text-[10px] text-slate-700 outline-none"
+            />
+          ) : (
+            <button
+              onClick={() => setNewTag('')}
+              className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded-md text-[10px] text-slate-400 hover:text-primary hover:bg-orange-50 transition-colors"
+            >
+              {item.tags.length > 0 ? <Plus size={10} /> : <><Tag size={10} /> 添加标签</>}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center shrink-0">
+        <ActionButton
+          title={item.storage_path ? '重新下载' : '该记录没有保存文件'}
+          icon={<Download size={16} />}
+          busy={pendingAction === 'download'}
+          disabled={!item.storage_path}
+          onClick={() => onAction('download')}
+        />
+        <ActionButton
+          title="在编辑器中打开"
+          icon={<FilePen size={16} />}
+          busy={pendingAction === 'open'}
+          onClick={() => onAction('open')}
+        />
+        <ActionButton
+          title="按当前设置重新生成"
+          icon={<RefreshCw size={16} />}
+          busy={pendingAction === 'regenerate'}
+          onClick={() => onAction('regenerate')}
+        />
+      </div>
+    </div>
+  );
+};
@@ -1,39 +1,78 @@
 import React, { useEffect, useState } from 'react';
-import { X, FileText, Calendar, Download, Clock, Loader2 } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { X, FileText, Clock, Loader2, Search, Trash2, ChevronLeft, ChevronRight } from 'lucide-react';
+import { saveAs } from 'file-saver';
+import {
+  ConversionRecord,
+  HISTORY_PAGE_SIZE,
+  HistoryQuery,
+  deleteConversions,
+  downloadConversionFile,
+  fetchConversionMarkdown,
+  fetchConversionTags,
+  fetchConversions,
+  renameConversion,
+  updateConversionTags,
+} from '../lib/conversionHistory';
+import { HistoryAction, HistoryItemRow } from './HistoryItemRow';
+import { ExportFormat } from '../types';
 
 interface HistoryModalProps {
   isOpen: boolean;
   onClose: () => void;
+  // 在编辑器中打开源文
+  onOpenSource: (markdown: string) => void;
+  // 按当前导出设置重新生成并下载，格式与原记录相同
+  onRegenerate: (markdown: string, format: ExportFormat) => Promise<void>;
 }
 
-interface HistoryItem {
-  id: string;
-  title: string;
-  created_at: string;
-  file_size: string;
-}
+const INITIAL_QUERY: HistoryQuery = { search: '', dateFrom: '', dateTo: '', tag: null, page: 0 };
+// 搜索框输入停顿后再查询
+const SEARCH_DEBOUNCE_MS = 300;
 
-export const HistoryModal: React.FC<HistoryModalProps> = ({ isOpen, onClose }) => {
-  const [historyItems, setHistoryItems] = useState<HistoryItem[]>([]);
+export const HistoryModal: React.FC<HistoryModalProps> = ({ isOpen, onClose, onOpenSource, onRegenerate }) => {
+  const [historyItems, setHistoryItems] = useState<ConversionRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [allTags, setAllTags] = useState<string[]>([]);
+  const [query, setQuery] = useState<HistoryQuery>(INITIAL_QUERY);
+  const [searchInput, setSearchInput] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [isLoading, setIsLoading] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [pendingAction, setPendingAction] = useState<{ id: string; action: HistoryAction } | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchHistory(query);
+    }
+  }, [isOpen, query]);
 
   useEffect(() => {
     if (isOpen) {
-      fetchHistory();
+      fetchTags();
+    } else {
+      setQuery(INITIAL_QUERY);
+      setSearchInput('');
+      setSelectedIds(new Set());
     }
   }, [isOpen]);
 
-  const fetchHistory = async () => {
+  useEffect(() => {
+    if (searchInput === query.search) return;
+    const timer = setTimeout(() => updateQuery({ search: searchInput }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const fetchHistory = async (currentQuery: HistoryQuery) => {
     setIsLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('conversions')
-        .select('id, title, created_at, file_size')
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setHistoryItems(data || []);
+      const { records, total } = await fetchConversions(currentQuery);
+      // 删除后当前页可能已超出范围，回到最后一页
+      if (records.length === 0 && total > 0 && currentQuery.page > 0) {
+        setQuery({ ...currentQuery, page: Math.ceil(total / HISTORY_PAGE_SIZE) - 1 });
+        return;
+      }
+      setHistoryItems(records);
+      setTotal(total);
     } catch (err) {
       console.error('Error fetching history:', err);
     } finally {
@@ -41,29 +80,126 @@ export const HistoryModal: React.FC<HistoryModalProps> = ({ isOpen, onClose }) =
     }
   };
 
-  if (!isOpen) return null;
+  const fetchTags = async () => {
+    try {
+      setAllTags(await fetchConversionTags());
+    } catch (err) {
+      console.error('Error fetching history tags:', err);
+    }
+  };
+
+  // 修改筛选条件时回到第一页并清空选择
+  const updateQuery = (changes: Partial<HistoryQuery>) => {
+    setQuery(prev => ({ ...prev, page: 0, ...changes }));
+    setSelectedIds(new Set());
+  };
+
+  const goToPage = (page: number) => {
+    setQuery(prev => ({ ...prev, page }));
+    setSelectedIds(new Set());
+  };
+
+  // 读取完整源文；早期记录没有保存完整内容
+  const loadMarkdown = async (item: ConversionRecord): Promise<string | null> => {
+    const markdown = await fetchConversionMarkdown(item.id);
+    if (markdown === null) alert('该记录未保存完整内容，无法打开或重新生成。');
+    return markdown;
+  };
+
+  const runAction = async (item: ConversionRecord, action: HistoryAction) => {
+    setPendingAction({ id: item.id, action });
+    try {
+      if (action === 'download') {
+        if (item.storage_path) saveAs(await downloadConversionFile(item.storage_path), item.title);
+      } else {
+        const markdown = await loadMarkdown(item);
+        if (markdown === null) return;
+        if (action === 'open') {
+          onOpenSource(markdown);
+        } else {
+          await onRegenerate(markdown, item.format);
+          // 重新生成会新增一条历史记录
+          await fetchHistory(query);
+        }
+      }
+    } catch (err) {
+      console.error(`Error running history action ${action}:`, err);
+      alert('操作失败，请重试。');
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const updateItem = (id: string, changes: Partial<ConversionRecord>) => {
+    setHistoryItems(items => items.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  const handleRename = async (item: ConversionRecord, title: string) => {
+    await renameConversion(item.id, title);
+    updateItem(item.id, { title });
+  };
+
+  const handleTagsChange = async (item: ConversionRecord, tags: string[]) => {
+    await updateConversionTags(item.id, tags);
+    updateItem(item.id, { tags });
+    await fetchTags();
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const allSelected = historyItems.length > 0 && historyItems.every(item => selectedIds.has(item.id));
 
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return `${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')} ${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+  const toggleSelectAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(historyItems.map(item => item.id)));
   };
 
+  const handleDeleteSelected = async () => {
+    const records = historyItems.filter(item => selectedIds.has(item.id));
+    if (records.length === 0) return;
+    if (!window.confirm(`确定删除选中的 ${records.length} 条记录吗？对应的文档文件也会一并删除，且无法恢复。`)) return;
+
+    setIsDeleting(true);
+    try {
+      await deleteConversions(records);
+      setSelectedIds(new Set());
+      await Promise.all([fetchHistory(query), fetchTags()]);
+    } catch (err) {
+      console.error('Error deleting history:', err);
+      alert('删除失败，请重试。');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const pageCount = Math.max(1, Math.ceil(total / HISTORY_PAGE_SIZE));
+  const hasFilters = !!(query.search || query.dateFrom || query.dateTo || query.tag);
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-6">
-      <div 
+      <div
         className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm transition-opacity"
         onClick={onClose}
       />
-      <div className="relative w-full max-w-sm bg-white rounded-3xl shadow-2xl overflow-hidden transform transition-all animate-in fade-in zoom-in duration-200 flex flex-col max-h-[60vh]">
-        
+      <div className="relative w-full max-w-lg bg-white rounded-3xl shadow-2xl overflow-hidden transform transition-all animate-in fade-in zoom-in duration-200 flex flex-col max-h-[80vh]">
+
         <div className="flex items-center justify-between px-5 py-4 border-b border-slate-50 bg-white shrink-0">
           <div className="flex items-center gap-2">
             <div className="p-1.5 bg-blue-50 text-blue-500 rounded-lg">
                 <Clock size={16} strokeWidth={2.5} />
             </div>
             <h2 className="text-base font-bold text-slate-800">下载历史</h2>
+            {total > 0 && <span className="text-[10px] text-slate-400">共 {total} 条</span>}
           </div>
-          <button 
+          <button
             onClick={onClose}
             className="p-1.5 bg-slate-50 hover:bg-slate-100 rounded-full text-slate-400 hover:text-slate-600 transition-colors"
           >
@@ -71,7 +207,82 @@ export const HistoryModal: React.FC<HistoryModalProps> = ({ isOpen, onClose }) =
           </button>
         </div>
 
-        <div className="overflow-y-auto p-4 space-y-2.5 min-h-0">
+        <div className="px-4 pt-3 pb-2 space-y-2 border-b border-slate-50 shrink-0">
+          <div className="relative">
+            <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-300" />
+            <input
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="搜索标题或内容"
+              className="w-full bg-slate-50 border border-slate-200 rounded-xl pl-8 pr-3 py-2 text-xs text-slate-700 outline-none focus:border-primary focus:ring-2 focus:ring-primary/10 transition-all"
+            />
+          </div>
+
+          <div className="flex items-center gap-2 text-[10px] text-slate-400">
+            <input
+              type="date"
+              value={query.dateFrom}
+              max={query.dateTo || undefined}
+              onChange={(e) => updateQuery({ dateFrom: e.target.value })}
+              className="flex-1 min-w-0 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-[11px] text-slate-600 outline-none focus:border-primary"
+            />
+            至
+            <input
+              type="date"
+              value={query.dateTo}
+              min={query.dateFrom || undefined}
+              onChange={(e) => updateQuery({ dateTo: e.target.value })}
+              className="flex-1 min-w-0 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-[11px] text-slate-600 outline-none focus:border-primary"
+            />
+            {hasFilters && (
+              <button
+                onClick={() => {
+                  setSearchInput('');
+                  updateQuery({ search: '', dateFrom: '', dateTo: '', tag: null });
+                }}
+                className="shrink-0 text-slate-400 hover:text-primary transition-colors"
+              >
+                清除筛选
+              </button>
+            )}
+          </div>
+
+          {allTags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {allTags.map(tag => (
+                <button
+                  key={tag}
+                  onClick={() => updateQuery({ tag: query.tag === tag ? null : tag })}
+                  className={`px-2 py-0.5 rounded-md text-[10px] border transition-colors ${query.tag === tag
+                    ? 'bg-primary text-white border-primary'
+                    : 'bg-white text-slate-500 border-slate-200 hover:border-primary/40 hover:text-primary'
+                    }`}
+                >
+                  {tag}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {historyItems.length > 0 && (
+            <div className="flex items-center justify-between">
+              <label className="flex items-center gap-1.5 text-[11px] text-slate-500 cursor-pointer">
+                <input type="checkbox" checked={allSelected} onChange={toggleSelectAll} className="accent-orange-500" />
+                全选本页
+              </label>
+              <button
+                onClick={handleDeleteSelected}
+                disabled={selectedIds.size === 0 || isDeleting}
+                className="flex items-center gap-1 px-2 py-1 rounded-lg text-[11px] text-red-500 hover:bg-red-50 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+              >
+                {isDeleting ? <Loader2 size={12} className="animate-spin" /> : <Trash2 size={12} />}
+                删除所选{selectedIds.size > 0 ? ` (${selectedIds.size})` : ''}
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="overflow-y-auto p-4 space-y-2.5 min-h-0 flex-1">
           {isLoading ? (
             <div className="flex flex-col items-center justify-center py-12 gap-3">
               <Loader2 className="animate-spin text-primary" size={24} />
@@ -79,34 +290,45 @@ export const HistoryModal: React.FC<HistoryModalProps> = ({ isOpen, onClose }) =
             </div>
           ) : historyItems.length > 0 ? (
             historyItems.map(item => (
-              <div key={item.id} className="flex items-center justify-between p-3 bg-slate-50 rounded-xl border border-slate-100 group hover:border-primary/30 hover:bg-white hover:shadow-sm transition-all cursor-pointer">
-                <div className="flex items-center gap-3">
-                  <div className="w-9 h-9 rounded-lg bg-white border border-slate-100 text-orange-500 flex items-center justify-center shrink-0 shadow-sm">
-                    <FileText size={18} />
-                  </div>
-                  <div className="flex flex-col gap-0.5">
-                    <h3 className="text-xs font-bold text-slate-700 truncate max-w-[160px]">{item.title}</h3>
-                    <div className="flex items-center gap-2">
-                      <span className="text-[10px] text-slate-400 flex items-center gap-1">
-                        <Calendar size={10} /> {formatDate(item.created_at)}
-                      </span>
-                      <span className="text-[10px] text-slate-300">•</span>
-                      <span className="text-[10px] text-slate-400">{item.file_size}</span>
-                    </div>
-                  </div>
-                </div>
-                <button className="p-2 text-slate-300 hover:text-primary transition-colors hover:bg-orange-50 rounded-lg">
-                  <Download size={16} />
-                </button>
-              </div>
+              <HistoryItemRow
+                key={item.id}
+                item={item}
+                selected={selectedIds.has(item.id)}
+                pendingAction={pendingAction?.id === item.id ? pendingAction.action : null}
+                onToggleSelected={() => toggleSelected(item.id)}
+                onAction={(action) => runAction(item, action)}
+                onRename={(title) => handleRename(item, title)}
+                onTagsChange={(tags) => handleTagsChange(item, tags)}
+                onTagClick={(tag) => updateQuery({ tag })}
+              />
             ))
           ) : (
             <div className="text-center py-12 text-slate-400 text-sm flex flex-col items-center gap-2">
               <FileText size={32} strokeWidth={1} className="text-slate-200" />
-              暂无记录
+              {hasFilters ? '没有符合条件的记录' : '暂无记录'}
             </div>
           )}
         </div>
+
+        {pageCount > 1 && (
+          <div className="flex items-center justify-center gap-3 px-4 py-2.5 border-t border-slate-50 shrink-0 text-[11px] text-slate-500">
+            <button
+              onClick={() => goToPage(query.page - 1)}
+              disabled={query.page === 0 || isLoading}
+              className="flex items-center gap-0.5 px-2 py-1 rounded-lg hover:bg-slate-50 hover:text-primary transition-colors disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-slate-500"
+            >
+              <ChevronLeft size={12} /> 上一页
+            </button>
+            <span>第 {query.page + 1} / {pageCount} 页</span>
+            <button
+              onClick={() => goToPage(query.page + 1)}
+              disabled={query.page >= pageCount - 1 || isLoading}
+              className="flex items-center gap-0.5 px-2 py-1 rounded-lg hover:bg-slate-50 hover:text-primary transition-colors disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-slate-500"
+            >
+              下一页 <ChevronRight size={12} />
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
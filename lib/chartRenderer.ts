@@ -0,0 +1,88 @@
+/**
+ * JSON 图表：ECharts 配置项与 Vega-Lite 规范，在浏览器中直接渲染为 SVG（不经过画布，导出为矢量图）
+ * 只接受 JSON，不执行代码块中的 JavaScript（formatter 等函数无法使用）；
+ * 图表库体积较大，文档中出现对应的代码块时才加载
+ */
+
+import type { EChartsOption } from 'echarts';
+import type { TopLevelSpec } from 'vega-lite';
+import { SvgDiagram, parseSvgDiagram } from './svgImage';
+
+// ECharts 配置项中没有画布尺寸，统一按此尺寸渲染，显示宽度由导出设置决定
+const ECHARTS_WIDTH = 640;
+const ECHARTS_HEIGHT = 400;
+
+// 按需加载 ECharts 并注册常用的图表类型与组件，只执行一次
+let echartsModule: Promise<typeof import('echarts/core')> | null = null;
+
+const loadECharts = (): Promise<typeof import('echarts/core')> => {
+  if (!echartsModule) {
+    echartsModule = Promise.all([
+      import('echarts/core'),
+      import('echarts/charts'),
+      import('echarts/components'),
+      import('echarts/renderers'),
+    ]).then(([echarts, charts, components, renderers]) => {
+      echarts.use([
+        charts.BarChart, charts.BoxplotChart, charts.CandlestickChart, charts.FunnelChart, charts.GaugeChart, charts.HeatmapChart,
+        charts.LineChart, charts.PieChart, charts.RadarChart, charts.SankeyChart, charts.ScatterChart, charts.TreemapChart,
+        components.DatasetComponent, components.GridComponent, components.LegendComponent, components.MarkAreaComponent,
+        components.MarkLineComponent, components.MarkPointComponent, components.PolarComponent, components.RadarComponent,
+        components.TitleComponent, components.TooltipComponent, components.TransformComponent, components.VisualMapComponent,
+        renderers.SVGRenderer,
+      ]);
+      return echarts;
+    }).catch(error => {
+      // 允许下次渲染时重试
+      echartsModule = null;
+      throw error;
+    });
+  }
+  return echartsModule;
+};
+
+const parseChartSpec = (code: string): Record<string, unknown> => {
+  const spec = JSON.parse(code);
+  if (!spec || typeof spec !== 'object' || Array.isArray(spec)) throw new Error('图表配置必须是 JSON 对象');
+  return spec;
+};
+
+/**
+ * 渲染 ECharts 配置项（关闭动画）；配置项未设置 textStyle 时使用 fontFamily
+ */
+export const renderEChartsToSvg = async (code: string, fontFamily: string): Promise<SvgDiagram> => {
+  const option = parseChartSpec(code) as EChartsOption;
+  const echarts = await loadECharts();
+  const chart = echarts.init(null, undefined, { renderer: 'svg', ssr: true, width: ECHARTS_WIDTH, height: ECHARTS_HEIGHT });
+  try {
+    chart.setOption({ textStyle: { fontFamily }, ...option, animation: false });
+    const diagram = parseSvgDiagram(chart.renderToSVGString());
+    if (!diagram) throw new Error('ECharts 输出的 SVG 无效');
+    return diagram;
+  } finally {
+    chart.dispose();
+  }
+};
+
+/**
+ * 渲染 Vega-Lite 规范；规范中的 config.font 优先于 fontFamily
+ * @param allowRemoteData 为 false 时不加载 data.url 指向的网络数据（与“仅本地图片”设置一致）
+ */
+export const renderVegaLiteToSvg = async (code: string, fontFamily: string, allowRemoteData: boolean): Promise<SvgDiagram> => {
+  // 规范的结构由 Vega-Lite 编译时检查
+  const spec = parseChartSpec(code) as unknown as TopLevelSpec;
+  const [{ View, loader, parse }, { compile }] = await Promise.all([import('vega'), import('vega-lite')]);
+  const dataLoader = loader();
+  if (!allowRemoteData) {
+    dataLoader.load = () => Promise.reject(new Error('已设置为仅使用本地图片，不加载网络数据'));
+  }
+
+  const view = new View(parse(compile(spec, { config: { font: fontFamily } }).spec), { renderer: 'none', loader: dataLoader });
+  try {
+    const diagram = parseSvgDiagram(await view.toSVG());
+    if (!diagram) throw new Error('Vega-Lite 输出的 SVG 无效');
+    return diagram;
+  } finally {
+    view.finalize();
+  }
+};
@@ -0,0 +1,93 @@
+/**
+ * 富文本粘贴：把从 ChatGPT / Claude / Gemini 等对话页面复制的 HTML 还原为 Markdown。
+ * 在通用的 HTML 转换之上识别各家界面的特殊结构：KaTeX / MathML 公式注解、
+ * 带语言标签和“复制”按钮的代码块外壳
+ */
+
+import { HtmlToMarkdownConverter, HtmlToMarkdownRule, formatCodeBlock, readCodeLanguage } from './htmlToMarkdown';
+
+const TEX_ANNOTATION = 'annotation[encoding="application/x-tex"], annotation[encoding="TeX"]';
+// Gemini 等界面把公式源码放在 data 属性上
+const TEX_ATTRIBUTES = ['data-math', 'data-latex', 'data-tex'];
+// 代码块外壳中除语言名外可能出现的按钮文字
+const CODE_HEADER_NOISE = /(?:copy code|copy|copied!?|复制代码|复制|已复制|edit|编辑|run|运行)/gi;
+
+const formatFormula = (tex: string, display: boolean): string => {
+  const formula = tex.trim();
+  if (!formula) return '';
+  return display ? `\n\n$$\n${formula}\n$$\n\n` : `$${formula}$`;
+};
+
+const isDisplayMath = (element: Element): boolean =>
+  !!element.closest('.katex-display, .math-display, .math-block, mjx-container[display="true"]')
+  || element.getAttribute('display') === 'block';
+
+// KaTeX (.katex 内含 MathML 注解)、原生 <math> 注解以及 data-math 属性
+const mathRule: HtmlToMarkdownRule = (element) => {
+  const tag = element.tagName.toLowerCase();
+
+  const attribute = TEX_ATTRIBUTES.find(name => element.hasAttribute(name));
+  if (attribute) return formatFormula(element.getAttribute(attribute) || '', isDisplayMath(element));
+
+  if (element.classList.contains('katex') || element.classList.contains('katex-display') || tag === 'math' || tag === 'mjx-container') {
+    const annotation = element.querySelector(TEX_ANNOTATION);
+    if (annotation) return formatFormula(annotation.textContent || '', isDisplayMath(element) || element.classList.contains('katex-display'));
+  }
+  return null;
+};
+
+// 代码块外壳：容器中只有一个 <pre>，其余文字只是语言标签和按钮（ChatGPT、Claude 的代码块头部）
+const codeBlockRule: HtmlToMarkdownRule = (element) => {
+  const tag = element.tagName.toLowerCase();
+  if (tag === 'pre' || tag === 'code' || tag === 'table') return null;
+
+  const blocks = element.querySelectorAll('pre');
+  if (blocks.length !== 1) return null;
+
+  const pre = blocks[0];
+  const outsideText = (element.textContent || '').replace(pre.textContent || '', '');
+  const label = outsideText.replace(CODE_HEADER_NOISE, '').trim();
+  // 必须带有按钮，且剩余文字只能是语言名，避免吞掉代码块前的说明文字
+  const hasHeaderControls = !!element.querySelector('button') || new RegExp(CODE_HEADER_NOISE.source, 'i').test(outsideText);
+  if (!hasHeaderControls || !/^[\w+#.-]{0,30}$/.test(label)) return null;
+
+  const code = pre.querySelector('code');
+  const language = readCodeLanguage(code) || readCodeLanguage(pre) || label.toLowerCase();
+  return formatCodeBlock((code ?? pre).textContent || '', language);
+};
+
+const converter = new HtmlToMarkdownConverter([mathRule, codeBlockRule]);
+
+// 有这些结构时 HTML 才比纯文本更有价值；代码编辑器复制的 HTML 只有 div/span，应按纯文本粘贴
+const RICH_HTML = /<(?:h[1-6]|table|ul|ol|pre|blockquote|strong|b|em|i|code|a\s[^>]*href|img|math|annotation)\b|class="[^"]*\b(?:katex|math-inline|math-block)\b|data-math=/i;
+
+/**
+ * 判断剪贴板中的 HTML 是否包含值得转换的富文本结构
+ */
+export const isRichHtml = (html: string): boolean => RICH_HTML.test(html);
+
+/**
+ * 将对话页面复制出的 HTML 转换为 Markdown
+ */
+export const clipboardHtmlToMarkdown = (html: string): string =>
+  // 复制的选区可能跨越多条回答（多个 <article>），整体转换
+  converter.convert(html.replace(/<!--(?:StartFragment|EndFragment)-->/g, ''), false);
+
+/**
+ * 读取剪贴板：有富文本时转换 HTML，否则返回纯文本（用于“粘贴”按钮）
+ */
+export const readClipboardMarkdown = async (): Promise<string> => {
+  if (navigator.clipboard.read) {
+    try {
+      for (const item of await navigator.clipboard.read()) {
+        if (!item.types.includes('text/html')) continue;
+        const html = await (await item.getType('text/html')).text();
+        if (isRichHtml(html)) return clipboardHtmlToMarkdown(html);
+      }
+    } catch (error) {
+      // Firefox 等浏览器可能不允许读取富文本，回退到纯文本
+      console.warn('Failed to read HTML from clipboard, falling back to plain text', error);
+    }
+  }
+  return navigator.clipboard.readText();
+};
@@ -0,0 +1,252 @@
+/**
+ * 轻量级代码高亮：按语言把代码切分为关键字、字符串、注释、数字等片段，
+ * 同时供 Word 导出（彩色 TextRun）和预览（HTML span）使用
+ */
+
+export type CodeTokenKind = 'plain' | 'keyword' | 'string' | 'comment' | 'number';
+
+export interface CodeToken {
+  text: string;
+  kind: CodeTokenKind;
+}
+
+interface LanguageDefinition {
+  keywords: string[];
+  lineComments: string[];
+  blockComment?: [string, string];
+  quotes: string[];
+  // Python 的 ''' / """ 多行字符串
+  tripleQuotes?: boolean;
+  caseInsensitive?: boolean;
+}
+
+// 与 GitHub 浅色主题一致的配色（十六进制，不含 #）
+export const CODE_TOKEN_COLORS: Record<CodeTokenKind, string> = {
+  plain: '24292F',
+  keyword: 'CF222E',
+  string: '0A3069',
+  comment: '6E7781',
+  number: '0550AE',
+};
+
+const C_STYLE = { lineComments: ['//'], blockComment: ['/*', '*/'] as [string, string] };
+
+const LANGUAGES: Record<string, LanguageDefinition> = {
+  javascript: {
+    ...C_STYLE,
+    quotes: ['"', "'", '`'],
+    keywords: ['async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete', 'do', 'else', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if', 'import', 'in', 'instanceof', 'let', 'new', 'null', 'of', 'return', 'static', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'undefined', 'var', 'void', 'while', 'yield'],
+  },
+  typescript: {
+    ...C_STYLE,
+    quotes: ['"', "'", '`'],
+    keywords: ['abstract', 'any', 'as', 'async', 'await', 'boolean', 'break', 'case', 'catch', 'class', 'const', 'continue', 'declare', 'default', 'do', 'else', 'enum', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if', 'implements', 'import', 'in', 'instanceof', 'interface', 'keyof', 'let', 'namespace', 'never', 'new', 'null', 'number', 'of', 'private', 'protected', 'public', 'readonly', 'return', 'static', 'string', 'super', 'switch', 'this', 'throw', 'true', 'try', 'type', 'typeof', 'undefined', 'unknown', 'var', 'void', 'while'],
+  },
+  python: {
+    lineComments: ['#'],
+    quotes: ['"', "'"],
+    tripleQuotes: true,
+    keywords: ['and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except', 'False', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'None', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'self', 'True', 'try', 'while', 'with', 'yield'],
+  },
+  java: {
+    ...C_STYLE,
+    quotes: ['"', "'"],
+    keywords: ['abstract', 'boolean', 'break', 'byte', 'case', 'catch', 'char', 'class', 'continue', 'default', 'do', 'double', 'else', 'enum', 'extends', 'false', 'final', 'finally', 'float', 'for', 'if', 'implements', 'import', 'instanceof', 'int', 'interface', 'long', 'new', 'null', 'package', 'private', 'protected', 'public', 'return', 'short', 'static', 'super', 'switch', 'synchronized', 'this', 'throw', 'throws', 'true', 'try', 'var', 'void', 'volatile', 'while'],
+  },
+  c: {
+    ...C_STYLE,
+    quotes: ['"', "'"],
+    keywords: ['auto', 'bool', 'break', 'case', 'char', 'class', 'const', 'continue', 'default', 'delete', 'do', 'double', 'else', 'enum', 'extern', 'false', 'float', 'for', 'goto', 'if', 'include', 'inline', 'int', 'long', 'namespace', 'new', 'nullptr', 'private', 'protected', 'public', 'return', 'short', 'signed', 'sizeof', 'static', 'struct', 'switch', 'template', 'this', 'true', 'typedef', 'typename', 'union', 'unsigned', 'using', 'virtual', 'void', 'volatile', 'while'],
+  },
+  csharp: {
+    ...C_STYLE,
+    quotes: ['"', "'"],
+    keywords: ['abstract', 'as', 'async', 'await', 'bool', 'break', 'case', 'catch', 'class', 'const', 'continue', 'decimal', 'default', 'do', 'double', 'else', 'enum', 'false', 'finally', 'float', 'for', 'foreach', 'if', 'in', 'int', 'interface', 'internal', 'is', 'long', 'namespace', 'new', 'null', 'out', 'override', 'private', 'protected', 'public', 'readonly', 'ref', 'return', 'static', 'string', 'struct', 'switch', 'this', 'throw', 'true', 'try', 'using', 'var', 'virtual', 'void', 'while'],
+  },
+  go: {
+    ...C_STYLE,
+    quotes: ['"', "'", '`'],
+    keywords: ['break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'false', 'for', 'func', 'go', 'goto', 'if', 'import', 'interface', 'map', 'nil', 'package', 'range', 'return', 'select', 'struct', 'switch', 'true', 'type', 'var'],
+  },
+  rust: {
+    ...C_STYLE,
+    quotes: ['"'],
+    keywords: ['as', 'async', 'await', 'break', 'const', 'continue', 'crate', 'else', 'enum', 'extern', 'false', 'fn', 'for', 'if', 'impl', 'in', 'let', 'loop', 'match', 'mod', 'move', 'mut', 'pub', 'ref', 'return', 'self', 'Self', 'static', 'struct', 'super', 'trait', 'true', 'type', 'unsafe', 'use', 'where', 'while'],
+  },
+  sql: {
+    lineComments: ['--'],
+    blockComment: ['/*', '*/'],
+    quotes: ["'", '"'],
+    caseInsensitive: true,
+    keywords: ['add', 'all', 'alter', 'and', 'as', 'asc', 'between', 'by', 'case', 'create', 'delete', 'desc', 'distinct', 'drop', 'else', 'end', 'exists', 'from', 'group', 'having', 'in', 'index', 'inner', 'insert', 'into', 'is', 'join', 'left', 'like', 'limit', 'not', 'null', 'on', 'or', 'order', 'outer', 'primary', 'key', 'references', 'right', 'select', 'set', 'table', 'then', 'union', 'update', 'values', 'when', 'where', 'with'],
+  },
+  bash: {
+    lineComments: ['#'],
+    quotes: ['"', "'"],
+    keywords: ['case', 'do', 'done', 'echo', 'elif', 'else', 'esac', 'exit', 'export', 'fi', 'for', 'function', 'if', 'in', 'local', 'return', 'then', 'until', 'while'],
+  },
+  json: {
+    lineComments: [],
+    quotes: ['"'],
+    keywords: ['true', 'false', 'null'],
+  },
+  yaml: {
+    lineComments: ['#'],
+    quotes: ['"', "'"],
+    keywords: ['true', 'false', 'null', 'yes', 'no'],
+  },
+  css: {
+    lineComments: [],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+    keywords: ['important', 'inherit', 'initial', 'none', 'auto'],
+  },
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: 'javascript', jsx: 'javascript', mjs: 'javascript', node: 'javascript',
+  ts: 'typescript', tsx: 'typescript',
+  py: 'python', python3: 'python',
+  cpp: 'c', 'c++': 'c', h: 'c', hpp: 'c', cc: 'c',
+  cs: 'csharp', 'c#': 'csharp',
+  golang: 'go', rs: 'rust',
+  mysql: 'sql', postgresql: 'sql', sqlite: 'sql', plsql: 'sql',
+  sh: 'bash', shell: 'bash', zsh: 'bash', console: 'bash',
+  yml: 'yaml', scss: 'css', less: 'css',
+  kotlin: 'java', kt: 'java', scala: 'java', swift: 'java', dart: 'java', php: 'c',
+};
+
+const resolveLanguage = (lang?: string): LanguageDefinition | null => {
+  if (!lang) return null;
+  const name = lang.trim().split(/\s+/)[0].toLowerCase();
+  return LANGUAGES[LANGUAGE_ALIASES[name] || name] || null;
+};
+
+/**
+ * 是否支持该语言的高亮
+ */
+export const isHighlightSupported = (lang?: string): boolean => resolveLanguage(lang) !== null;
+
+/**
+ * 将代码切分为带类型的片段；不支持的语言整体作为 plain 返回
+ */
+export const tokenizeCode = (code: string, lang?: string): CodeToken[] => {
+  const language = resolveLanguage(lang);
+  if (!language) return [{ text: code, kind: 'plain' }];
+
+  const keywords = new Set(language.keywords.map(k => language.caseInsensitive ? k.toLowerCase() : k));
+  const tokens: CodeToken[] = [];
+  let plain = '';
+  let pos = 0;
+
+  const push = (text: string, kind: CodeTokenKind) => {
+    if (plain) {
+      tokens.push({ text: plain, kind: 'plain' });
+      plain = '';
+    }
+    tokens.push({ text, kind });
+  };
+
+  // 读取到结束标记为止（含结束标记），找不到则读到末尾
+  const readUntil = (end: string, from: number, escapable: boolean): number => {
+    let i = from;
+    while (i < code.length) {
+      if (escapable && code[i] === '\\') {
+        i += 2;
+        continue;
+      }
+      if (code.startsWith(end, i)) return i + end.length;
+      // 普通单行字符串不跨行
+      if (escapable && end.length === 1 && end !== '`' && code[i] === '\n') return i;
+      i++;
+    }
+    return code.length;
+  };
+
+  while (pos < code.length) {
+    const rest = code.slice(pos);
+
+    const blockComment = language.blockComment;
+    if (blockComment && rest.startsWith(blockComment[0])) {
+      const end = readUntil(blockComment[1], pos + blockComment[0].length, false);
+      push(code.slice(pos, end), 'comment');
+      pos = end;
+      continue;
+    }
+
+    const lineComment = language.lineComments.find(marker => rest.startsWith(marker));
+    if (lineComment) {
+      const newline = code.indexOf('\n', pos);
+      const end = newline === -1 ? code.length : newline;
+      push(code.slice(pos, end), 'comment');
+      pos = end;
+      continue;
+    }
+
+    const quote = language.quotes.find(q => rest.startsWith(q));
+    if (quote) {
+      const triple = language.tripleQuotes && rest.startsWith(quote.repeat(3)) ? quote.repeat(3) : null;
+      const end = triple
+        ? readUntil(triple, pos + 3, true)
+        : readUntil(quote, pos + 1, true);
+      push(code.slice(pos, end), 'string');
+      pos = end;
+      continue;
+    }
+
+    const previous = pos > 0 ? code[pos - 1] : '';
+    if (!/[\w$]/.test(previous)) {
+      const number = rest.match(/^(0[xX][0-9a-fA-F_]+|\d[\d_]*(\.\d+)?([eE][+-]?\d+)?)/);
+      if (number) {
+        push(number[0], 'number');
+        pos += number[0].length;
+        continue;
+      }
+
+      const word = rest.match(/^[A-Za-z_$][\w$]*/);
+      if (word) {
+        const key = language.caseInsensitive ? word[0].toLowerCase() : word[0];
+        if (keywords.has(key)) {
+          push(word[0], 'keyword');
+        } else {
+          plain += word[0];
+        }
+        pos += word[0].length;
+        continue;
+      }
+    }
+
+    plain += code[pos];
+    pos++;
+  }
+
+  if (plain) tokens.push({ text: plain, kind: 'plain' });
+  return tokens;
+};
+
+/**
+ * 将片段按换行拆分成逐行的片段数组（Word 中每行一个段落）
+ */
+export const splitCodeTokensIntoLines = (tokens: CodeToken[]): CodeToken[][] => {
+  const lines: CodeToken[][] = [[]];
+  for (const token of tokens) {
+    token.text.split('\n').forEach((part, index) => {
+      if (index > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push({ text: part, kind: token.kind });
+    });
+  }
+  return lines;
+};
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * 生成预览用的高亮 HTML（供 marked 的 highlight 选项使用）
+ */
+export const highlightCodeToHtml = (code: string, lang?: string): string =>
+  tokenizeCode(code, lang)
+    .map(({ text, kind }) => kind === 'plain'
+      ? escapeHtml(text)
+      : `<span class="code-${kind}">${escapeHtml(text)}</span>`)
+    .join('');
@@ -0,0 +1,168 @@
+/**
+ * 下载历史：conversions 表保存完整 Markdown 源文，生成的文件存入私有的 Storage bucket，
+ * 路径以用户 id 开头（{user_id}/{uuid}.docx），由 Storage 策略限制只能访问自己的文件
+ */
+
+import { supabase } from './supabase';
+import { EXPORT_FORMATS } from './exportFormats';
+import { ExportFormat } from '../types';
+
+export const DOCUMENTS_BUCKET = 'documents';
+export const HISTORY_PAGE_SIZE = 20;
+
+// 列表中展示的字段（完整 Markdown 在打开时再单独读取）
+export interface ConversionRecord {
+  id: string;
+  title: string;
+  created_at: string;
+  file_size: string;
+  storage_path: string | null;
+  tags: string[];
+  format: ExportFormat;
+}
+
+export interface HistoryQuery {
+  search: string;
+  // 日期范围 (YYYY-MM-DD)，留空表示不限
+  dateFrom: string;
+  dateTo: string;
+  tag: string | null;
+  // 从 0 开始的页码
+  page: number;
+}
+
+export interface HistoryPage {
+  records: ConversionRecord[];
+  total: number;
+}
+
+interface SaveConversionParams {
+  userId: string;
+  fileName: string;
+  markdown: string;
+  blob: Blob;
+  format: ExportFormat;
+}
+
+export const formatFileSize = (bytes: number): string => (bytes / 1024).toFixed(1) + 'KB';
+
+/**
+ * 上传生成的文档并写入历史记录；上传失败时仍保存记录（只是无法重新下载）
+ */
+export const saveConversion = async ({ userId, fileName, markdown, blob, format }: SaveConversionParams): Promise<void> => {
+  const { extension, mimeType } = EXPORT_FORMATS[format];
+  let storagePath: string | null = `${userId}/${crypto.randomUUID()}.${extension}`;
+  const { error: uploadError } = await supabase.storage
+    .from(DOCUMENTS_BUCKET)
+    .upload(storagePath, blob, { contentType: mimeType, upsert: false });
+  if (uploadError) {
+    console.error('Failed to upload document:', uploadError);
+    storagePath = null;
+  }
+
+  const { error } = await supabase.from('conversions').insert({
+    user_id: userId,
+    title: fileName,
+    content: markdown.substring(0, 500),
+    markdown,
+    storage_path: storagePath,
+    file_size: formatFileSize(blob.size),
+    format,
+  });
+  if (error) throw error;
+};
+
+const CJK_CHARACTERS = /[\u3400-\u9fff\uf900-\ufaff]/;
+
+// ILIKE 模式中的 % _ \ 以及 PostgREST or() 语法中的逗号、括号需要转义或去掉
+const toLikePattern = (text: string): string =>
+  `%${text.replace(/[\\%_]/g, match => `\\${match}`).replace(/[,()]/g, ' ')}%`;
+
+/**
+ * 分页查询历史记录：英文按 tsvector 全文检索，中文按标题和 search_text 的模糊匹配
+ * （search_text 为完整 Markdown；早期记录没有保存完整内容，为 content 中的前 500 字）
+ */
+export const fetchConversions = async ({ search, dateFrom, dateTo, tag, page }: HistoryQuery): Promise<HistoryPage> => {
+  let query = supabase
+    .from('conversions')
+    .select('id, title, created_at, file_size, storage_path, tags, format', { count: 'exact' });
+
+  const keyword = search.trim();
+  if (keyword) {
+    query = CJK_CHARACTERS.test(keyword)
+      ? query.or(`title.ilike.${toLikePattern(keyword)},search_text.ilike.${toLikePattern(keyword)}`)
+      : query.textSearch('search_vector', keyword, { type: 'websearch', config: 'simple' });
+  }
+  // 日期按本地时区的整天计算
+  if (dateFrom) query = query.gte('created_at', new Date(`${dateFrom}T00:00:00`).toISOString());
+  if (dateTo) query = query.lt('created_at', new Date(new Date(`${dateTo}T00:00:00`).getTime() + 24 * 60 * 60 * 1000).toISOString());
+  if (tag) query = query.contains('tags', [tag]);
+
+  const start = page * HISTORY_PAGE_SIZE;
+  const { data, error, count } = await query
+    .order('created_at', { ascending: false })
+    .range(start, start + HISTORY_PAGE_SIZE - 1);
+
+  if (error) throw error;
+  return { records: (data || []).map(record => ({ ...record, tags: record.tags ?? [], format: record.format ?? 'docx' })), total: count ?? 0 };
+};
+
+/**
+ * 当前用户用过的全部标签（按名称排序）
+ */
+export const fetchConversionTags = async (): Promise<string[]> => {
+  const { data, error } = await supabase
+    .from('conversions')
+    .select('tags')
+    .neq('tags', '{}');
+
+  if (error) throw error;
+  const tags = new Set<string>();
+  (data || []).forEach(row => (row.tags ?? []).forEach((tag: string) => tags.add(tag)));
+  return Array.from(tags).sort((a, b) => a.localeCompare(b, 'zh-CN'));
+};
+
+export const renameConversion = async (id: string, title: string): Promise<void> => {
+  const { error } = await supabase.from('conversions').update({ title }).eq('id', id);
+  if (error) throw error;
+};
+
+export const updateConversionTags = async (id: string, tags: string[]): Promise<void> => {
+  const { error } = await supabase.from('conversions').update({ tags }).eq('id', id);
+  if (error) throw error;
+};
+
+/**
+ * 删除历史记录及其在 Storage 中的文件
+ */
+export const deleteConversions = async (records: ConversionRecord[]): Promise<void> => {
+  const paths = records.map(record => record.storage_path).filter((path): path is string => !!path);
+  if (paths.length > 0) {
+    const { error: storageError } = await supabase.storage.from(DOCUMENTS_BUCKET).remove(paths);
+    // 文件删除失败不阻止删除记录，只会留下无法访问的孤立文件
+    if (storageError) console.error('Failed to remove documents from storage:', storageError);
+  }
+
+  const { error } = await supabase.from('conversions').delete().in('id', records.map(record => record.id));
+  if (error) throw error;
+};
+
+/**
+ * 读取完整的 Markdown 源文；早期记录只保存了前 500 个字符，此时返回 null
+ */
+export const fetchConversionMarkdown = async (id: string): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from('conversions')
+    .select('markdown')
+    .eq('id', id)
+    .single();
+
+  if (error) throw error;
+  return data?.markdown ?? null;
+};
+
+export const downloadConversionFile = async (storagePath: string): Promise<Blob> => {
+  const { data, error } = await supabase.storage.from(DOCUMENTS_BUCKET).download(storagePath);
+  if (error || !data) throw error ?? new Error('文件不存在');
+  return data;
+};
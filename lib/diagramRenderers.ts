@@ -0,0 +1,228 @@
+/**
+ * 图表渲染器注册表：按代码块的语言（信息字符串的第一个词）选择渲染器，预览与各导出格式共用同一套渲染器。
+ * 内置 Mermaid、Graphviz DOT、PlantUML、ECharts 与 Vega-Lite；渲染失败时预览显示错误信息，导出时保留为代码块
+ */
+
+import type { Font } from 'opentype.js';
+import { EmbeddedImage, SvgDiagram, createEmbeddedImage, inlineSvgStyles, outlineSvgText } from './svgImage';
+import { EMBEDDED_FONT, loadEmbeddedFontOutlines } from './embeddedFont';
+import { renderMermaidDiagram, renderMermaidToSvg } from './mermaidRenderer';
+import { renderGraphvizToSvg } from './graphvizRenderer';
+import { renderPlantUmlToSvg } from './plantumlRenderer';
+import { renderEChartsToSvg, renderVegaLiteToSvg } from './chartRenderer';
+import { DiagramFont, WordExportOptions } from '../types';
+
+// 图表文字字体（Word 按字体名称查找本机字体，列出各系统中的对应字体）
+export const DIAGRAM_FONT_FAMILIES: Record<DiagramFont, string> = {
+  sans: '"Microsoft YaHei", "PingFang SC", "Noto Sans CJK SC", SimHei, sans-serif',
+  serif: 'SimSun, "Songti SC", "Noto Serif CJK SC", serif',
+  kai: 'KaiTi, "Kaiti SC", STKaiti, serif',
+};
+
+export interface DiagramRenderContext {
+  options: WordExportOptions;
+  fontFamily: string;
+  // 为 true 时必须使用 fontFamily（PDF 的嵌入字体），覆盖图表代码中的字体设置
+  forceFont: boolean;
+}
+
+export interface DiagramRenderer {
+  id: string;
+  name: string;
+  // 代码块语言，不区分大小写
+  languages: string[];
+  // 打包导出 Markdown 时图表源码文件的扩展名
+  sourceExtension: string;
+  // 渲染为 SVG，失败时抛出异常
+  render: (code: string, context: DiagramRenderContext) => Promise<SvgDiagram>;
+  // 网页中（预览、HTML 导出）的渲染方式，返回 SVG 代码；未提供时使用 render
+  renderHtml?: (code: string, context: DiagramRenderContext) => Promise<string>;
+  // 样式写在 <style> 中，嵌入 Word、ODT 前需要写成各元素的属性
+  inlineStyles?: boolean;
+}
+
+const renderers = new Map<string, DiagramRenderer>();
+
+/**
+ * 注册图表渲染器；语言已被注册时替换原有的渲染器
+ */
+export const registerDiagramRenderer = (renderer: DiagramRenderer): void => {
+  renderer.languages.forEach(language => renderers.set(language.toLowerCase(), renderer));
+};
+
+/**
+ * 已注册的渲染器（每个只出现一次）
+ */
+export const getDiagramRenderers = (): DiagramRenderer[] => Array.from(new Set(renderers.values()));
+
+registerDiagramRenderer({
+  id: 'mermaid',
+  name: 'Mermaid',
+  languages: ['mermaid'],
+  sourceExtension: 'mmd',
+  render: (code, { options, fontFamily, forceFont }) => renderMermaidToSvg(code, options.mermaid, fontFamily, forceFont),
+  // 预览中保留 Mermaid 默认的 HTML 标签（自动换行效果更好）
+  renderHtml: (code, { options, fontFamily }) => renderMermaidDiagram(code, options.mermaid, fontFamily),
+  inlineStyles: true,
+});
+
+registerDiagramRenderer({
+  id: 'graphviz',
+  name: 'Graphviz',
+  languages: ['dot', 'graphviz', 'gv'],
+  sourceExtension: 'dot',
+  render: (code, { fontFamily }) => renderGraphvizToSvg(code, fontFamily),
+});
+
+registerDiagramRenderer({
+  id: 'plantuml',
+  name: 'PlantUML',
+  languages: ['plantuml', 'puml'],
+  sourceExtension: 'puml',
+  render: (code, { options }) => renderPlantUmlToSvg(code, options.plantUmlServer),
+});
+
+registerDiagramRenderer({
+  id: 'echarts',
+  name: 'ECharts',
+  languages: ['echarts'],
+  sourceExtension: 'echarts.json',
+  render: (code, { fontFamily }) => renderEChartsToSvg(code, fontFamily),
+});
+
+registerDiagramRenderer({
+  id: 'vega-lite',
+  name: 'Vega-Lite',
+  languages: ['vega-lite', 'vegalite'],
+  sourceExtension: 'vl.json',
+  render: (code, { options, fontFamily }) => renderVegaLiteToSvg(code, fontFamily, options.allowRemoteImages),
+});
+
+// 代码块信息中的宽度，如 ```mermaid width=80% 或 width=400px（不带单位时为像素）
+export interface DiagramWidth {
+  value: number;
+  unit: '%' | 'px';
+}
+
+export interface DiagramBlockInfo {
+  renderer: DiagramRenderer;
+  width: DiagramWidth | null;
+}
+
+/**
+ * 解析代码块的信息字符串；不是已注册的图表语言时返回 null
+ */
+export const parseDiagramInfo = (info: string | undefined): DiagramBlockInfo | null => {
+  const [lang, ...rest] = (info || '').trim().split(/\s+/);
+  const renderer = renderers.get(lang.toLowerCase());
+  if (!renderer) return null;
+
+  const match = rest.join(' ').match(/\bwidth\s*=\s*["']?(\d+(?:\.\d+)?)\s*(%|px)?["']?/i);
+  const value = match ? Number(match[1]) : 0;
+  return { renderer, width: value > 0 ? { value, unit: match![2] === '%' ? '%' : 'px' } : null };
+};
+
+/**
+ * 计算图表的显示宽度：代码块指定了宽度时按指定宽度，否则为原始宽度且不超过设置的最大宽度；始终不超过可用宽度
+ * @param naturalWidth 图表的原始宽度
+ * @param availableWidth 正文宽度（与 naturalWidth 单位相同）
+ * @param maxWidth 设置中的最大宽度，占正文宽度的百分比
+ * @param pixelRatio 一个像素对应的单位长度，用于换算以 px 指定的宽度
+ */
+export const resolveDiagramWidth = (
+  naturalWidth: number,
+  availableWidth: number,
+  info: DiagramBlockInfo,
+  maxWidth: number,
+  pixelRatio = 1
+): number => {
+  const hint = info.width;
+  const width = hint
+    ? (hint.unit === '%' ? availableWidth * hint.value / 100 : hint.value * pixelRatio)
+    : Math.min(naturalWidth, availableWidth * maxWidth / 100);
+  return Math.min(width, availableWidth);
+};
+
+/**
+ * 设置网页中（预览、HTML 导出）图表 SVG 的显示宽度，规则同 resolveDiagramWidth
+ * renderDiagramToHtml 输出的 SVG 宽度为 100%，max-width 为原始宽度
+ */
+export const applyDiagramWidth = (svg: SVGElement, info: DiagramBlockInfo, maxWidth: number): void => {
+  const hint = info.width;
+  if (hint) {
+    svg.style.width = `${hint.value}${hint.unit}`;
+    svg.style.maxWidth = '100%';
+  } else {
+    svg.style.maxWidth = `min(${svg.style.maxWidth || '100%'}, ${maxWidth}%)`;
+  }
+};
+
+const createContext = (options: WordExportOptions, fontFamily?: string): DiagramRenderContext => ({
+  options,
+  fontFamily: fontFamily || DIAGRAM_FONT_FAMILIES[options.diagramFont],
+  forceFont: !!fontFamily,
+});
+
+/**
+ * 将图表渲染为 SVG 元素，供 PDF 按矢量绘制及打包导出；失败时返回 null
+ * @param fontFamily 必须使用的字体（PDF 的嵌入字体），省略时使用设置中的图表字体
+ */
+export const renderDiagramToSvg = async (
+  code: string,
+  info: DiagramBlockInfo,
+  options: WordExportOptions,
+  fontFamily?: string
+): Promise<SvgDiagram | null> => {
+  try {
+    const diagram = await info.renderer.render(code, createContext(options, fontFamily));
+    if (fontFamily) {
+      diagram.svg.querySelectorAll('text, tspan').forEach(element => {
+        element.setAttribute('font-family', fontFamily);
+        (element as SVGElement).style.removeProperty('font-family');
+      });
+    }
+    return diagram;
+  } catch (error) {
+    console.error(`Failed to render ${info.renderer.name} diagram:`, error);
+    return null;
+  }
+};
+
+/**
+ * 将图表渲染为嵌入 Word、ODT 文档的图片：按导出设置为 SVG（附 PNG 备用图）或 PNG；失败时返回 null
+ * 与 PDF 一样按随应用部署的字体排版，文字转为该字体的轮廓；字体加载失败时保留文字，按设置中的图表字体显示
+ */
+export const renderDiagramToEmbeddedImage = async (
+  code: string,
+  info: DiagramBlockInfo,
+  options: WordExportOptions
+): Promise<EmbeddedImage | null> => {
+  let font: Font | null = null;
+  try {
+    font = await loadEmbeddedFontOutlines();
+  } catch (error) {
+    console.error('Failed to load diagram font:', error);
+  }
+
+  const diagram = await renderDiagramToSvg(code, info, options, font ? EMBEDDED_FONT : undefined);
+  if (!diagram) return null;
+
+  if (info.renderer.inlineStyles) inlineSvgStyles(diagram.svg);
+  if (font) outlineSvgText(diagram.svg, font);
+  return createEmbeddedImage(diagram.svg, diagram.width, diagram.height, { format: options.diagramFormat, scale: options.imageScale });
+};
+
+/**
+ * 渲染网页中显示的图表，返回 SVG 代码；失败时抛出异常（预览中显示错误信息）
+ */
+export const renderDiagramToHtml = async (code: string, info: DiagramBlockInfo, options: WordExportOptions): Promise<string> => {
+  const context = createContext(options);
+  if (info.renderer.renderHtml) return info.renderer.renderHtml(code, context);
+
+  // 与 Mermaid 的输出一致：宽度随容器缩放，最大为原始宽度
+  const { svg, width } = await info.renderer.render(code, context);
+  svg.setAttribute('width', '100%');
+  svg.removeAttribute('height');
+  svg.style.maxWidth = `${width}px`;
+  return new XMLSerializer().serializeToString(svg);
+};
@@ -0,0 +1,214 @@
+/**
+ * 内置文档主题：Word 导出的样式表与实时预览的 CSS 变量都由同一份主题生成
+ */
+
+import { DocumentTheme, DocumentThemeId, ThemeFont, ThemeHeadingStyle } from '../types';
+
+const heading = (
+  font: ThemeFont,
+  size: number,
+  color: string,
+  spacing: { before: number; after: number },
+  overrides: Partial<ThemeHeadingStyle> = {}
+): ThemeHeadingStyle => ({
+  font,
+  size,
+  color,
+  bold: true,
+  alignment: 'left',
+  spacing,
+  firstLineIndent: 0,
+  bottomBorder: false,
+  ...overrides,
+});
+
+const YAHEI: ThemeFont = { latin: 'Calibri', eastAsia: 'Microsoft YaHei' };
+
+const BUSINESS: DocumentTheme = {
+  id: 'business',
+  name: '商务',
+  description: '蓝色标题、微软雅黑，适合日常报告',
+  body: {
+    font: YAHEI,
+    size: 22, // 11pt
+    color: '374151',
+    alignment: 'left',
+    spacing: { before: 60, after: 60, line: 336 },
+    exactLineSpacing: false,
+    firstLineIndent: 0,
+  },
+  headings: [
+    heading(YAHEI, 32, '2E74B5', { before: 240, after: 120 }, { bottomBorder: true }),
+    heading(YAHEI, 28, '1F4D78', { before: 200, after: 100 }),
+    heading(YAHEI, 24, '428bca', { before: 160, after: 80 }),
+    heading(YAHEI, 22, '374151', { before: 120, after: 60 }),
+    heading(YAHEI, 22, '4B5563', { before: 120, after: 60 }, { bold: false }),
+    heading(YAHEI, 20, '6B7280', { before: 100, after: 50 }, { bold: false }),
+  ],
+  codeFont: 'Courier New',
+  tableFontSize: 16,
+  colors: {
+    link: '2563EB',
+    border: 'E5E7EB',
+    codeBg: 'F5F5F5',
+    quoteBorder: 'D1D5DB',
+    quoteBg: 'F9FAFB',
+  },
+};
+
+const SONG: ThemeFont = { latin: 'Times New Roman', eastAsia: 'SimSun' };
+const HEI: ThemeFont = { latin: 'Times New Roman', eastAsia: 'SimHei' };
+
+const ACADEMIC: DocumentTheme = {
+  id: 'academic',
+  name: '学术',
+  description: '宋体正文、黑体标题，1.5 倍行距，首行缩进',
+  body: {
+    font: SONG,
+    size: 24, // 小四
+    color: '000000',
+    alignment: 'justify',
+    spacing: { before: 0, after: 0, line: 360 },
+    exactLineSpacing: false,
+    firstLineIndent: 480,
+  },
+  headings: [
+    heading(HEI, 32, '000000', { before: 360, after: 240 }, { alignment: 'center' }),
+    heading(HEI, 28, '000000', { before: 240, after: 120 }),
+    heading(HEI, 24, '000000', { before: 240, after: 120 }),
+    heading(HEI, 24, '000000', { before: 120, after: 60 }, { bold: false }),
+    heading(SONG, 24, '000000', { before: 120, after: 60 }),
+    heading(SONG, 24, '000000', { before: 120, after: 60 }, { bold: false }),
+  ],
+  codeFont: 'Consolas',
+  tableFontSize: 21, // 五号
+  colors: {
+    link: '1F4E79',
+    border: '000000',
+    codeBg: 'F2F2F2',
+    quoteBorder: '7F7F7F',
+    quoteBg: 'F7F7F7',
+  },
+};
+
+const CLEAN: ThemeFont = { latin: 'Segoe UI', eastAsia: 'Microsoft YaHei' };
+
+const MINIMAL: DocumentTheme = {
+  id: 'minimal',
+  name: '简约',
+  description: '黑白灰配色，留白更多',
+  body: {
+    font: CLEAN,
+    size: 21, // 10.5pt
+    color: '1F2937',
+    alignment: 'left',
+    spacing: { before: 0, after: 120, line: 312 },
+    exactLineSpacing: false,
+    firstLineIndent: 0,
+  },
+  headings: [
+    heading(CLEAN, 36, '111827', { before: 360, after: 160 }),
+    heading(CLEAN, 28, '111827', { before: 280, after: 120 }),
+    heading(CLEAN, 24, '374151', { before: 200, after: 80 }),
+    heading(CLEAN, 21, '6B7280', { before: 160, after: 60 }),
+    heading(CLEAN, 21, '6B7280', { before: 120, after: 40 }, { bold: false }),
+    heading(CLEAN, 19, '9CA3AF', { before: 120, after: 40 }, { bold: false }),
+  ],
+  codeFont: 'Consolas',
+  tableFontSize: 18,
+  colors: {
+    link: '111827',
+    border: 'D1D5DB',
+    codeBg: 'F7F7F7',
+    quoteBorder: 'E5E7EB',
+    quoteBg: 'FFFFFF',
+  },
+};
+
+// GB/T 9704-2012《党政机关公文格式》：正文三号仿宋，每页 22 行（固定行距约 28.95 磅），
+// 标题二号小标宋居中，一至三级标题依次为黑体、楷体、仿宋加粗
+const FANGSONG: ThemeFont = { latin: 'Times New Roman', eastAsia: '仿宋_GB2312' };
+const GONGWEN_LINE = 579;
+const GONGWEN_INDENT = 640; // 两个三号字
+
+const GONGWEN: DocumentTheme = {
+  id: 'gongwen',
+  name: '公文',
+  description: '仿宋三号正文，符合党政机关公文格式',
+  body: {
+    font: FANGSONG,
+    size: 32, // 三号
+    color: '000000',
+    alignment: 'justify',
+    spacing: { before: 0, after: 0, line: GONGWEN_LINE },
+    exactLineSpacing: true,
+    firstLineIndent: GONGWEN_INDENT,
+  },
+  headings: [
+    heading({ latin: 'Times New Roman', eastAsia: '方正小标宋简体' }, 44, '000000', { before: 0, after: GONGWEN_LINE }, { bold: false, alignment: 'center' }),
+    heading({ latin: 'Times New Roman', eastAsia: '黑体' }, 32, '000000', { before: 0, after: 0 }, { bold: false, firstLineIndent: GONGWEN_INDENT }),
+    heading({ latin: 'Times New Roman', eastAsia: '楷体_GB2312' }, 32, '000000', { before: 0, after: 0 }, { bold: false, firstLineIndent: GONGWEN_INDENT }),
+    heading(FANGSONG, 32, '000000', { before: 0, after: 0 }, { firstLineIndent: GONGWEN_INDENT }),
+    heading(FANGSONG, 32, '000000', { before: 0, after: 0 }, { bold: false, firstLineIndent: GONGWEN_INDENT }),
+    heading(FANGSONG, 32, '000000', { before: 0, after: 0 }, { bold: false, firstLineIndent: GONGWEN_INDENT }),
+  ],
+  codeFont: 'Courier New',
+  tableFontSize: 28, // 四号
+  colors: {
+    link: '000000',
+    border: '000000',
+    codeBg: 'F2F2F2',
+    quoteBorder: '000000',
+    quoteBg: 'FFFFFF',
+  },
+};
+
+export const DOCUMENT_THEMES: DocumentTheme[] = [BUSINESS, ACADEMIC, MINIMAL, GONGWEN];
+
+/**
+ * 按 id 获取主题，未知 id 回退到商务主题
+ */
+export const getDocumentTheme = (id: DocumentThemeId): DocumentTheme =>
+  DOCUMENT_THEMES.find(theme => theme.id === id) ?? BUSINESS;
+
+const cssFont = (font: ThemeFont): string => `"${font.latin}", "${font.eastAsia}", sans-serif`;
+const pt = (twips: number): string => `${twips / 20}pt`;
+
+/**
+ * 生成预览用的 CSS 变量（index.css 中 .prose 的样式读取这些变量）
+ */
+export const getThemeCssVariables = (theme: DocumentTheme): Record<string, string> => {
+  const { body, colors } = theme;
+  const variables: Record<string, string> = {
+    '--doc-font': cssFont(body.font),
+    '--doc-font-size': `${body.size / 2}pt`,
+    '--doc-color': `#${body.color}`,
+    '--doc-line-height': body.exactLineSpacing ? pt(body.spacing.line) : String(body.spacing.line / 240),
+    '--doc-text-align': body.alignment,
+    '--doc-text-indent': pt(body.firstLineIndent),
+    '--doc-paragraph-before': pt(body.spacing.before),
+    '--doc-paragraph-after': pt(body.spacing.after),
+    '--doc-code-font': `"${theme.codeFont}", monospace`,
+    '--doc-table-font-size': `${theme.tableFontSize / 2}pt`,
+    '--doc-link-color': `#${colors.link}`,
+    '--doc-border-color': `#${colors.border}`,
+    '--doc-code-bg': `#${colors.codeBg}`,
+    '--doc-quote-border': `#${colors.quoteBorder}`,
+    '--doc-quote-bg': `#${colors.quoteBg}`,
+  };
+
+  theme.headings.forEach((style, index) => {
+    const prefix = `--doc-h${index + 1}`;
+    variables[`${prefix}-font`] = cssFont(style.font);
+    variables[`${prefix}-size`] = `${style.size / 2}pt`;
+    variables[`${prefix}-color`] = `#${style.color}`;
+    variables[`${prefix}-weight`] = style.bold ? '700' : '400';
+    variables[`${prefix}-align`] = style.alignment;
+    variables[`${prefix}-indent`] = pt(style.firstLineIndent);
+    variables[`${prefix}-before`] = pt(style.spacing.before);
+    variables[`${prefix}-after`] = pt(style.spacing.after);
+    variables[`${prefix}-border`] = style.bottomBorder ? `1px solid #${colors.border}` : 'none';
+  });
+
+  return variables;
+};
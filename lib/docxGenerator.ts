@@ -12,22 +12,48 @@ import {
   ShadingType,
   AlignmentType,
   ImageRun,
+  CheckBox,
+  Bookmark,
+  ExternalHyperlink,
+  InternalHyperlink,
+  FootnoteReferenceRun,
+  LevelFormat,
+  LevelSuffix,
+  Header,
+  Footer,
+  PageNumber,
+  NumberFormat,
+  VerticalAlignSection,
+  ISectionOptions,
+  PageBreak,
+  PageOrientation,
+  TableOfContents,
+  INumberingOptions,
+  IParagraphStyleOptions,
+  LineRuleType,
+  Math as OfficeMath,
+  ParagraphChild,
   convertInchesToTwip,
 } from "docx";
 import { marked } from "marked";
-import { renderMermaidToImage } from "./mermaidRenderer";
-import { extractLatexFormulas, hasLatexFormula, renderLatexToImage } from "./mathRenderer";
-
-const COLORS = {
-  H1: "2E74B5",
-  H2: "1F4D78",
-  H3: "428bca",
-  TABLE_HEADER_BG: "F3F4F6",
-  TABLE_ROW_ODD: "FFFFFF",
-  TABLE_ROW_EVEN: "FAFAFA",
-  CODE_BG: "F5F5F5",
-  BORDER_COLOR: "E5E7EB",
-};
+import { parseDiagramInfo, renderDiagramToEmbeddedImage, resolveDiagramWidth } from "./diagramRenderers";
+import { extractLatexFormulas, hasLatexFormula } from "./mathRenderer";
+import { renderLatexToEmbeddedImage } from "./mathSvg";
+import { EmbeddedImage } from "./svgImage";
+import { convertLatexToOmml } from "./ommlConverter";
+import { LoadedImage, loadImage } from "./imageLoader";
+import { CODE_TOKEN_COLORS, splitCodeTokensIntoLines, tokenizeCode } from "./codeHighlighter";
+import { CellAlignment, HtmlTable, splitHtmlTables } from "./htmlTableParser";
+import { HtmlRunSegment, containsInlineHtml, decodeHtmlEntities, htmlToParagraphs, htmlToSegments, isClosingTag, parseOpeningTag } from "./htmlRuns";
+import { getDocumentTheme } from "./documentThemes";
+import { CITATION, FOOTNOTE_REFERENCE, ReferenceEntry, parseCitationNumbers } from "./markdownNotes";
+import { extractCallout, findDocumentTitle, formatDocumentDate, getPlainText, prepareMarkdownTokens, splitByOrientation } from "./markdownTokens";
+import { applyReferenceTemplate } from "./referenceTemplate";
+import { DEFAULT_PAGE_LAYOUT, getPrintableWidth, resolvePageLayout } from "./pageSetup";
+import { DEFAULT_EXPORT_OPTIONS, DocumentTheme, PageLayout, PageNumberFormat, ThemeFont, ThemeHeadingStyle, WordExportOptions } from "../types";
+
+// 96 DPI 下 1px = 15 twips
+const TWIPS_PER_PIXEL = 15;
 
 // LRU 缓存实现
 class LRUCache<K, V> {
@@ -69,70 +95,230 @@ class LRUCache<K, V> {
   }
 }
 
-// 存储 Mermaid 图表的图片数据
-interface MermaidImage {
-  code: string;
-  base64: string | null;
-}
+// 图表图片按渲染器与源码缓存
+const diagramImageCache = new LRUCache<string, EmbeddedImage | null>(100);
+const formulaImageCache = new LRUCache<string, EmbeddedImage | null>(200);
+const markdownImageCache = new LRUCache<string, LoadedImage | null>(100);
 
-const mermaidImageCache = new LRUCache<string, { base64: string; width: number; height: number } | null>(100);
-const formulaImageCache = new LRUCache<string, { base64: string; width: number; height: number } | null>(200);
+// 当前导出的选项与主题
+let exportOptions: WordExportOptions = DEFAULT_EXPORT_OPTIONS;
+let theme: DocumentTheme = getDocumentTheme(DEFAULT_EXPORT_OPTIONS.themeId);
 
-const processTextWithHtml = (text: string, baseOptions: any = {}): TextRun[] => {
-  if (!text) return [];
+// 当前页面设置与正在处理的节的可打印宽度 (twips)：默认 A4 纸、四边 720，即 11906 - 720*2 = 10466
+let pageLayout: PageLayout = DEFAULT_PAGE_LAYOUT;
+let printableWidth = getPrintableWidth(DEFAULT_PAGE_LAYOUT, false);
 
-  // Split by regex to find:
-  // 1. Newlines (\n)
-  // 2. HTML breaks (<br>)
-  // 3. Bold tags (<b>...</b> or <strong>...</strong>)
-  // We use capturing groups for delimiters so split includes them
+// 标题锚点 (slug) → Word 书签名，用于 [文字](#锚点) 的文档内跳转
+let headingBookmarks = new Map<string, string>();
 
+// 文档脚注，键为脚注编号
+let documentFootnotes: Record<string, { children: Paragraph[] }> = {};
 
-  // Normalize whitespaces: duplicate horizontal spaces (space, tab, full-width space, nbsp) -> single space
-  // PRESERVE newlines (\n) which are handled separately later
-  const normalizedText = text.replace(/[ \t\u3000\u00A0]+/g, ' ');
+const addFootnote = (children: ParagraphChild[]): number => {
+  const id = Object.keys(documentFootnotes).length + 1;
+  documentFootnotes[id] = { children: [new Paragraph({ children })] };
+  return id;
+};
 
-  const parts = normalizedText.split(/(\n|<br\s*\/?>|<b>.*?<\/b>|<strong>.*?<\/strong>)/gi);
-  const runs: TextRun[] = [];
+// Markdown 脚注：标签 → 内容，以及已生成的 Word 脚注编号（同一脚注多次引用时复用）
+let footnoteDefinitions = new Map<string, string>();
+let footnoteIds = new Map<string, number>();
+// 文末参考文献的编号，只有能找到对应条目的 [n] 才转换为链接
+let referenceNumbers = new Set<number>();
+
+const getReferenceBookmark = (referenceNumber: number): string => `_Ref_${referenceNumber}`;
+
+const createFootnoteReference = (label: string): ParagraphChild[] => {
+  let id = footnoteIds.get(label);
+  if (id === undefined) {
+    // 先占位再处理内容，脚注内容中再次引用自身时不会重复创建
+    id = Object.keys(documentFootnotes).length + 1;
+    footnoteIds.set(label, id);
+    documentFootnotes[id] = { children: [] };
+    const contentTokens = marked.Lexer.lexInline(footnoteDefinitions.get(label) || '', { gfm: true });
+    documentFootnotes[id] = { children: [new Paragraph({ children: processInlineTokens(contentTokens) })] };
+  }
+  return [new FootnoteReferenceRun(id)];
+};
 
-  parts.forEach((part) => {
-    if (!part) return; // Skip empty parts
+// 文献引用以上标显示，并链接到参考文献中的第一个编号
+const createCitation = (text: string, numbers: number[], runOptions: any): ParagraphChild[] => [
+  new InternalHyperlink({
+    anchor: getReferenceBookmark(numbers[0]),
+    children: [new TextRun({ ...runOptions, text, superScript: true, color: theme.colors.link })],
+  }),
+];
+
+// 处理文本中的脚注引用 [^id] 与文献引用 [n]，其余文本按 processTextWithHtml 处理
+const processTextWithNotes = (text: string, runOptions: any = {}): ParagraphChild[] => {
+  const pattern = new RegExp(`${FOOTNOTE_REFERENCE.source}|${CITATION.source}`, 'g');
+  const children: ParagraphChild[] = [];
+  let lastIndex = 0;
+  let match;
 
-    // Handle Line Breaks
-    if (part === '\n' || part.match(/^<br\s*\/?>$/i)) {
-      runs.push(new TextRun({ text: "", break: 1 }));
-      return;
+  while ((match = pattern.exec(text)) !== null) {
+    const [marker, label, citation] = match;
+    let noteChildren: ParagraphChild[] | null = null;
+    if (label !== undefined && footnoteDefinitions.has(label)) {
+      noteChildren = createFootnoteReference(label);
+    } else if (citation !== undefined) {
+      const numbers = parseCitationNumbers(citation);
+      if (numbers.length > 0 && numbers.every(n => referenceNumbers.has(n))) {
+        noteChildren = createCitation(marker, numbers, runOptions);
+      }
     }
+    if (!noteChildren) continue;
 
-    // Handle Bold Tags
-    const boldMatch = part.match(/^<(b|strong)>(.*?)<\/\1>$/i);
-    if (boldMatch) {
-      const boldText = boldMatch[2];
-      // 分割 Emoji 和普通文本
-      const emojiParts = splitTextWithEmoji(boldText);
-      emojiParts.forEach(({ text, isEmoji }) => {
-        runs.push(new TextRun({
-          text,
-          ...baseOptions,
-          bold: true,
-          font: isEmoji ? "Segoe UI Emoji" : baseOptions.font
-        }));
-      });
-      return;
-    }
+    children.push(...processTextWithHtml(text.slice(lastIndex, match.index), runOptions), ...noteChildren);
+    lastIndex = match.index + marker.length;
+  }
 
-    // Handle Normal Text - 分割 Emoji 和普通文本
-    const emojiParts = splitTextWithEmoji(part);
-    emojiParts.forEach(({ text, isEmoji }) => {
-      runs.push(new TextRun({
-        text,
-        ...baseOptions,
-        font: isEmoji ? "Segoe UI Emoji" : baseOptions.font
-      }));
-    });
+  children.push(...processTextWithHtml(text.slice(lastIndex), runOptions));
+  return children;
+};
+
+// 参考文献条目：悬挂缩进，编号处设置书签供正文引用跳转
+const processReferences = (entries: ReferenceEntry[]): Paragraph[] => entries.map(entry => new Paragraph({
+  children: [
+    new Bookmark({ id: getReferenceBookmark(entry.number), children: [new TextRun({ text: `[${entry.number}] ` })] }),
+    ...processInlineTokens(marked.Lexer.lexInline(entry.text, { gfm: true })),
+  ],
+  indent: { left: 480, hanging: 480 },
+}));
+
+// 有序列表的编号定义：每个有序列表单独一个 reference，保证从各自的 start 重新编号
+type NumberingConfig = INumberingOptions['config'][number];
+let listNumberingConfigs: NumberingConfig[] = [];
+
+// 列表每级缩进 (twips)，与 docx 内置项目符号的缩进保持一致
+const LIST_INDENT_STEP = 720;
+const LIST_HANGING_INDENT = 360;
+const ORDERED_LEVEL_FORMATS = [LevelFormat.DECIMAL, LevelFormat.LOWER_LETTER, LevelFormat.LOWER_ROMAN];
+
+const createOrderedListNumbering = (start: number): string => {
+  const reference = `ordered-list-${listNumberingConfigs.length}`;
+  listNumberingConfigs.push({
+    reference,
+    levels: Array.from({ length: 9 }, (_, level) => ({
+      level,
+      format: ORDERED_LEVEL_FORMATS[level % ORDERED_LEVEL_FORMATS.length],
+      text: `%${level + 1}.`,
+      alignment: AlignmentType.LEFT,
+      start,
+      style: {
+        paragraph: {
+          indent: { left: LIST_INDENT_STEP * (level + 1), hanging: LIST_HANGING_INDENT },
+        },
+      },
+    })),
   });
+  return reference;
+};
+
+// 标题编号：所有标题共用一个多级编号定义，显示为 1 / 1.1 / 1.1.1
+const HEADING_NUMBERING_REFERENCE = "heading-numbering";
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+
+// 参与编号和目录的最高标题级别；文档标题（见 findDocumentTitle）不编号
+let headingStartLevel = 1;
+
+const createHeadingNumbering = (): NumberingConfig => ({
+  reference: HEADING_NUMBERING_REFERENCE,
+  levels: HEADING_LEVELS.map((_, level) => ({
+    level,
+    format: LevelFormat.DECIMAL,
+    text: Array.from({ length: level + 1 }, (_, i) => `%${i + 1}`).join('.'),
+    alignment: AlignmentType.LEFT,
+    start: 1,
+    suffix: LevelSuffix.SPACE,
+    isLegalNumberingStyle: true,
+  })),
+});
+
+// 目录：Word 打开文档时更新域后生成，只收录编号范围内的三级标题
+const createTableOfContents = (): any[] => [
+  new Paragraph({
+    children: [new TextRun({ text: "目录", bold: true, size: theme.headings[1].size })],
+    alignment: AlignmentType.CENTER,
+    spacing: { before: 240, after: 240 },
+  }),
+  new TableOfContents("目录", {
+    hyperlink: true,
+    headingStyleRange: `${headingStartLevel}-${Math.min(headingStartLevel + 2, HEADING_LEVELS.length)}`,
+  }),
+  new Paragraph({ children: [new PageBreak()] }),
+];
+
+// 标题文字：公式转换为原生公式，无法转换时保留公式文本 (标题中暂不支持图片公式)
+const createHeadingRuns = (text: string, runOptions: any = {}): ParagraphChild[] => {
+  if (!hasLatexFormula(text)) {
+    // 使用 children 而非 text，以支持 emoji 字体
+    return processTextWithHtml(text, runOptions);
+  }
 
-  return runs;
+  const { processedText, formulas } = extractLatexFormulas(text);
+  return processedText.split(/(\[\[FORMULA_(?:INLINE|BLOCK)_\d+\]\])/).flatMap(part => {
+    const formula = formulas.find(f => f.placeholder === part);
+    if (!formula) return processTextWithHtml(part, runOptions);
+    return [createOfficeMath(formula.formula) ?? new TextRun({ ...runOptions, text: formula.formula })];
+  });
+};
+
+// 生成文字：Emoji 单独使用 Emoji 字体
+const createTextRuns = (text: string, runOptions: any): TextRun[] =>
+  splitTextWithEmoji(text).map(({ text, isEmoji }) => new TextRun({
+    text,
+    ...runOptions,
+    font: isEmoji ? "Segoe UI Emoji" : runOptions.font
+  }));
+
+// 将 HTML 片段的格式映射为 Word 字符格式，未设置的属性沿用 baseOptions
+const applyHtmlStyle = (baseOptions: any, style: HtmlRunSegment['style']): any => {
+  const runOptions: any = { ...baseOptions };
+  if (style.bold) runOptions.bold = true;
+  if (style.italics) runOptions.italics = true;
+  if (style.underline) runOptions.underline = {};
+  if (style.strike) runOptions.strike = true;
+  if (style.superScript) runOptions.superScript = true;
+  if (style.subScript) runOptions.subScript = true;
+  if (style.highlight) runOptions.highlight = "yellow";
+  if (style.color) runOptions.color = style.color;
+  if (style.code) {
+    runOptions.font = theme.codeFont;
+    runOptions.shading = { type: ShadingType.CLEAR, fill: theme.colors.codeBg };
+  }
+  if (style.background) runOptions.shading = { type: ShadingType.CLEAR, fill: style.background };
+  return runOptions;
+};
+
+const createHtmlRuns = (segments: HtmlRunSegment[], baseOptions: any = {}): TextRun[] =>
+  segments.flatMap(segment => segment.break
+    ? [new TextRun({ text: "", break: 1 })]
+    : createTextRuns(segment.text, applyHtmlStyle(baseOptions, segment.style)));
+
+const processTextWithHtml = (text: string, baseOptions: any = {}): TextRun[] => {
+  if (!text) return [];
+
+  // Normalize whitespaces: duplicate horizontal spaces (space, tab, full-width space, nbsp) -> single space
+  // PRESERVE newlines (\n) which are handled separately later
+  const normalizedText = text.replace(/[ \t\u3000\u00A0]+/g, ' ');
+
+  // 含 <sup>、<span style> 等格式标签时按 DOM 解析，支持任意嵌套
+  if (containsInlineHtml(normalizedText)) {
+    return createHtmlRuns(htmlToSegments(normalizedText), baseOptions);
+  }
+
+  return normalizedText.split('\n').flatMap((line, index) => [
+    ...(index > 0 ? [new TextRun({ text: "", break: 1 })] : []),
+    ...(line ? createTextRuns(decodeHtmlEntities(line), baseOptions) : []),
+  ]);
 };
 
 // 将文本按 Emoji 分割，返回包含文本和是否为 Emoji 标记的数组
@@ -172,72 +358,216 @@ const splitTextWithEmoji = (text: string): Array<{ text: string; isEmoji: boolea
   return result;
 };
 
-const processInlineTokens = (inlineTokens: any[], inheritedOptions: any = {}): TextRun[] => {
-  if (!inlineTokens || !Array.isArray(inlineTokens)) return [];
+// 生成链接：#锚点 跳转到对应标题的书签，外部链接按 linkStyle 输出
+const createLinkElements = (href: string, children: ParagraphChild[], text: string): ParagraphChild[] => {
+  if (!href) return children;
 
-  return inlineTokens.flatMap(token => {
-    // Merge inherited options with current token's formatting
-    const runOptions: any = { ...inheritedOptions };
+  if (href.startsWith('#')) {
+    const anchor = resolveHeadingBookmark(href.slice(1));
+    return anchor ? [new InternalHyperlink({ anchor, children })] : children;
+  }
 
-    // Handle different token types
-    switch (token.type) {
-      case 'strong':
-        runOptions.bold = true;
-        break;
-      case 'em':
-        runOptions.italics = true;
-        break;
-      case 'codespan':
-        runOptions.font = "Courier New";
-        runOptions.shading = {
-          type: ShadingType.CLEAR,
-          fill: "F5F5F5",
-        };
-        break;
-      case 'link':
-        runOptions.color = "2563EB";
-        runOptions.underline = {};
-        break;
-      case 'del':
-        runOptions.strike = true;
-        break;
-      case 'br':
-        return [new TextRun({ text: "", break: 1 })];
-      case 'text':
-        // Plain text, use inherited options only
-        break;
-      case 'escape':
-        // Escaped characters, treat as text
-        break;
-      default:
-        // Unknown token type, try to handle gracefully
-        break;
+  const hyperlink = new ExternalHyperlink({ link: href, children });
+  // 自动链接的文字本身就是网址，无需重复
+  const displayUrl = href.replace(/^mailto:/, '');
+  if (text === href || text === displayUrl) return [hyperlink];
+
+  switch (exportOptions.linkStyle) {
+    case 'inline-url':
+      return [hyperlink, new TextRun({ text: ` (${displayUrl})`, color: "6B7280" })];
+    case 'footnote':
+      return [hyperlink, new FootnoteReferenceRun(addFootnote([new ExternalHyperlink({
+        link: href,
+        children: [new TextRun({ text: displayUrl, color: theme.colors.link, underline: {} })],
+      })]))];
+    default:
+      return [hyperlink];
+  }
+};
+
+const resolveHeadingBookmark = (anchor: string): string | undefined => {
+  let decoded = anchor;
+  try {
+    decoded = decodeURIComponent(anchor);
+  } catch {
+    // 非法的 URI 编码，按原文查找
+  }
+  return headingBookmarks.get(decoded)
+    ?? headingBookmarks.get(new marked.Slugger().slug(decoded, { dryrun: true }));
+};
+
+// 为所有标题预先分配书签名（链接可能出现在标题之前）
+const assignHeadingBookmarks = (tokens: any[]): void => {
+  const slugger = new marked.Slugger();
+  headingBookmarks = new Map();
+  marked.walkTokens(tokens, (token: any) => {
+    if (token.type !== 'heading') return;
+    const slug = slugger.slug(token.text);
+    // Word 书签名只能包含字母、数字和下划线，且不超过 40 个字符
+    token.bookmark = `_Heading_${headingBookmarks.size + 1}`;
+    headingBookmarks.set(slug, token.bookmark);
+  });
+};
+
+// 预先加载文档中的所有图片（行内 token 的处理是同步的）
+const preloadImages = async (tokens: any[]): Promise<void> => {
+  const sources = new Set<string>();
+  marked.walkTokens(tokens, (token: any) => {
+    if (token.type === 'image' && token.href) sources.add(token.href);
+  });
+
+  await Promise.all(Array.from(sources).map(async (src) => {
+    markdownImageCache.set(src, await loadImage(src, exportOptions.allowRemoteImages));
+  }));
+};
+
+// 生成图片：按可打印宽度等比缩小，加载失败时显示带替代文字的占位
+const createImageElements = (token: any, runOptions: any): ParagraphChild[] => {
+  const alt = token.text || '';
+  const image = markdownImageCache.get(token.href);
+
+  if (!image) {
+    return [new TextRun({
+      ...runOptions,
+      text: `[图片${alt ? `: ${alt}` : ''}]`,
+      italics: true,
+      color: "9CA3AF",
+      shading: { type: ShadingType.CLEAR, fill: theme.colors.codeBg },
+    })];
+  }
+
+  const maxWidth = Math.floor(printableWidth / TWIPS_PER_PIXEL);
+  const scale = image.width > maxWidth ? maxWidth / image.width : 1;
+
+  return [new ImageRun({
+    data: image.data,
+    type: image.type,
+    transformation: {
+      width: Math.round(image.width * scale),
+      height: Math.round(image.height * scale),
+    },
+    altText: {
+      name: alt || 'image',
+      title: token.title || alt,
+      description: alt,
+    },
+  })];
+};
+
+// 图表与公式图片：SVG 格式附带 PNG 备用图，供不支持 SVG 的 Word 版本显示
+const createEmbeddedImageRun = (image: EmbeddedImage, width: number, height: number): ImageRun => {
+  const transformation = { width: Math.round(width), height: Math.round(height) };
+  return image.svg
+    ? new ImageRun({ type: 'svg', data: image.svg, fallback: { type: 'png', data: image.png }, transformation })
+    : new ImageRun({ type: 'png', data: image.png, transformation });
+};
+
+// 查找与开始标签配对的结束标签 token，同名标签嵌套时按层级匹配
+const findClosingTagIndex = (inlineTokens: any[], openIndex: number, name: string): number => {
+  let depth = 0;
+  for (let i = openIndex + 1; i < inlineTokens.length; i++) {
+    const token = inlineTokens[i];
+    if (token.type !== 'html') continue;
+    if (parseOpeningTag(token.raw)?.name === name) {
+      depth++;
+    } else if (isClosingTag(token.raw, name)) {
+      if (depth === 0) return i;
+      depth--;
     }
+  }
+  return -1;
+};
+
+const processInlineTokens = (inlineTokens: any[], inheritedOptions: any = {}): ParagraphChild[] => {
+  if (!inlineTokens || !Array.isArray(inlineTokens)) return [];
 
-    // Recursive processing for nested tokens
-    if (token.tokens && Array.isArray(token.tokens)) {
-      return processInlineTokens(token.tokens, runOptions);
+  const children: ParagraphChild[] = [];
+  for (let i = 0; i < inlineTokens.length; i++) {
+    const token = inlineTokens[i];
+    // marked 把行内 HTML 的开始、结束标签拆成单独的 token：中间的 token 按标签的格式处理
+    const openingTag = token.type === 'html' ? parseOpeningTag(token.raw) : null;
+    const closingIndex = openingTag ? findClosingTagIndex(inlineTokens, i, openingTag.name) : -1;
+    if (openingTag && closingIndex !== -1) {
+      children.push(...processInlineTokens(inlineTokens.slice(i + 1, closingIndex), applyHtmlStyle(inheritedOptions, openingTag.style)));
+      i = closingIndex;
+    } else {
+      children.push(...processInlineToken(token, inheritedOptions));
     }
+  }
+  return children;
+};
 
-    // Extract text content - prefer raw, then text
-    let textContent = token.raw || token.text || '';
+const processInlineToken = (token: any, inheritedOptions: any): ParagraphChild[] => {
+  // Merge inherited options with current token's formatting
+  const runOptions: any = { ...inheritedOptions };
+
+  // Handle different token types
+  switch (token.type) {
+    case 'strong':
+      runOptions.bold = true;
+      break;
+    case 'em':
+      runOptions.italics = true;
+      break;
+    case 'codespan':
+      runOptions.font = theme.codeFont;
+      runOptions.shading = {
+        type: ShadingType.CLEAR,
+        fill: theme.colors.codeBg,
+      };
+      break;
+    case 'link':
+      runOptions.color = theme.colors.link;
+      runOptions.underline = {};
+      return createLinkElements(
+        token.href,
+        token.tokens ? processInlineTokens(token.tokens, runOptions) : processTextWithHtml(token.text, runOptions),
+        token.text
+      );
+    case 'del':
+      runOptions.strike = true;
+      break;
+    case 'image':
+      return createImageElements(token, runOptions);
+    case 'br':
+      return [new TextRun({ text: "", break: 1 })];
+    case 'text':
+      // Plain text, use inherited options only
+      break;
+    case 'escape':
+      // Escaped characters, treat as text
+      break;
+    default:
+      // Unknown token type, try to handle gracefully
+      break;
+  }
 
-    // 🔥 CRITICAL: Normalize whitespace here (double insurance)
-    // This ensures Word output matches HTML preview behavior
-    textContent = textContent.replace(/[ \t\u3000\u00A0]+/g, ' ');
+  // Recursive processing for nested tokens
+  if (token.tokens && Array.isArray(token.tokens)) {
+    return processInlineTokens(token.tokens, runOptions);
+  }
 
-    // If there's no text content, return empty array
-    if (!textContent) return [];
+  // Extract text content - prefer raw, then text（转义字符 \< 等取转义后的字符）
+  let textContent = (token.type === 'escape' ? token.text : token.raw || token.text) || '';
 
-    return processTextWithHtml(textContent, runOptions);
-  });
+  // 🔥 CRITICAL: Normalize whitespace here (double insurance)
+  // This ensures Word output matches HTML preview behavior
+  textContent = textContent.replace(/[ \t\u3000\u00A0]+/g, ' ');
+
+  // If there's no text content, return empty array
+  if (!textContent) return [];
+
+  return token.type === 'codespan' ? processTextWithHtml(textContent, runOptions) : processTextWithNotes(textContent, runOptions);
 };
 
 /**
- * 处理 LaTeX 公式，转换为 Word 可显示的格式
- * 由于 Word 原生支持 OMML 数学公式较复杂，这里使用近似表示
+ * 将 LaTeX 公式转换为 Word 原生公式对象（OMML）
+ * 转换器无法表达的结构返回 null，由调用方回退到图片
  */
-// processLatexFormula removed as we now use images
+const createOfficeMath = (formula: string): OfficeMath | null => {
+  const children = convertLatexToOmml(formula);
+  return children ? new OfficeMath({ children }) : null;
+};
 
 // Helper to calculate table column widths intelligently
 const calculateColumnWidths = (tableToken: any): number[] => {
@@ -260,10 +590,7 @@ const calculateColumnWidths = (tableToken: any): number[] => {
     columnLengths.push(maxLength);
   }
 
-  // A4 纸张宽度 (twips): 11906
-  // 页面边距: 上下左右各 720 twips
-  // 可打印区域: 11906 - 720*2 = 10466 twips
-  const availableWidth = 10466;
+  const availableWidth = printableWidth;
   const minColumnWidth = 1000; // 最小宽度约 50pt，够放3-4个汉字
 
   // 识别短列（内容长度小于4的字符，如"序号"列）
@@ -294,8 +621,98 @@ const calculateColumnWidths = (tableToken: any): number[] => {
   return columnWidths;
 };
 
+const CELL_ALIGNMENTS = {
+  left: AlignmentType.LEFT,
+  center: AlignmentType.CENTER,
+  right: AlignmentType.RIGHT,
+};
+
+const createTableCell = (
+  children: ParagraphChild[],
+  width: number,
+  align: CellAlignment,
+  spans: { columnSpan?: number; rowSpan?: number } = {}
+): TableCell => new TableCell({
+  children: [new Paragraph({
+    children,
+    spacing: { before: 20, after: 20, line: 240 },
+    alignment: align ? CELL_ALIGNMENTS[align] : AlignmentType.LEFT
+  })],
+  shading: { fill: "FFFFFF", type: ShadingType.CLEAR },
+  margins: { top: 50, bottom: 50, left: 80, right: 80 },
+  width: { size: width, type: WidthType.DXA },
+  verticalAlign: "center",
+  columnSpan: spans.columnSpan,
+  rowSpan: spans.rowSpan,
+  borders: {
+    top: { style: BorderStyle.SINGLE, size: 1, color: theme.colors.border },
+    bottom: { style: BorderStyle.SINGLE, size: 1, color: theme.colors.border },
+    left: { style: BorderStyle.NONE, size: 0, color: "auto" },
+    right: { style: BorderStyle.NONE, size: 0, color: "auto" },
+  }
+});
+
+const createTable = (rows: TableRow[], columnWidths: number[]): any[] => [
+  new Table({
+    rows,
+    width: { size: printableWidth, type: WidthType.DXA },
+    columnWidths,
+    borders: {
+      top: { style: BorderStyle.SINGLE, size: 1, color: theme.colors.border },
+      bottom: { style: BorderStyle.SINGLE, size: 1, color: theme.colors.border },
+      left: { style: BorderStyle.NONE, size: 0, color: "auto" },
+      right: { style: BorderStyle.NONE, size: 0, color: "auto" },
+      insideHorizontal: { style: BorderStyle.SINGLE, size: 1, color: theme.colors.border },
+      insideVertical: { style: BorderStyle.NONE, size: 0, color: "auto" },
+    }
+  }),
+  new Paragraph({ text: "" }),
+];
+
+// 处理 GFM 表格：按 token.align 设置每列对齐，表头行在分页时重复
+const processTable = async (token: any): Promise<any[]> => {
+  // 计算智能列宽
+  const columnWidths = calculateColumnWidths(token);
+  const align: CellAlignment[] = token.align || [];
+
+  const headerCells = await Promise.all(token.header.map(async (cell: any, colIndex: number) => {
+    const cellRuns = await processMixedContent(cell.text, cell.tokens, { bold: true, size: theme.tableFontSize });
+    return createTableCell(cellRuns, columnWidths[colIndex], align[colIndex]);
+  }));
+  const tableRows = [new TableRow({ children: headerCells, tableHeader: true })];
+
+  for (const row of token.rows) {
+    const cells = await Promise.all(row.map(async (cell: any, colIndex: number) => {
+      const cellRuns = await processMixedContent(cell.text, cell.tokens, { size: theme.tableFontSize });
+      return createTableCell(cellRuns, columnWidths[colIndex], align[colIndex]);
+    }));
+    tableRows.push(new TableRow({ children: cells }));
+  }
+
+  return createTable(tableRows, columnWidths);
+};
+
+// 处理 HTML 表格：<thead>/<th> 行作为表头，colspan/rowspan 转为合并单元格
+const processHtmlTable = async (table: HtmlTable): Promise<any[]> => {
+  const columnWidth = printableWidth / table.columnCount;
+  const tableRows: TableRow[] = [];
+
+  for (const row of table.rows) {
+    const cells = await Promise.all(row.cells.map(async (cell) => {
+      const cellRuns = await processMixedContent(cell.text, null, cell.isHeader ? { bold: true, size: theme.tableFontSize } : { size: theme.tableFontSize });
+      return createTableCell(cellRuns, columnWidth * cell.colSpan, cell.align, {
+        columnSpan: cell.colSpan > 1 ? cell.colSpan : undefined,
+        rowSpan: cell.rowSpan > 1 ? cell.rowSpan : undefined,
+      });
+    }));
+    tableRows.push(new TableRow({ children: cells, tableHeader: row.isHeader }));
+  }
+
+  return createTable(tableRows, Array(table.columnCount).fill(columnWidth));
+};
+
 // Helper to process content that might contain formulas
-const processMixedContent = async (text: string, tokens: any[], runOptions: any = {}): Promise<(TextRun | ImageRun)[]> => {
+const processMixedContent = async (text: string, tokens: any[] | null, runOptions: any = {}): Promise<ParagraphChild[]> => {
   console.log('[processMixedContent] Processing text:', text?.substring(0, 100));
   console.log('[processMixedContent] Has formula?', hasLatexFormula(text));
 
@@ -318,23 +735,35 @@ const processMixedContent = async (text: string, tokens: any[], runOptions: any
       }];
       parts = [placeholder];
     }
-    const runs: (TextRun | ImageRun)[] = [];
+    const runs: ParagraphChild[] = [];
 
-    // 预先渲染所有公式（并行处理）
+    // 预先渲染所有公式（并行处理）：优先转换为原生公式，失败时才渲染图片
     const formulaPromises = effectiveFormulas.map(async (formula) => {
+      const officeMath = createOfficeMath(formula.formula);
+      if (officeMath) {
+        return { placeholder: formula.placeholder, officeMath, imageData: null, formula };
+      }
+
       const cacheKey = formula.formula;
       let imageData = formulaImageCache.get(cacheKey);
 
       if (imageData === undefined) {
         console.log('[processMixedContent] Rendering formula to image...', formula.formula.substring(0, 30));
-        imageData = await renderLatexToImage(formula.formula, formula.type === 'block');
+        imageData = await renderLatexToEmbeddedImage(
+          formula.formula,
+          formula.type === 'block',
+          // 正文字号（半磅）换算为像素
+          theme.body.size * 10 / TWIPS_PER_PIXEL,
+          theme.body.color,
+          { format: exportOptions.diagramFormat, scale: exportOptions.imageScale }
+        );
         console.log('[processMixedContent] Image data:', imageData ? `width=${imageData.width}, height=${imageData.height}` : 'null');
         formulaImageCache.set(cacheKey, imageData);
       } else {
         console.log('[processMixedContent] Using cached image data for:', formula.formula.substring(0, 30));
       }
 
-      return { placeholder: formula.placeholder, imageData, formula };
+      return { placeholder: formula.placeholder, officeMath: null, imageData, formula };
     });
 
     // 等待所有公式渲染完成
@@ -345,23 +774,12 @@ const processMixedContent = async (text: string, tokens: any[], runOptions: any
       const formulaMatch = part.match(/\[\[FORMULA_(INLINE|BLOCK)_(\d+)\]\]/);
       if (formulaMatch) {
         const rendered = renderedFormulas.find(f => f.placeholder === part);
-        if (rendered && rendered.imageData && rendered.imageData.base64) {
+        if (rendered && rendered.officeMath) {
+          runs.push(rendered.officeMath);
+        } else if (rendered && rendered.imageData) {
           try {
-            const binaryString = window.atob(rendered.imageData.base64);
-            const bytes = new Uint8Array(binaryString.length);
-            for (let i = 0; i < binaryString.length; i++) {
-              bytes[i] = binaryString.charCodeAt(i);
-            }
-
             console.log('[processMixedContent] Adding ImageRun to document');
-            runs.push(new ImageRun({
-              data: bytes,
-              transformation: {
-                width: Math.round(rendered.imageData.width * 0.75),
-                height: Math.round(rendered.imageData.height * 0.75),
-              },
-              type: 'png',
-            }));
+            runs.push(createEmbeddedImageRun(rendered.imageData, rendered.imageData.width, rendered.imageData.height));
           } catch (error) {
             console.error('[processMixedContent] Error creating ImageRun:', error);
             runs.push(new TextRun({ text: rendered.formula.formula, italics: true, ...runOptions }));
@@ -372,7 +790,7 @@ const processMixedContent = async (text: string, tokens: any[], runOptions: any
         }
       } else if (part.trim() || part === '\n') {
         if (part.trim()) {
-          runs.push(...processTextWithHtml(part, runOptions));
+          runs.push(...processTextWithNotes(part, runOptions));
         }
       }
     }
@@ -382,6 +800,169 @@ const processMixedContent = async (text: string, tokens: any[], runOptions: any
   }
 };
 
+// 处理代码块：按语言着色，放入带边框的单元格中，可选语言标题和行号
+const processCodeBlock = (code: string, lang?: string): any[] => {
+  const codeFont = theme.codeFont;
+  const language = (lang || '').trim().split(/\s+/)[0];
+  // Word 中制表符宽度不固定，统一换成 4 个空格
+  const lines = splitCodeTokensIntoLines(tokenizeCode(code.replace(/\t/g, '    '), language));
+  const numberWidth = String(lines.length).length;
+
+  const paragraphs = lines.map((lineTokens, index) => new Paragraph({
+    children: [
+      ...(exportOptions.codeLineNumbers ? [new TextRun({
+        text: `${String(index + 1).padStart(numberWidth, ' ')}  `,
+        font: codeFont,
+        size: 20,
+        color: "9CA3AF",
+      })] : []),
+      ...(lineTokens.length > 0 ? lineTokens.map(({ text, kind }) => new TextRun({
+        text,
+        font: codeFont,
+        size: 20,
+        color: CODE_TOKEN_COLORS[kind],
+        italics: kind === 'comment',
+      })) : [new TextRun({ text: "", font: codeFont, size: 20 })]),
+    ],
+    spacing: { before: 0, after: 0, line: 260 },
+    alignment: AlignmentType.LEFT
+  }));
+
+  if (exportOptions.codeLanguageCaption && language) {
+    paragraphs.unshift(new Paragraph({
+      children: [new TextRun({ text: language.toUpperCase(), size: 16, bold: true, color: "9CA3AF" })],
+      spacing: { before: 0, after: 60 },
+      alignment: AlignmentType.RIGHT
+    }));
+  }
+
+  const border = { style: BorderStyle.SINGLE, size: 4, color: theme.colors.border };
+  return [
+    new Table({
+      width: { size: printableWidth, type: WidthType.DXA },
+      columnWidths: [printableWidth],
+      rows: [new TableRow({
+        children: [new TableCell({
+          children: paragraphs,
+          shading: { fill: theme.colors.codeBg, type: ShadingType.CLEAR },
+          margins: { top: 100, bottom: 100, left: 160, right: 160 },
+          borders: { top: border, bottom: border, left: border, right: border },
+        })],
+      })],
+    }),
+    new Paragraph({ text: "", spacing: { before: 0, after: 0 } }),
+  ];
+};
+
+// 处理引用块：内部 token 递归处理后放入带左边框和底色的单元格，提示块额外加标题
+const processBlockquote = async (token: any): Promise<any[]> => {
+  const callout = extractCallout(token);
+  const innerElements = await processTokens(callout ? callout.tokens : token.tokens || []);
+  const borderColor = callout ? callout.style.color : theme.colors.quoteBorder;
+
+  if (callout) {
+    innerElements.unshift(new Paragraph({
+      children: [new TextRun({ text: callout.title, bold: true, color: callout.style.color })],
+      spacing: { before: 40, after: 40 },
+      alignment: AlignmentType.LEFT
+    }));
+  }
+  if (innerElements.length === 0) {
+    innerElements.push(new Paragraph({ text: "" }));
+  }
+
+  const noBorder = { style: BorderStyle.NONE, size: 0, color: "auto" };
+  return [
+    new Table({
+      width: { size: printableWidth - 120, type: WidthType.DXA },
+      columnWidths: [printableWidth - 120],
+      indent: { size: 120, type: WidthType.DXA },
+      rows: [new TableRow({
+        children: [new TableCell({
+          children: innerElements,
+          shading: { fill: callout ? callout.style.fill : theme.colors.quoteBg, type: ShadingType.CLEAR },
+          margins: { top: 60, bottom: 60, left: 200, right: 120 },
+          borders: {
+            top: noBorder,
+            bottom: noBorder,
+            right: noBorder,
+            left: { style: BorderStyle.SINGLE, size: 24, color: borderColor },
+          },
+        })],
+      })],
+      borders: {
+        top: noBorder,
+        bottom: noBorder,
+        left: noBorder,
+        right: noBorder,
+        insideHorizontal: noBorder,
+        insideVertical: noBorder,
+      },
+    }),
+    new Paragraph({ text: "", spacing: { before: 0, after: 0 } }),
+  ];
+};
+
+// 处理列表：有序列表使用编号定义，嵌套列表按层级缩进，任务项显示复选框
+const processList = async (listToken: any, depth: number): Promise<any[]> => {
+  const elements: any[] = [];
+  const level = Math.min(depth, 8);
+  const reference = listToken.ordered ? createOrderedListNumbering(Number(listToken.start) || 1) : null;
+
+  for (const item of listToken.items) {
+    let isFirstBlock = true;
+
+    for (const child of item.tokens || []) {
+      if (child.type === 'list') {
+        elements.push(...await processList(child, depth + 1));
+        continue;
+      }
+
+      if (child.type !== 'text' && child.type !== 'paragraph') {
+        // 列表项中的代码块、表格等，按普通块级元素处理
+        elements.push(...await processTokens([child]));
+        continue;
+      }
+
+      const children: ParagraphChild[] = await processMixedContent(child.text, child.tokens);
+
+      if (!isFirstBlock) {
+        // 同一列表项的后续段落：不重复编号，仅对齐缩进
+        elements.push(new Paragraph({
+          children,
+          indent: { left: LIST_INDENT_STEP * (level + 1) },
+          spacing: { before: 40, after: 40 },
+          alignment: AlignmentType.LEFT
+        }));
+        continue;
+      }
+      isFirstBlock = false;
+
+      if (item.task) {
+        elements.push(new Paragraph({
+          children: [
+            new CheckBox({ checked: !!item.checked }),
+            new TextRun({ text: " " }),
+            ...children,
+          ],
+          indent: { left: LIST_INDENT_STEP * (level + 1), hanging: LIST_HANGING_INDENT },
+          spacing: { before: 40, after: 40 },
+          alignment: AlignmentType.LEFT
+        }));
+      } else {
+        elements.push(new Paragraph({
+          children,
+          ...(reference ? { numbering: { reference, level } } : { bullet: { level } }),
+          spacing: { before: 40, after: 40 },
+          alignment: AlignmentType.LEFT
+        }));
+      }
+    }
+  }
+
+  return elements;
+};
+
 const processTokens = async (tokens: any[]): Promise<any[]> => {
   const docxElements: any[] = [];
   const totalTokens = tokens.length;
@@ -399,42 +980,14 @@ const processTokens = async (tokens: any[]): Promise<any[]> => {
     switch (token.type) {
       case 'heading':
         const level = token.depth;
-        let headingLevel: any = HeadingLevel.HEADING_1;
-        let headingSpacing = { before: 240, after: 120 }; // H1 default: 12pt before, 6pt after
-
-        if (level === 2) {
-          headingLevel = HeadingLevel.HEADING_2;
-          headingSpacing = { before: 200, after: 100 }; // 10pt, 5pt
-        }
-        if (level === 3) {
-          headingLevel = HeadingLevel.HEADING_3;
-          headingSpacing = { before: 160, after: 80 }; // 8pt, 4pt
-        }
-        if (level >= 4) {
-          headingLevel = HeadingLevel.HEADING_4;
-          headingSpacing = { before: 120, after: 60 }; // 6pt, 3pt
-        }
-
-        // 处理标题中的公式和 emoji
-        let headingText = token.text;
-        if (hasLatexFormula(headingText)) {
-          const { processedText, formulas } = extractLatexFormulas(headingText);
-          headingText = processedText;
-          // 简单处理：将公式转换为文本
-          // 简单处理：将公式转换为文本 (标题中暂不支持图片公式)
-          formulas.forEach(f => {
-            headingText = headingText.replace(f.placeholder, f.formula);
-          });
-        }
+        const headingLevel = HEADING_LEVELS[Math.min(level, HEADING_LEVELS.length) - 1];
+        const numbered = exportOptions.headingNumbering && level >= headingStartLevel;
 
-        // 使用 children 而非 text，以支持 emoji 字体
-        const headingRuns = processTextWithHtml(headingText);
+        const headingRuns = createHeadingRuns(token.text);
         docxElements.push(new Paragraph({
-          children: headingRuns,
+          children: token.bookmark ? [new Bookmark({ id: token.bookmark, children: headingRuns })] : headingRuns,
           heading: headingLevel,
-          spacing: headingSpacing,
-          alignment: AlignmentType.LEFT,
-          border: level === 1 ? { bottom: { color: "E5E7EB", space: 4, style: BorderStyle.SINGLE, size: 6 } } : undefined
+          numbering: numbered ? { reference: HEADING_NUMBERING_REFERENCE, level: level - headingStartLevel } : undefined,
         }));
         break;
 
@@ -444,187 +997,79 @@ const processTokens = async (tokens: any[]): Promise<any[]> => {
         let paragraphTokens = token.tokens;
 
         const paragraphRuns = await processMixedContent(paragraphText, paragraphTokens);
+        // 独占一段的块级公式和图片居中显示
+        const isBlockFormula = /^(\$\$[\s\S]*\$\$|\\\[[\s\S]*\\\])$/.test(paragraphText.trim());
+        const isStandaloneImage = paragraphTokens?.length === 1 && paragraphTokens[0].type === 'image';
+        // 段落间距、行距与对齐来自主题的 Normal 样式，首行缩进只用于正文段落；
+        // 公式和图片使用单倍自动行距，避免被固定行距（如公文主题）截成一行高
         docxElements.push(new Paragraph({
           children: paragraphRuns,
-          spacing: { before: 60, after: 60, line: 336 },
-          alignment: AlignmentType.LEFT
+          ...(isBlockFormula || isStandaloneImage
+            ? { alignment: AlignmentType.CENTER, spacing: { line: 240, lineRule: LineRuleType.AUTO } }
+            : theme.body.firstLineIndent ? { indent: { firstLine: theme.body.firstLineIndent } } : {}),
         }));
         break;
 
       case 'list':
-        for (const item of token.items) {
-          const itemRuns = await processMixedContent(item.text, item.tokens);
-          docxElements.push(new Paragraph({
-            children: itemRuns,
-            bullet: { level: 0 },
-            spacing: { before: 40, after: 40 },
-            alignment: AlignmentType.LEFT
-          }));
-        }
+        docxElements.push(...await processList(token, 0));
         break;
 
       case 'code':
-        // 检查是否为 Mermaid 代码块
-        if (token.lang === 'mermaid') {
-          const cacheKey = token.text.trim();
-          let imageData = mermaidImageCache.get(cacheKey);
+        // 检查是否为图表代码块（Mermaid、Graphviz 等，信息字符串可带宽度，如 mermaid width=80%）
+        const diagramInfo = parseDiagramInfo(token.lang);
+        if (diagramInfo) {
+          const code = token.text.trim();
+          const cacheKey = `${diagramInfo.renderer.id}:${code}`;
+          let imageData = diagramImageCache.get(cacheKey);
 
           if (imageData === undefined) {
-            imageData = await renderMermaidToImage(cacheKey);
-            mermaidImageCache.set(cacheKey, imageData);
+            imageData = await renderDiagramToEmbeddedImage(code, diagramInfo, exportOptions);
+            diagramImageCache.set(cacheKey, imageData);
           }
 
           if (imageData) {
-            // 将 Base64 转换为 Uint8Array
-            const binaryString = window.atob(imageData.base64);
-            const bytes = new Uint8Array(binaryString.length);
-            for (let i = 0; i < binaryString.length; i++) {
-              bytes[i] = binaryString.charCodeAt(i);
-            }
-
-            // 计算图片尺寸，保持宽高比，最大宽度550px
-            const maxWidth = 550;
-            const minWidth = 400; // 确保小图也被放大显示
-            let displayWidth = imageData.width;
-            let displayHeight = imageData.height;
-
-            if (displayWidth > maxWidth) {
-              const scale = maxWidth / displayWidth;
-              displayWidth = maxWidth;
-              displayHeight = Math.round(displayHeight * scale);
-            } else if (displayWidth < minWidth) {
-              // 放大图片以提高可读性 (因为我们有 4x 的高分辨率源图，放大很安全)
-              const scale = minWidth / displayWidth;
-              // 再次检查放大后是否超过 maxWidth (虽然理论上 minWidth < maxWidth，但为了健壮性)
-              const finalWidth = Math.min(minWidth, maxWidth);
-              const finalScale = finalWidth / displayWidth;
-
-              displayWidth = finalWidth;
-              displayHeight = Math.round(displayHeight * finalScale);
-            }
+            // 按代码块指定的宽度或设置中的最大宽度缩放，保持宽高比
+            const displayWidth = Math.round(resolveDiagramWidth(imageData.width, printableWidth / TWIPS_PER_PIXEL, diagramInfo, exportOptions.diagramMaxWidth));
+            const displayHeight = Math.round(imageData.height * displayWidth / imageData.width);
 
             // 添加图片到文档
             docxElements.push(new Paragraph({
-              children: [
-                new ImageRun({
-                  data: bytes,
-                  transformation: {
-                    width: displayWidth,
-                    height: displayHeight,
-                  },
-                  type: 'png',
-                }),
-              ],
-              spacing: { before: 120, after: 120 },
+              children: [createEmbeddedImageRun(imageData, displayWidth, displayHeight)],
+              spacing: { before: 120, after: 120, line: 240, lineRule: LineRuleType.AUTO },
               alignment: AlignmentType.CENTER,
             }));
           } else {
             // 如果渲染失败，显示代码文本
-            const codeLines = token.text.split('\n');
-            codeLines.forEach((line: string) => {
-              docxElements.push(new Paragraph({
-                children: [new TextRun({
-                  text: line,
-                  font: "Courier New",
-                  size: 20
-                })],
-                shading: {
-                  type: ShadingType.CLEAR,
-                  fill: COLORS.CODE_BG,
-                },
-                alignment: AlignmentType.LEFT
-              }));
-            });
+            docxElements.push(...processCodeBlock(token.text, token.lang));
           }
         } else {
-          const codeLines = token.text.split('\n');
-          codeLines.forEach((line: string) => {
-            docxElements.push(new Paragraph({
-              children: [new TextRun({
-                text: line,
-                font: "Courier New",
-                size: 20
-              })],
-              shading: {
-                type: ShadingType.CLEAR,
-                fill: COLORS.CODE_BG,
-              },
-              alignment: AlignmentType.LEFT
-            }));
-          });
+          docxElements.push(...processCodeBlock(token.text, token.lang));
         }
         break;
 
       case 'table':
-        const tableRows: TableRow[] = [];
-
-        // 计算智能列宽
-        const columnWidths = calculateColumnWidths(token);
-
-        // Header
-        const headerCells = await Promise.all(token.header.map(async (cell: any, colIndex: number) => {
-          const cellRuns = await processMixedContent(cell.text, cell.tokens, { bold: true, size: 16 });
-          return new TableCell({
-            children: [new Paragraph({
-              children: cellRuns,
-              spacing: { before: 20, after: 20, line: 240 },
-              alignment: AlignmentType.LEFT
-            })],
-            shading: { fill: "FFFFFF", type: ShadingType.CLEAR },
-            margins: { top: 50, bottom: 50, left: 80, right: 80 },
-            width: { size: columnWidths[colIndex], type: WidthType.DXA },
-            verticalAlign: "center",
-            borders: {
-              top: { style: BorderStyle.SINGLE, size: 1, color: COLORS.BORDER_COLOR },
-              bottom: { style: BorderStyle.SINGLE, size: 1, color: COLORS.BORDER_COLOR },
-              left: { style: BorderStyle.NONE, size: 0, color: "auto" },
-              right: { style: BorderStyle.NONE, size: 0, color: "auto" },
-            }
-          });
-        }));
-        tableRows.push(new TableRow({ children: headerCells }));
-
-        // Rows
-        for (const row of token.rows) {
-          const cells = await Promise.all(row.map(async (cell: any, colIndex: number) => {
-            const cellRuns = await processMixedContent(cell.text, cell.tokens, { size: 16 });
-            return new TableCell({
-              children: [new Paragraph({
-                children: cellRuns,
-                spacing: { before: 20, after: 20, line: 240 },
-                alignment: AlignmentType.LEFT
-              })],
-              shading: {
-                fill: "FFFFFF",
-                type: ShadingType.CLEAR
-              },
-              margins: { top: 50, bottom: 50, left: 80, right: 80 },
-              width: { size: columnWidths[colIndex], type: WidthType.DXA },
-              verticalAlign: "center",
-              borders: {
-                top: { style: BorderStyle.SINGLE, size: 1, color: COLORS.BORDER_COLOR },
-                bottom: { style: BorderStyle.SINGLE, size: 1, color: COLORS.BORDER_COLOR },
-                left: { style: BorderStyle.NONE, size: 0, color: "auto" },
-                right: { style: BorderStyle.NONE, size: 0, color: "auto" },
-              }
-            });
-          }));
-          tableRows.push(new TableRow({ children: cells }));
-        }
+        docxElements.push(...await processTable(token));
+        break;
 
-        docxElements.push(new Table({
-          rows: tableRows,
-          width: { size: 10466, type: WidthType.DXA },
-          borders: {
-            top: { style: BorderStyle.SINGLE, size: 1, color: COLORS.BORDER_COLOR },
-            bottom: { style: BorderStyle.SINGLE, size: 1, color: COLORS.BORDER_COLOR },
-            left: { style: BorderStyle.NONE, size: 0, color: "auto" },
-            right: { style: BorderStyle.NONE, size: 0, color: "auto" },
-            insideHorizontal: { style: BorderStyle.SINGLE, size: 1, color: COLORS.BORDER_COLOR },
-            insideVertical: { style: BorderStyle.NONE, size: 0, color: "auto" },
+      case 'html':
+        // 表格转换为原生表格；表格前后的 <div>、<p>、<details> 等块级 HTML 按段落输出，注释等不可见内容忽略
+        for (const part of splitHtmlTables(token.text)) {
+          if (part.type === 'table') {
+            docxElements.push(...await processHtmlTable(part.table));
+            continue;
           }
-        }));
-        docxElements.push(new Paragraph({ text: "" }));
+          for (const segments of htmlToParagraphs(part.html)) {
+            docxElements.push(new Paragraph({ children: createHtmlRuns(segments) }));
+          }
+        }
+        break;
+
+      case 'blockquote':
+        docxElements.push(...await processBlockquote(token));
+        break;
+
+      case 'references':
+        docxElements.push(...processReferences(token.entries));
         break;
 
       case 'space':
@@ -636,7 +1081,7 @@ const processTokens = async (tokens: any[]): Promise<any[]> => {
           text: "",
           border: {
             bottom: {
-              color: COLORS.BORDER_COLOR,
+              color: theme.colors.border,
               space: 1,
               style: BorderStyle.SINGLE,
               size: 6
@@ -652,70 +1097,221 @@ const processTokens = async (tokens: any[]): Promise<any[]> => {
     }
   }
 
-  console.log(`[processTokens] Completed ${totalTokens} tokens, cache stats - mermaid: ${mermaidImageCache.size}, formula: ${formulaImageCache.size}`);
+  console.log(`[processTokens] Completed ${totalTokens} tokens, cache stats - diagram: ${diagramImageCache.size}, formula: ${formulaImageCache.size}`);
   return docxElements;
 };
 
-export const generateWordDocument = async (markdownText: string): Promise<Blob> => {
-  // 清空缓存
-  mermaidImageCache.clear();
-  formulaImageCache.clear();
+const createRunFont = (font: ThemeFont) => ({
+  ascii: font.latin,
+  hAnsi: font.latin,
+  cs: font.latin,
+  eastAsia: font.eastAsia,
+  hint: "eastAsia"
+});
+
+// 由主题生成标题样式，标题段落只引用样式，方便在 Word 中统一修改
+const createHeadingStyle = (level: number, style: ThemeHeadingStyle): IParagraphStyleOptions => ({
+  id: `Heading${level}`,
+  name: `Heading ${level}`,
+  basedOn: "Normal",
+  next: "Normal",
+  quickFormat: true,
+  run: {
+    font: createRunFont(style.font),
+    size: style.size,
+    bold: style.bold,
+    color: style.color
+  },
+  paragraph: {
+    alignment: style.alignment === 'center' ? AlignmentType.CENTER : AlignmentType.LEFT,
+    spacing: style.spacing,
+    outlineLevel: level - 1,
+    indent: { firstLine: style.firstLineIndent },
+    keepNext: true,
+    border: style.bottomBorder
+      ? { bottom: { color: theme.colors.border, space: 4, style: BorderStyle.SINGLE, size: 6 } }
+      : undefined
+  }
+});
+
+const PAGE_NUMBER_FORMATS: Record<PageNumberFormat, (typeof NumberFormat)[keyof typeof NumberFormat]> = {
+  decimal: NumberFormat.DECIMAL,
+  dash: NumberFormat.NUMBER_IN_DASH,
+  roman: NumberFormat.UPPER_ROMAN,
+  chinese: NumberFormat.CHINESE_COUNTING,
+};
 
-  // 1. 去除多余的缩进 (Smart Dedent)
-  const lines = markdownText.split('\n');
-  let minIndent = Infinity;
-  let hasNonEmptyLine = false;
-
-  for (const line of lines) {
-    if (line.trim().length > 0) {
-      hasNonEmptyLine = true;
-      const indent = line.match(/^\s*/)?.[0].length || 0;
-      if (indent < minIndent) {
-        minIndent = indent;
+// 页眉页脚中可用的占位符
+interface HeaderFooterFields {
+  title: string;
+  date: string;
+}
+
+const createHeaderFooterParagraph = (template: string, fields: HeaderFooterFields, isHeader: boolean, pagesInSection: boolean): Paragraph => {
+  const runOptions = { size: 18, color: theme.body.color };
+  return new Paragraph({
+    children: template.split(/(\{(?:title|date|page|pages)\})/).filter(Boolean).map(part => {
+      switch (part) {
+        case '{title}':
+          return new TextRun({ ...runOptions, text: fields.title });
+        case '{date}':
+          return new TextRun({ ...runOptions, text: fields.date });
+        case '{page}':
+          return new TextRun({ ...runOptions, children: [PageNumber.CURRENT] });
+        case '{pages}':
+          // 封面单独成节，正文只有一节时总页数只统计正文
+          return new TextRun({ ...runOptions, children: [pagesInSection ? PageNumber.TOTAL_PAGES_IN_SECTION : PageNumber.TOTAL_PAGES] });
+        default:
+          return new TextRun({ ...runOptions, text: part });
       }
-    }
+    }),
+    alignment: AlignmentType.CENTER,
+    // 页眉页脚不使用正文的首行缩进和固定行距
+    indent: { firstLine: 0 },
+    spacing: { before: 0, after: 0, line: 240, lineRule: LineRuleType.AUTO },
+    border: isHeader
+      ? { bottom: { color: theme.colors.border, space: 4, style: BorderStyle.SINGLE, size: 6 } }
+      : undefined,
+  });
+};
+
+// 正文节的页眉页脚；首页不同时首页使用空白页眉页脚
+const createHeadersAndFooters = (fields: HeaderFooterFields, pagesInSection: boolean): Pick<ISectionOptions, 'headers' | 'footers'> => {
+  const { headerText, footerText, differentFirstPage } = exportOptions;
+  const blank = () => [new Paragraph({})];
+
+  return {
+    headers: headerText.trim() ? {
+      default: new Header({ children: [createHeaderFooterParagraph(headerText, fields, true, pagesInSection)] }),
+      first: differentFirstPage ? new Header({ children: blank() }) : undefined,
+    } : undefined,
+    footers: footerText.trim() ? {
+      default: new Footer({ children: [createHeaderFooterParagraph(footerText, fields, false, pagesInSection)] }),
+      first: differentFirstPage ? new Footer({ children: blank() }) : undefined,
+    } : undefined,
+  };
+};
+
+// 封面：标题、作者、日期在页面中垂直居中
+const createCoverPage = (titleToken: any, fields: HeaderFooterFields): Paragraph[] => {
+  const titleStyle = theme.headings[0];
+  const titleRuns = createHeadingRuns(titleToken.text, {
+    bold: true,
+    size: Math.round(titleStyle.size * 1.5),
+    color: titleStyle.color,
+    font: createRunFont(titleStyle.font),
+  });
+  const metadata = [exportOptions.coverAuthor.trim(), fields.date].filter(Boolean);
+
+  return [
+    new Paragraph({
+      children: titleToken.bookmark ? [new Bookmark({ id: titleToken.bookmark, children: titleRuns })] : titleRuns,
+      alignment: AlignmentType.CENTER,
+      indent: { firstLine: 0 },
+      spacing: { before: 0, after: 720, line: 240, lineRule: LineRuleType.AUTO },
+    }),
+    ...metadata.map(text => new Paragraph({
+      children: [new TextRun({ text, size: theme.body.size + 4 })],
+      alignment: AlignmentType.CENTER,
+      indent: { firstLine: 0 },
+      spacing: { before: 0, after: 120 },
+    })),
+  ];
+};
+
+export const generateWordDocument = async (
+  markdownText: string,
+  options: Partial<WordExportOptions> = {}
+): Promise<Blob> => {
+  // 清空缓存
+  diagramImageCache.clear();
+  formulaImageCache.clear();
+  markdownImageCache.clear();
+  listNumberingConfigs = [];
+  documentFootnotes = {};
+  footnoteIds = new Map();
+  exportOptions = { ...DEFAULT_EXPORT_OPTIONS, ...options };
+  theme = getDocumentTheme(exportOptions.themeId);
+  pageLayout = resolvePageLayout(exportOptions);
+
+  // 预处理并解析 Markdown（脚注与参考文献已取出）
+  const { tokens, footnotes, references } = prepareMarkdownTokens(markdownText, exportOptions.referenceCitations, exportOptions.repairs);
+  footnoteDefinitions = footnotes;
+  referenceNumbers = new Set(references.map(entry => entry.number));
+  assignHeadingBookmarks(tokens);
+  const documentTitle = findDocumentTitle(tokens);
+  const headingDepths = tokens.filter(token => token.type === 'heading').map(token => token.depth);
+  headingStartLevel = documentTitle ? documentTitle.depth + 1 : (headingDepths.length > 0 ? Math.min(...headingDepths) : 1);
+  await preloadImages(tokens);
+
+  // 封面使用第一个一级标题，正文中不再重复
+  const firstH1 = tokens.find(token => token.type === 'heading' && token.depth === 1);
+  const coverTitle = exportOptions.coverPage ? firstH1 : undefined;
+  const fields: HeaderFooterFields = {
+    title: firstH1 ? getPlainText(firstH1).trim() : '',
+    date: exportOptions.coverDate.trim() || formatDocumentDate(new Date()),
+  };
+
+  // 每个方向段落单独成节，按该节的可打印宽度排版表格和图片
+  const segments = splitByOrientation(
+    coverTitle ? tokens.filter(token => token !== coverTitle) : tokens,
+    exportOptions.orientation,
+    exportOptions.autoLandscapeTables
+  );
+  const segmentElements: any[][] = [];
+  for (const segment of segments) {
+    printableWidth = getPrintableWidth(pageLayout, segment.landscape);
+    segmentElements.push(await processTokens(segment.tokens));
+  }
+  if (exportOptions.tableOfContents) {
+    // 有文档标题时目录放在标题之后
+    segmentElements[0].splice(documentTitle && documentTitle !== coverTitle ? 1 : 0, 0, ...createTableOfContents());
   }
 
-  let dedentedText = markdownText;
-  if (hasNonEmptyLine && minIndent > 0 && minIndent !== Infinity) {
-    dedentedText = lines.map(line => {
-      if (line.length >= minIndent) {
-        return line.substring(minIndent);
-      }
-      return line;
-    }).join('\n');
-  }
-
-  // 2. Normalize whitespace (preserve fences, collapse multiple spaces in prose)
-  const normalizedMarkdown = dedentedText
-    .split('\n')
-    .map(line => {
-      // Don't touch code fence markers
-      if (line.trim().startsWith('```')) return line;
-      // Normalize all other lines: replace multiple spaces/tabs/fullwidth spaces with single space
-      return line.replace(/[ \t\u3000\u00A0]+/g, ' ');
-    })
-    .join('\n');
-
-  // 使用 lexer 并在调用时传递选项，避免全局配置冲突
-  const tokens = marked.lexer(normalizedMarkdown, {
-    gfm: true,
-    breaks: true
+  const createPage = (landscape: boolean) => ({
+    size: {
+      width: pageLayout.width,
+      height: pageLayout.height,
+      orientation: landscape ? PageOrientation.LANDSCAPE : PageOrientation.PORTRAIT,
+    },
+    margin: pageLayout.margin,
   });
-  const docElements = await processTokens(tokens);
+  const sections: ISectionOptions[] = [];
+  if (coverTitle) {
+    sections.push({
+      properties: { page: createPage(exportOptions.orientation === 'landscape'), verticalAlign: VerticalAlignSection.CENTER },
+      children: createCoverPage(coverTitle, fields),
+    });
+  }
+  // 页眉页脚、起始页码和首页不同只设置在第一个正文节，后续节沿用
+  const pageNumberFormat = PAGE_NUMBER_FORMATS[exportOptions.pageNumberFormat];
+  segments.forEach((segment, index) => sections.push({
+    properties: {
+      page: {
+        ...createPage(segment.landscape),
+        pageNumbers: index === 0 ? { start: 1, formatType: pageNumberFormat } : { formatType: pageNumberFormat },
+      },
+      titlePage: index === 0 && exportOptions.differentFirstPage,
+    },
+    ...(index === 0 ? createHeadersAndFooters(fields, !!coverTitle && segments.length === 1) : {}),
+    children: segmentElements[index],
+  }));
 
   const doc = new Document({
+    features: {
+      updateFields: exportOptions.tableOfContents,
+    },
+    numbering: {
+      config: exportOptions.headingNumbering ? [createHeadingNumbering(), ...listNumberingConfigs] : listNumberingConfigs,
+    },
+    footnotes: documentFootnotes,
     styles: {
       default: {
         document: {
           run: {
-            font: {
-              name: "Calibri",
-              eastAsia: "Microsoft YaHei",
-              hint: "eastAsia"
-            },
-            size: 22, // 11pt
-            color: "374151"
+            font: createRunFont(theme.body.font),
+            size: theme.body.size,
+            color: theme.body.color
           }
         }
       },
@@ -726,119 +1322,26 @@ export const generateWordDocument = async (markdownText: string): Promise<Blob>
           next: "Normal",
           quickFormat: true,
           run: {
-            font: {
-              name: "Calibri",
-              eastAsia: "Microsoft YaHei",
-              hint: "eastAsia"
-            },
-            size: 22, // 11pt
-            color: "374151"
-          },
-          paragraph: {
-            alignment: AlignmentType.LEFT,
-            spacing: { before: 60, after: 60, line: 336 }
-          }
-        },
-        {
-          id: "Heading1",
-          name: "Heading 1",
-          basedOn: "Normal",
-          next: "Normal",
-          quickFormat: true,
-          run: {
-            size: 32, // 16pt
-            bold: true,
-            color: COLORS.H1,
-            font: {
-              name: "Calibri",
-              eastAsia: "Microsoft YaHei",
-              hint: "eastAsia"
-            }
-          },
-          paragraph: {
-            alignment: AlignmentType.LEFT,
-            spacing: { before: 200, after: 100 },
-          },
-        },
-        {
-          id: "Heading2",
-          name: "Heading 2",
-          basedOn: "Normal",
-          next: "Normal",
-          quickFormat: true,
-          run: {
-            size: 28, // 14pt
-            bold: true,
-            color: COLORS.H2,
-            font: {
-              name: "Calibri",
-              eastAsia: "Microsoft YaHei",
-              hint: "eastAsia"
-            }
+            font: createRunFont(theme.body.font),
+            size: theme.body.size,
+            color: theme.body.color
           },
           paragraph: {
-            alignment: AlignmentType.LEFT,
-            spacing: { before: 150, after: 75 },
-          },
-        },
-        {
-          id: "Heading3",
-          name: "Heading 3",
-          basedOn: "Normal",
-          next: "Normal",
-          quickFormat: true,
-          run: {
-            size: 24, // 12pt
-            bold: true,
-            color: COLORS.H3,
-            font: {
-              name: "Calibri",
-              eastAsia: "Microsoft YaHei",
-              hint: "eastAsia"
+            alignment: theme.body.alignment === 'justify' ? AlignmentType.JUSTIFIED : AlignmentType.LEFT,
+            spacing: {
+              ...theme.body.spacing,
+              lineRule: theme.body.exactLineSpacing ? LineRuleType.EXACT : LineRuleType.AUTO
             }
-          },
-          paragraph: {
-            alignment: AlignmentType.LEFT,
-            spacing: { before: 120, after: 60 },
-          },
+          }
         },
-        {
-          id: "Heading4",
-          name: "Heading 4",
-          basedOn: "Normal",
-          next: "Normal",
-          quickFormat: true,
-          run: {
-            size: 22, // 11pt
-            bold: true,
-            color: "374151",
-            font: {
-              name: "Calibri",
-              eastAsia: "Microsoft YaHei",
-              hint: "eastAsia"
-            }
-          },
-          paragraph: {
-            alignment: AlignmentType.LEFT,
-            spacing: { before: 100, after: 50 },
-          },
-        }
+        ...theme.headings.map((style, index) => createHeadingStyle(index + 1, style))
       ]
     },
-    sections: [{
-      properties: {
-        page: {
-          margin: {
-            top: 720,
-            right: 720,
-            bottom: 720,
-            left: 720,
-          },
-        },
-      },
-      children: docElements,
-    }],
+    sections,
   });
 
-  return await Packer.toBlob(doc);
+  const blob = await Packer.toBlob(doc);
+  return exportOptions.referenceTemplate
+    ? await applyReferenceTemplate(blob, exportOptions.referenceTemplate)
+    : blob;
 };
@@ -0,0 +1,120 @@
+/**
+ * 本地草稿：编辑器内容自动保存到 IndexedDB（未登录、离线时同样可用），并支持命名的版本快照。
+ * 登录用户的草稿另外同步一份到 Supabase drafts 表，便于换设备继续编辑
+ */
+
+import { supabase } from './supabase';
+
+const DB_NAME = 'ai2word';
+const DB_VERSION = 1;
+const DRAFT_STORE = 'draft';
+const SNAPSHOT_STORE = 'snapshots';
+// 草稿只有一份，固定主键
+const CURRENT_DRAFT_KEY = 'current';
+// 自动快照过多时只保留最近的若干个，命名快照不受影响
+const MAX_AUTO_SNAPSHOTS = 20;
+
+export interface Draft {
+  content: string;
+  // 毫秒时间戳
+  updatedAt: number;
+}
+
+export interface DraftSnapshot {
+  id: number;
+  name: string;
+  content: string;
+  createdAt: number;
+  // 清空前等操作自动创建的快照
+  auto: boolean;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(DRAFT_STORE)) db.createObjectStore(DRAFT_STORE);
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+          db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id', autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        // 允许下次重试（例如隐私模式下暂时不可用）
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// 在单个对象仓库上执行一次请求
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest,
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = createRequest(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const loadDraft = async (): Promise<Draft | null> =>
+  (await runRequest<Draft | undefined>(DRAFT_STORE, 'readonly', store => store.get(CURRENT_DRAFT_KEY))) ?? null;
+
+export const saveDraft = async (content: string): Promise<Draft> => {
+  const draft: Draft = { content, updatedAt: Date.now() };
+  await runRequest(DRAFT_STORE, 'readwrite', store => store.put(draft, CURRENT_DRAFT_KEY));
+  return draft;
+};
+
+/**
+ * 按创建时间倒序列出快照
+ */
+export const listSnapshots = async (): Promise<DraftSnapshot[]> => {
+  const snapshots = await runRequest<DraftSnapshot[]>(SNAPSHOT_STORE, 'readonly', store => store.getAll());
+  return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const saveSnapshot = async (name: string, content: string, auto = false): Promise<void> => {
+  await runRequest(SNAPSHOT_STORE, 'readwrite', store => store.add({ name, content, createdAt: Date.now(), auto }));
+  if (auto) {
+    const autoSnapshots = (await listSnapshots()).filter(snapshot => snapshot.auto);
+    await Promise.all(autoSnapshots.slice(MAX_AUTO_SNAPSHOTS).map(snapshot => deleteSnapshot(snapshot.id)));
+  }
+};
+
+export const deleteSnapshot = async (id: number): Promise<void> => {
+  await runRequest(SNAPSHOT_STORE, 'readwrite', store => store.delete(id));
+};
+
+/**
+ * 读取云端草稿（没有时返回 null）
+ */
+export const fetchCloudDraft = async (userId: string): Promise<Draft | null> => {
+  const { data, error } = await supabase
+    .from('drafts')
+    .select('content, updated_at')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? { content: data.content, updatedAt: new Date(data.updated_at).getTime() } : null;
+};
+
+export const saveCloudDraft = async (userId: string, draft: Draft): Promise<void> => {
+  const { error } = await supabase.from('drafts').upsert({
+    user_id: userId,
+    content: draft.content,
+    updated_at: new Date(draft.updatedAt).toISOString(),
+  });
+  if (error) throw error;
+};
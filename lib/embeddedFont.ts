@@ -0,0 +1,49 @@
+/**
+ * 随应用一起部署的中文字体：固定版本的 Noto Sans SC 常规体（静态 TrueType，同时包含西文字形），
+ * 作为静态资源从同源地址读取，不依赖外部 CDN。
+ * PDF 导出嵌入该字体；嵌入 Word、ODT 的图表按该字体排版，文字转为轮廓，在没有中文字体的电脑上也能显示
+ */
+
+import type { Font } from 'opentype.js';
+import EMBEDDED_FONT_URL from '@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf?url';
+
+// 注册为网页字体时的名称
+export const EMBEDDED_FONT = 'AI2WordSans';
+
+let fontDataPromise: Promise<ArrayBuffer> | null = null;
+let fontOutlinesPromise: Promise<Font> | null = null;
+
+/**
+ * 读取字体文件，只下载一次；同时注册为网页字体，图表渲染时按同一字体测量文字宽度
+ */
+export const loadEmbeddedFont = (): Promise<ArrayBuffer> => {
+  if (!fontDataPromise) {
+    fontDataPromise = (async () => {
+      const response = await fetch(EMBEDDED_FONT_URL);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const buffer = await response.arrayBuffer();
+      document.fonts.add(await new FontFace(EMBEDDED_FONT, buffer).load());
+      return buffer;
+    })().catch(error => {
+      // 允许下次导出时重试
+      fontDataPromise = null;
+      throw error;
+    });
+  }
+  return fontDataPromise;
+};
+
+/**
+ * 解析字体中的字形轮廓，用于把图表文字转为路径（解析库按需加载）
+ */
+export const loadEmbeddedFontOutlines = (): Promise<Font> => {
+  if (!fontOutlinesPromise) {
+    fontOutlinesPromise = Promise.all([loadEmbeddedFont(), import('opentype.js')])
+      .then(([buffer, opentype]) => opentype.parse(buffer))
+      .catch(error => {
+        fontOutlinesPromise = null;
+        throw error;
+      });
+  }
+  return fontOutlinesPromise;
+};
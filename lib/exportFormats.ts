@@ -0,0 +1,47 @@
+/**
+ * 可下载的文件格式：下载按钮旁的格式选择、文件名扩展名与上传到 Storage 时的 MIME 类型
+ */
+
+import { ExportFormat } from '../types';
+
+export interface ExportFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+  description: string;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  docx: {
+    label: 'Word',
+    extension: 'docx',
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    description: '可编辑的 Word 文档，公式为原生公式',
+  },
+  pdf: {
+    label: 'PDF',
+    extension: 'pdf',
+    mimeType: 'application/pdf',
+    description: '分页排版，公式与图表为矢量图（首次使用需下载中文字体）',
+  },
+  html: {
+    label: 'HTML',
+    extension: 'html',
+    mimeType: 'text/html',
+    description: '单个网页文件，样式、公式和图表均内嵌，可离线打开',
+  },
+  odt: {
+    label: 'ODT',
+    extension: 'odt',
+    mimeType: 'application/vnd.oasis.opendocument.text',
+    description: 'OpenDocument 文档，适用于 LibreOffice、WPS',
+  },
+  markdown: {
+    label: 'Markdown',
+    extension: 'zip',
+    mimeType: 'application/zip',
+    description: '整理后的 Markdown，图表与块级公式导出为图片一并打包',
+  },
+};
+
+export const EXPORT_FORMAT_ORDER: ExportFormat[] = ['docx', 'pdf', 'html', 'odt', 'markdown'];
@@ -0,0 +1,58 @@
+/**
+ * 导入本地文件：.md / .markdown / .txt 直接读取，.html / .htm 转换为 Markdown
+ */
+
+import { htmlToMarkdown } from './htmlToMarkdown';
+
+export const IMPORT_ACCEPT = '.md,.markdown,.txt,.html,.htm,text/markdown,text/plain,text/html';
+
+// 超过该大小时提示用户确认（预览和导出都会明显变慢）
+export const LARGE_FILE_SIZE = 1024 * 1024;
+// 超过该大小直接拒绝，避免浏览器卡死
+export const MAX_FILE_SIZE = 20 * 1024 * 1024;
+
+type ImportFormat = 'markdown' | 'text' | 'html';
+
+const getImportFormat = (file: File): ImportFormat | null => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  if (extension === 'md' || extension === 'markdown') return 'markdown';
+  if (extension === 'txt') return 'text';
+  if (extension === 'html' || extension === 'htm') return 'html';
+  if (file.type === 'text/html') return 'html';
+  if (file.type === 'text/markdown') return 'markdown';
+  if (file.type === 'text/plain') return 'text';
+  return null;
+};
+
+/**
+ * 检查文件是否为支持导入的类型
+ */
+export const isImportableFile = (file: File): boolean => getImportFormat(file) !== null;
+
+// 按 BOM 识别 UTF-16，其余先按 UTF-8 严格解码，失败时回退 GB18030（Windows 下保存的中文文本）
+const decodeText = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) return new TextDecoder('utf-16le').decode(bytes);
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) return new TextDecoder('utf-16be').decode(bytes);
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('gb18030').decode(bytes);
+  }
+};
+
+/**
+ * 读取导入的文件并返回 Markdown 内容
+ */
+export const readImportFile = async (file: File): Promise<string> => {
+  const format = getImportFormat(file);
+  if (!format) {
+    throw new Error('仅支持导入 .md、.txt 或 .html 文件');
+  }
+  if (file.size > MAX_FILE_SIZE) {
+    throw new Error(`文件超过 ${MAX_FILE_SIZE / 1024 / 1024}MB，无法导入`);
+  }
+
+  const text = decodeText(await file.arrayBuffer()).replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  return format === 'html' ? htmlToMarkdown(text) : text;
+};
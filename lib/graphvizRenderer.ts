@@ -0,0 +1,39 @@
+/**
+ * Graphviz DOT 图表：在浏览器中用 Graphviz 的 WebAssembly 版本渲染为 SVG
+ * （WebAssembly 模块体积较大，文档中出现 DOT 代码块时才加载）
+ */
+
+import type { Viz } from '@viz-js/viz';
+import { SvgDiagram, toSvgDiagram } from './svgImage';
+
+// Graphviz SVG 的单位为 pt
+const PX_PER_PT = 96 / 72;
+
+// WebAssembly 模块只初始化一次
+let vizInstance: Promise<Viz> | null = null;
+
+/**
+ * 渲染 DOT 代码；图中未设置 fontname 时使用 fontFamily。语法错误时抛出异常
+ */
+export const renderGraphvizToSvg = async (code: string, fontFamily: string): Promise<SvgDiagram> => {
+  if (!vizInstance) {
+    vizInstance = import('@viz-js/viz').then(module => module.instance()).catch(error => {
+      // 允许下次渲染时重试
+      vizInstance = null;
+      throw error;
+    });
+  }
+  const viz = await vizInstance;
+
+  // fontname 原样写入 SVG 的 font-family，去掉引号避免被转义
+  const fontname = fontFamily.replace(/"/g, '');
+  const svg = viz.renderSVGElement(code, {
+    graphAttributes: { fontname },
+    nodeAttributes: { fontname },
+    edgeAttributes: { fontname },
+  });
+
+  const diagram = toSvgDiagram(svg, PX_PER_PT);
+  if (!diagram) throw new Error('Graphviz 输出的 SVG 无效');
+  return diagram;
+};
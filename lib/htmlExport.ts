@@ -0,0 +1,159 @@
+/**
+ * HTML 导出：以预览 HTML（公式为 KaTeX、图表已渲染为 SVG）为正文，
+ * 内联预览使用的 .prose 主题样式、KaTeX 样式及其字体，生成可离线打开、可打印的单个网页文件
+ */
+
+import { applyDiagramWidth, parseDiagramInfo, renderDiagramToHtml } from './diagramRenderers';
+import { getDocumentTheme, getThemeCssVariables } from './documentThemes';
+import { resolvePageLayout } from './pageSetup';
+import { DEFAULT_EXPORT_OPTIONS, WordExportOptions } from '../types';
+
+// 只收集与导出内容有关的样式规则，应用界面的 Tailwind 样式不需要
+const EXPORTED_SELECTORS = /\.prose|\.katex|\.mermaid/;
+
+let fontCssPromise: Promise<string> | null = null;
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+const getStyleSheetRules = (sheet: CSSStyleSheet): CSSRule[] => {
+  try {
+    return Array.from(sheet.cssRules);
+  } catch {
+    // 跨域样式表（如网页字体）无法读取
+    return [];
+  }
+};
+
+// KaTeX 字体转为 data URI 内嵌（只取 woff2，所有现代浏览器都支持）
+const inlineFontFace = async (rule: CSSFontFaceRule, baseUrl: string): Promise<string | null> => {
+  const source = rule.style.getPropertyValue('src').match(/url\(["']?([^"')]+\.woff2)["']?\)/);
+  if (!source) return null;
+
+  try {
+    const response = await fetch(new URL(source[1], baseUrl).href);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const dataUrl = await blobToDataUrl(new Blob([await response.arrayBuffer()], { type: 'font/woff2' }));
+    const descriptors = ['font-family', 'font-style', 'font-weight']
+      .map(name => rule.style.getPropertyValue(name) ? `${name}:${rule.style.getPropertyValue(name)};` : '')
+      .join('');
+    return `@font-face{${descriptors}src:url(${dataUrl}) format("woff2");}`;
+  } catch (error) {
+    console.warn('[HtmlExport] Failed to inline font:', source[1], error);
+    return null;
+  }
+};
+
+// 字体只内联一次，之后的导出直接复用
+const collectFontCss = (): Promise<string> => {
+  if (!fontCssPromise) {
+    const fontRules = Array.from(document.styleSheets).flatMap(sheet => getStyleSheetRules(sheet)
+      .filter((rule): rule is CSSFontFaceRule => rule instanceof CSSFontFaceRule && /KaTeX/.test(rule.style.getPropertyValue('font-family')))
+      .map(rule => ({ rule, baseUrl: sheet.href ?? document.baseURI })));
+    fontCssPromise = Promise.all(fontRules.map(({ rule, baseUrl }) => inlineFontFace(rule, baseUrl)))
+      .then(faces => faces.filter(Boolean).join('\n'));
+  }
+  return fontCssPromise;
+};
+
+const collectStyleCss = (): string => Array.from(document.styleSheets)
+  .flatMap(sheet => getStyleSheetRules(sheet))
+  .filter(rule => rule instanceof CSSStyleRule && EXPORTED_SELECTORS.test(rule.selectorText))
+  .map(rule => rule.cssText)
+  .join('\n');
+
+const escapeHtml = (text: string): string => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// 预览中尚未渲染的图表代码块（如从历史记录重新生成时）在这里渲染为 SVG，渲染失败的保留为代码
+const renderPendingDiagrams = async (container: HTMLElement, options: WordExportOptions): Promise<void> => {
+  const blocks = Array.from(container.querySelectorAll<HTMLElement>('pre[data-info] > code'));
+  for (const code of blocks) {
+    const pre = code.parentElement!;
+    const info = parseDiagramInfo(pre.dataset.info);
+    if (!info) continue;
+
+    const wrapper = document.createElement('div');
+    wrapper.className = 'mermaid-rendered';
+    try {
+      wrapper.innerHTML = await renderDiagramToHtml(code.textContent?.trim() || '', info, options);
+    } catch (error) {
+      console.error(`Failed to render ${info.renderer.name} diagram:`, error);
+      continue;
+    }
+    const svg = wrapper.querySelector('svg');
+    if (svg) applyDiagramWidth(svg, info, options.diagramMaxWidth);
+    pre.replaceWith(wrapper);
+  }
+};
+
+const twipsToInches = (twips: number): string => `${(twips / 1440).toFixed(3)}in`;
+
+/**
+ * 生成独立的 HTML 文件
+ * @param previewHtml 预览区的 HTML（可包含已渲染的图表 SVG）
+ */
+export const generateHtmlDocument = async (
+  previewHtml: string,
+  options: Partial<WordExportOptions> = {}
+): Promise<Blob> => {
+  const exportOptions = { ...DEFAULT_EXPORT_OPTIONS, ...options };
+  const theme = getDocumentTheme(exportOptions.themeId);
+  const layout = resolvePageLayout(exportOptions);
+  const landscape = exportOptions.orientation === 'landscape';
+  const variables = getThemeCssVariables(theme);
+
+  const container = document.createElement('div');
+  container.innerHTML = previewHtml;
+  await renderPendingDiagrams(container, exportOptions);
+
+  const title = container.querySelector('h1')?.textContent?.trim() || 'AI2Word';
+  const themeStyle = Object.entries(variables).map(([name, value]) => `${name}: ${value}`).join('; ');
+  const pageWidth = twipsToInches(landscape ? layout.height : layout.width);
+  const pageHeight = twipsToInches(landscape ? layout.width : layout.height);
+  const { top, right, bottom, left } = layout.margin;
+  const padding = [top, right, bottom, left].map(twipsToInches).join(' ');
+
+  // 屏幕上按纸张宽度居中显示，打印时使用导出设置中的纸张与页边距
+  const pageCss = `
+body { margin: 0; background: #F3F4F6; }
+.page { box-sizing: border-box; width: ${pageWidth}; max-width: 100%; margin: 24px auto; padding: ${padding}; background: #FFFFFF; box-shadow: 0 1px 4px rgba(0, 0, 0, 0.08); }
+@page { size: ${pageWidth} ${pageHeight}; margin: ${padding}; }
+@media print {
+  body { background: none; }
+  .page { width: auto; margin: 0; padding: 0; box-shadow: none; }
+  .prose pre, .prose table, .prose .mermaid-rendered, .prose .katex-display { break-inside: avoid; }
+}`;
+
+  const html = `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<meta name="generator" content="AI2Word" />
+<title>${escapeHtml(title)}</title>
+<style>
+${await collectFontCss()}
+${collectStyleCss()}
+${pageCss}
+</style>
+</head>
+<body>
+<main class="page">
+<article class="prose" style="${escapeHtml(themeStyle)}">
+${container.innerHTML}
+</article>
+</main>
+</body>
+</html>
+`;
+
+  return new Blob([html], { type: 'text/html;charset=utf-8' });
+};
@@ -0,0 +1,264 @@
+/**
+ * 将 Markdown 中的原始 HTML 片段（<sup>、<sub>、<u>、<mark>、<span style> 等）
+ * 解析为带格式的文本片段，供 Word 导出映射为上下标、下划线、高亮和颜色等字符格式
+ */
+
+export interface HtmlRunStyle {
+  bold?: boolean;
+  italics?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  superScript?: boolean;
+  subScript?: boolean;
+  // <mark> 高亮
+  highlight?: boolean;
+  // 文字颜色与底色，6 位十六进制（不含 #）
+  color?: string;
+  background?: string;
+  // <kbd> / <code> 使用等宽字体
+  code?: boolean;
+}
+
+export interface HtmlRunSegment {
+  text: string;
+  style: HtmlRunStyle;
+  // 为 true 时表示换行，text 为空
+  break?: boolean;
+}
+
+// 能转换为字符格式的标签；只有包含这些标签的文本才按 HTML 解析，避免把 a<b 这类文本误当作标签
+const FORMATTING_TAGS = [
+  'b', 'strong', 'i', 'em', 'cite', 'u', 'ins', 's', 'del', 'strike', 'sup', 'sub',
+  'mark', 'span', 'font', 'kbd', 'code', 'samp', 'small', 'big', 'a', 'abbr', 'br',
+];
+const BLOCK_TAGS = [
+  'p', 'div', 'details', 'summary', 'section', 'article', 'header', 'footer', 'center', 'figure',
+  'figcaption', 'blockquote', 'pre', 'ul', 'ol', 'li', 'dl', 'dt', 'dd', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+];
+const VOID_TAGS = ['br', 'hr', 'img', 'input', 'wbr', 'meta', 'link', 'source', 'col', 'area', 'embed'];
+const INLINE_HTML = new RegExp(`<\\/?(?:${FORMATTING_TAGS.join('|')})\\b[^>]*>`, 'i');
+
+const NAMED_COLORS: { [name: string]: string } = {
+  black: '000000', white: 'FFFFFF', red: 'FF0000', green: '008000', blue: '0000FF', yellow: 'FFFF00',
+  orange: 'FFA500', purple: '800080', gray: '808080', grey: '808080', pink: 'FFC0CB', brown: 'A52A2A',
+  cyan: '00FFFF', magenta: 'FF00FF', navy: '000080', teal: '008080', maroon: '800000', olive: '808000',
+  lime: '00FF00', silver: 'C0C0C0', gold: 'FFD700', crimson: 'DC143C', darkred: '8B0000',
+  darkgreen: '006400', darkblue: '00008B', lightgray: 'D3D3D3', lightgrey: 'D3D3D3',
+};
+
+/**
+ * 检查文本中是否包含可转换的 HTML 格式标签
+ */
+export const containsInlineHtml = (text: string): boolean => INLINE_HTML.test(text);
+
+/**
+ * CSS 颜色 (#rgb / #rrggbb / rgb() / 常见颜色名) 转为 6 位十六进制，无法识别或透明时返回 null
+ */
+export const parseCssColor = (value: string | null | undefined): string | null => {
+  const color = (value || '').trim().toLowerCase();
+  if (!color) return null;
+
+  const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].split('').map(d => d + d).join('') : hex[1];
+    return digits.toUpperCase();
+  }
+
+  const rgb = color.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*([\d.]+)\s*)?\)$/);
+  if (rgb) {
+    if (rgb[4] !== undefined && parseFloat(rgb[4]) === 0) return null;
+    return rgb.slice(1, 4)
+      .map(channel => Math.min(255, parseInt(channel, 10)).toString(16).padStart(2, '0'))
+      .join('')
+      .toUpperCase();
+  }
+
+  return NAMED_COLORS[color] ?? null;
+};
+
+// 在继承的样式上叠加元素自身的标签语义与内联 style
+const readElementStyle = (element: Element, inherited: HtmlRunStyle): HtmlRunStyle => {
+  const style: HtmlRunStyle = { ...inherited };
+  const tag = element.tagName.toLowerCase();
+
+  switch (tag) {
+    case 'b': case 'strong': case 'summary': case 'dt':
+      style.bold = true;
+      break;
+    case 'i': case 'em': case 'cite':
+      style.italics = true;
+      break;
+    case 'u': case 'ins':
+      style.underline = true;
+      break;
+    case 's': case 'del': case 'strike':
+      style.strike = true;
+      break;
+    case 'sup':
+      style.superScript = true;
+      style.subScript = false;
+      break;
+    case 'sub':
+      style.subScript = true;
+      style.superScript = false;
+      break;
+    case 'mark':
+      style.highlight = true;
+      break;
+    case 'kbd': case 'code': case 'samp':
+      style.code = true;
+      break;
+    case 'font':
+      style.color = parseCssColor(element.getAttribute('color')) ?? style.color;
+      break;
+  }
+
+  const css = (element as HTMLElement).style;
+  if (css) {
+    style.color = parseCssColor(css.color) ?? style.color;
+    style.background = parseCssColor(css.backgroundColor) ?? style.background;
+    if (css.fontWeight === 'bold' || parseInt(css.fontWeight, 10) >= 600) style.bold = true;
+    if (css.fontStyle === 'italic') style.italics = true;
+    const decoration = css.textDecoration || css.textDecorationLine || '';
+    if (decoration.includes('underline')) style.underline = true;
+    if (decoration.includes('line-through')) style.strike = true;
+    if (css.verticalAlign === 'super') style.superScript = true;
+    if (css.verticalAlign === 'sub') style.subScript = true;
+  }
+
+  return style;
+};
+
+const parseFragment = (html: string): HTMLElement =>
+  new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html').body;
+
+const HTML_ENTITY = /&(?:#\d+|#x[\da-f]+|[a-z][a-z\d]*);/gi;
+
+/**
+ * 解码不含 HTML 标签的文字中的字符实体（Markdown 中的 &lt;、&amp; 以及 marked 转义过的文字），按字面显示
+ */
+export const decodeHtmlEntities = (text: string): string =>
+  text.replace(HTML_ENTITY, entity => parseFragment(entity).textContent || entity);
+
+// 将节点转换为文本片段；blockBreaks 为 true 时块级元素前后换行（用于行内上下文中的块级标签）
+const collectSegments = (node: Node, style: HtmlRunStyle, segments: HtmlRunSegment[], blockBreaks: boolean): void => {
+  node.childNodes.forEach(child => {
+    if (child.nodeType === Node.TEXT_NODE) {
+      // 文本中的换行与原有逻辑一致，转换为 Word 换行
+      (child.textContent || '').split('\n').forEach((line, index) => {
+        if (index > 0) segments.push({ text: '', style, break: true });
+        if (line) segments.push({ text: line, style });
+      });
+      return;
+    }
+    if (child.nodeType !== Node.ELEMENT_NODE) return;
+
+    const element = child as Element;
+    const tag = element.tagName.toLowerCase();
+    if (tag === 'br') {
+      segments.push({ text: '', style, break: true });
+      return;
+    }
+    if (tag === 'script' || tag === 'style' || tag === 'template') return;
+
+    const isBlock = blockBreaks && BLOCK_TAGS.includes(tag);
+    const last = segments[segments.length - 1];
+    if (isBlock && last && !last.break) segments.push({ text: '', style, break: true });
+    collectSegments(element, readElementStyle(element, style), segments, blockBreaks);
+    if (isBlock && segments.length > 0 && !segments[segments.length - 1].break) {
+      segments.push({ text: '', style, break: true });
+    }
+  });
+};
+
+const trimBreaks = (segments: HtmlRunSegment[]): HtmlRunSegment[] => {
+  let start = 0;
+  let end = segments.length;
+  while (start < end && segments[start].break) start++;
+  while (end > start && segments[end - 1].break) end--;
+  return segments.slice(start, end);
+};
+
+/**
+ * 解析行内 HTML 片段为文本片段，支持任意嵌套
+ */
+export const htmlToSegments = (html: string): HtmlRunSegment[] => {
+  const segments: HtmlRunSegment[] = [];
+  collectSegments(parseFragment(html), {}, segments, true);
+  return trimBreaks(segments);
+};
+
+// 块级元素中是否还包含块级子元素（此时由子元素各自成段）
+const hasBlockChildren = (element: Element): boolean =>
+  Array.from(element.children).some(child => BLOCK_TAGS.includes(child.tagName.toLowerCase()));
+
+/**
+ * 解析块级 HTML（<div>、<p>、<details> 等）为段落列表，每个段落是一组文本片段；
+ * <details> 按展开状态输出，<summary> 加粗
+ */
+export const htmlToParagraphs = (html: string): HtmlRunSegment[][] => {
+  const paragraphs: HtmlRunSegment[][] = [];
+  let current: HtmlRunSegment[] = [];
+
+  const flush = () => {
+    // 段落首尾的换行和空白来自 HTML 源码的排版，不输出
+    let segments = trimBreaks(current);
+    while (segments.length > 0 && !segments[0].break && !segments[0].text.trim()) segments = trimBreaks(segments.slice(1));
+    while (segments.length > 0 && !segments[segments.length - 1].break && !segments[segments.length - 1].text.trim()) {
+      segments = trimBreaks(segments.slice(0, -1));
+    }
+    if (segments.length > 0) paragraphs.push(segments);
+    current = [];
+  };
+
+  const visit = (node: Node, style: HtmlRunStyle) => {
+    node.childNodes.forEach(child => {
+      if (child.nodeType === Node.ELEMENT_NODE) {
+        const element = child as Element;
+        const tag = element.tagName.toLowerCase();
+        if (BLOCK_TAGS.includes(tag)) {
+          flush();
+          const blockStyle = readElementStyle(element, style);
+          if (hasBlockChildren(element)) {
+            visit(element, blockStyle);
+          } else {
+            collectSegments(element, blockStyle, current, false);
+          }
+          flush();
+          return;
+        }
+        if (tag === 'hr' || tag === 'img' || tag === 'script' || tag === 'style') return;
+      }
+
+      // 行内内容累积到当前段落
+      const wrapper = document.createElement('span');
+      wrapper.appendChild(child.cloneNode(true));
+      collectSegments(wrapper, style, current, false);
+    });
+  };
+
+  visit(parseFragment(html), {});
+  flush();
+  return paragraphs;
+};
+
+/**
+ * 解析单独的开始标签（marked 把行内 HTML 的开始、结束标签拆成单独的 token），
+ * 返回标签名及其对应的格式；结束标签、自闭合标签与未知标签返回 null
+ */
+export const parseOpeningTag = (raw: string): { name: string; style: HtmlRunStyle } | null => {
+  const match = raw.trim().match(/^<([a-z][a-z0-9]*)\b[^>]*>$/i);
+  if (!match || raw.trim().endsWith('/>')) return null;
+
+  const name = match[1].toLowerCase();
+  if (VOID_TAGS.includes(name) || !FORMATTING_TAGS.includes(name)) return null;
+
+  const element = parseFragment(raw).firstElementChild;
+  return element ? { name, style: readElementStyle(element, {}) } : null;
+};
+
+/**
+ * 判断是否为指定标签的结束标签
+ */
+export const isClosingTag = (raw: string, name: string): boolean =>
+  new RegExp(`^</${name}\\s*>$`, 'i').test(raw.trim());
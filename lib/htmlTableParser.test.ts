@@ -0,0 +1,23 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { splitHtmlTables } from './htmlTableParser';
+
+describe('splitHtmlTables', () => {
+  it('keeps the content around a table in order', () => {
+    const parts = splitHtmlTables(
+      '<div style="color: red"><p>表格说明</p><table><tr><td>A</td><td>B</td></tr></table><p>注：数据来自 2024 年</p></div>'
+    );
+
+    expect(parts.map(part => part.type)).toEqual(['html', 'table', 'html']);
+    const [before, table, after] = parts;
+    expect(before.type === 'html' && before.html).toBe('<div style="color: red"><p>表格说明</p></div>');
+    expect(table.type === 'table' && table.table.rows[0].cells.map(cell => cell.text)).toEqual(['A', 'B']);
+    expect(after.type === 'html' && after.html).toBe('<div style="color: red"><p>注：数据来自 2024 年</p></div>');
+  });
+
+  it('skips whitespace between tables', () => {
+    const parts = splitHtmlTables('<table><tr><td>1</td></tr></table>\n  \n<table><tr><td>2</td></tr></table>');
+
+    expect(parts.map(part => part.type)).toEqual(['table', 'table']);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * 解析 HTML <table>，保留表头、合并单元格 (colspan/rowspan) 与对齐信息，
+ * 供 Word 导出构建原生表格
+ */
+
+export type CellAlignment = 'left' | 'center' | 'right' | null;
+
+export interface HtmlTableCell {
+  // 单元格内容：纯文本，保留 <b> 等行内格式标签与换行 (\n)
+  text: string;
+  colSpan: number;
+  rowSpan: number;
+  isHeader: boolean;
+  align: CellAlignment;
+}
+
+export interface HtmlTableRow {
+  cells: HtmlTableCell[];
+  isHeader: boolean;
+}
+
+export interface HtmlTable {
+  rows: HtmlTableRow[];
+  // 展开合并单元格后的网格列数
+  columnCount: number;
+}
+
+// HTML 块按原有顺序拆分出的表格与表格之外的内容（HTML 片段）
+export type HtmlBlockPart = { type: 'table'; table: HtmlTable } | { type: 'html'; html: string };
+
+/**
+ * 检查 HTML 片段中是否包含表格
+ */
+export const hasHtmlTable = (html: string): boolean => /<table[\s>]/i.test(html);
+
+const readAlignment = (cell: Element): CellAlignment => {
+  const value = (cell.getAttribute('align') || (cell as HTMLElement).style?.textAlign || '').toLowerCase();
+  return value === 'left' || value === 'center' || value === 'right' ? value : null;
+};
+
+// 单元格中保留的行内格式标签（连同 style/color 属性），由 Word 导出按 HTML 格式转换
+const INLINE_FORMAT_TAGS = /^(i|em|u|ins|s|del|strike|sup|sub|mark|span|font|kbd|code)$/;
+
+const openingTag = (element: Element, tag: string): string => {
+  const attributes = ['style', 'color']
+    .filter(name => element.hasAttribute(name))
+    .map(name => ` ${name}="${(element.getAttribute(name) || '').replace(/"/g, '&quot;')}"`)
+    .join('');
+  return `<${tag}${attributes}>`;
+};
+
+// 将单元格 DOM 转为文本：<br> 和块级元素换行，加粗保留为 <b>，其余行内格式标签原样保留
+const cellToText = (node: Node): string => {
+  let text = '';
+  node.childNodes.forEach(child => {
+    if (child.nodeType === Node.TEXT_NODE) {
+      text += (child.textContent || '').replace(/\s+/g, ' ');
+      return;
+    }
+    if (child.nodeType !== Node.ELEMENT_NODE) return;
+
+    const tag = (child as Element).tagName.toLowerCase();
+    if (tag === 'br') {
+      text += '\n';
+    } else if (tag === 'b' || tag === 'strong') {
+      text += `<b>${cellToText(child)}</b>`;
+    } else if (INLINE_FORMAT_TAGS.test(tag)) {
+      text += `${openingTag(child as Element, tag)}${cellToText(child)}</${tag}>`;
+    } else if (/^(p|div|li|h[1-6])$/.test(tag)) {
+      text += (text && !text.endsWith('\n') ? '\n' : '') + cellToText(child).trim() + '\n';
+    } else {
+      text += cellToText(child);
+    }
+  });
+  return text;
+};
+
+const parseSpan = (value: string | null): number => Math.max(1, parseInt(value || '1', 10) || 1);
+
+const parseTable = (table: HTMLTableElement): HtmlTable => {
+  const rows: HtmlTableRow[] = [];
+  // 记录每列还被上方 rowspan 占用的行数，用于计算网格列数
+  const occupied: number[] = [];
+  let columnCount = 0;
+
+  Array.from(table.rows).forEach(row => {
+    const cells: HtmlTableCell[] = Array.from(row.cells).map(cell => ({
+      text: cellToText(cell).trim(),
+      colSpan: parseSpan(cell.getAttribute('colspan')),
+      rowSpan: parseSpan(cell.getAttribute('rowspan')),
+      isHeader: cell.tagName.toLowerCase() === 'th',
+      align: readAlignment(cell) ?? readAlignment(row),
+    }));
+    if (cells.length === 0) return;
+
+    let column = 0;
+    for (const cell of cells) {
+      while ((occupied[column] || 0) > 0) column++;
+      for (let i = 0; i < cell.colSpan; i++) {
+        occupied[column + i] = cell.rowSpan;
+      }
+      column += cell.colSpan;
+    }
+    columnCount = Math.max(columnCount, column, occupied.length);
+    for (let i = 0; i < occupied.length; i++) {
+      if (occupied[i] > 0) occupied[i]--;
+    }
+
+    const inHead = row.parentElement?.tagName.toLowerCase() === 'thead';
+    rows.push({ cells, isHeader: inHead || cells.every(cell => cell.isHeader) });
+  });
+
+  return { rows, columnCount };
+};
+
+const findTopLevelTables = (doc: Document): HTMLTableElement[] =>
+  Array.from(doc.querySelectorAll('table')).filter(table => !table.parentElement?.closest('table'));
+
+/**
+ * 解析 HTML 片段中的所有顶层表格
+ */
+export const parseHtmlTables = (html: string): HtmlTable[] =>
+  findTopLevelTables(new DOMParser().parseFromString(html, 'text/html'))
+    .map(parseTable)
+    .filter(table => table.rows.length > 0);
+
+/**
+ * 按顺序拆分 HTML 片段中的顶层表格与表格前后的内容；
+ * 表格之外的内容保留所在元素（如带样式的 <div>），只含空白的部分不输出
+ */
+export const splitHtmlTables = (html: string): HtmlBlockPart[] => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const parts: HtmlBlockPart[] = [];
+  const range = doc.createRange();
+  range.setStart(doc.body, 0);
+
+  const pushContent = () => {
+    const container = doc.createElement('div');
+    container.appendChild(range.cloneContents());
+    if (container.textContent?.trim()) {
+      parts.push({ type: 'html', html: container.innerHTML });
+    }
+  };
+
+  for (const table of findTopLevelTables(doc)) {
+    range.setEndBefore(table);
+    pushContent();
+    const parsed = parseTable(table);
+    if (parsed.rows.length > 0) parts.push({ type: 'table', table: parsed });
+    range.setStartAfter(table);
+  }
+  range.setEnd(doc.body, doc.body.childNodes.length);
+  pushContent();
+  return parts;
+};
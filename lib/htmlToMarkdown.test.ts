@@ -0,0 +1,25 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { htmlToMarkdown } from './htmlToMarkdown';
+import { renderPreviewHtml } from './previewRenderer';
+
+describe('htmlToMarkdown', () => {
+  it('keeps escaped tags as literal text', () => {
+    const markdown = htmlToMarkdown('<p>&lt;img src=x onerror=alert(1)&gt; 与 List&lt;String&gt;，&amp;lt; 不是实体</p>');
+
+    expect(markdown).toBe('&lt;img src=x onerror=alert(1)> 与 List&lt;String>，&amp;lt; 不是实体\n');
+    const html = renderPreviewHtml(markdown);
+    expect(html).not.toContain('<img');
+    expect(new DOMParser().parseFromString(html, 'text/html').body.textContent?.trim())
+      .toBe('<img src=x onerror=alert(1)> 与 List<String>，&lt; 不是实体');
+  });
+
+  it('escapes block markers at the start of a line', () => {
+    expect(htmlToMarkdown('<p># 不是标题<br>1. 不是列表</p><div>&gt; 不是引用</div>'))
+      .toBe('\\# 不是标题\n1\\. 不是列表\n\n\\> 不是引用\n');
+  });
+
+  it('keeps formulas and citation markers as written', () => {
+    expect(htmlToMarkdown('<p>质能方程 $E = mc^2$ [1]</p>')).toBe('质能方程 $E = mc^2$ [1]\n');
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * HTML 转 Markdown：用于导入从 AI 工具保存的 .html 页面。
+ * 标题、列表、代码块、引用、链接、图片与简单表格转换为 Markdown 语法；
+ * 含合并单元格的表格以及 <sup>、<u>、<mark> 等没有 Markdown 写法的格式保留为 HTML，Word 导出可直接识别
+ */
+
+// 不输出内容的元素
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'head', 'meta', 'link', 'svg', 'button', 'input', 'select', 'textarea', 'iframe']);
+// 保留原样的行内格式标签
+const PRESERVED_INLINE_TAGS = new Set(['sup', 'sub', 'u', 'ins', 'mark', 'kbd']);
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'details', 'dialog', 'dd', 'div', 'dl', 'dt', 'fieldset',
+  'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li',
+  'main', 'nav', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'ul',
+]);
+
+const collapseWhitespace = (text: string): string => text.replace(/[ \t\r\n\f]+/g, ' ');
+
+// 页面中按字面显示的 <、& 在 Markdown 中会成为 HTML 标签和字符实体（如 List<String>、&lt;img&gt;），转义为字符实体
+const escapeHtmlText = (text: string): string => text
+  .replace(/&(?=#?\w+;)/g, '&amp;')
+  .replace(/<(?=[A-Za-z/!?])/g, '&lt;');
+
+// 位于行首时会被识别为标题、引用、列表或代码块的标记
+const LINE_START_MARKER = /^(\s*)(#{1,6}|>|[-+*]|\d+[.)]|`{3,}|~{3,})(?=\s|$)/;
+
+const escapeLineStart = (text: string): string => text.replace(LINE_START_MARKER, (_match, space: string, marker: string) =>
+  /^\d/.test(marker) ? `${space}${marker.slice(0, -1)}\\${marker.slice(-1)}` : `${space}\\${marker}`);
+
+// 文本节点是否位于块级元素或换行之后（转换结果中的行首）
+const isAtLineStart = (node: Node): boolean => {
+  const previous = node.previousSibling;
+  if (previous) return previous.nodeName.toLowerCase() === 'br' || BLOCK_TAGS.has(previous.nodeName.toLowerCase());
+  const parent = node.parentNode;
+  return !parent || parent.nodeType !== Node.ELEMENT_NODE || BLOCK_TAGS.has(parent.nodeName.toLowerCase())
+    || ['body', 'td', 'th'].includes(parent.nodeName.toLowerCase());
+};
+
+// 代码块语言：class="language-xxx" / "lang-xxx" / data-language
+export const readCodeLanguage = (element: Element | null): string => {
+  if (!element) return '';
+  const fromAttribute = element.getAttribute('data-language') || element.getAttribute('data-lang');
+  if (fromAttribute) return fromAttribute.trim();
+  const match = (element.getAttribute('class') || '').match(/\b(?:language|lang)-([\w+#.-]+)/);
+  return match ? match[1] : '';
+};
+
+const createFence = (code: string): string => {
+  const longest = Math.max(2, ...(code.match(/`+/g) || []).map(run => run.length));
+  return '`'.repeat(longest + 1);
+};
+
+/**
+ * 生成围栏代码块，围栏长度随代码中最长的反引号串增加
+ */
+export const formatCodeBlock = (code: string, language: string): string => {
+  const fence = createFence(code);
+  return `\n\n${fence}${language}\n${code.replace(/\n$/, '')}\n${fence}\n\n`;
+};
+
+interface ConvertContext {
+  // 列表嵌套层级，用于缩进
+  listDepth: number;
+  // 位于 <pre> 中时保留空白
+  preformatted: boolean;
+}
+
+/**
+ * 可扩展的转换规则：返回 null 时使用默认转换
+ */
+export type HtmlToMarkdownRule = (element: Element, convertChildren: () => string) => string | null;
+
+export class HtmlToMarkdownConverter {
+  private rules: HtmlToMarkdownRule[];
+
+  constructor(rules: HtmlToMarkdownRule[] = []) {
+    this.rules = rules;
+  }
+
+  /**
+   * @param selectMainContent 保存的整页网页优先只转换 <main> / <article> 正文区域
+   */
+  convert(html: string, selectMainContent = true): string {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const root = (selectMainContent && doc.querySelector('main, article')) || doc.body;
+    return this.convertChildren(root, { listDepth: 0, preformatted: false })
+      .replace(/[ \t]+\n/g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim() + '\n';
+  }
+
+  private convertChildren(node: Node, context: ConvertContext): string {
+    return Array.from(node.childNodes).map(child => this.convertNode(child, context)).join('');
+  }
+
+  private convertNode(node: Node, context: ConvertContext): string {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = node.textContent || '';
+      if (context.preformatted) return text;
+      // 除 HTML 与行首的块标记外不做 Markdown 转义：AI 页面中的 $公式$、[1] 引用等需要保持原样
+      const escaped = escapeHtmlText(collapseWhitespace(text));
+      return isAtLineStart(node) ? escapeLineStart(escaped) : escaped;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+    if (SKIPPED_TAGS.has(tag) || element.getAttribute('aria-hidden') === 'true') return '';
+
+    for (const rule of this.rules) {
+      const result = rule(element, () => this.convertChildren(element, context));
+      if (result !== null) return result;
+    }
+
+    const children = () => this.convertChildren(element, context);
+    const inline = () => children().trim();
+
+    switch (tag) {
+      case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+        return `\n\n${'#'.repeat(Number(tag[1]))} ${inline().replace(/\n+/g, ' ')}\n\n`;
+      case 'p':
+        return `\n\n${inline()}\n\n`;
+      case 'br':
+        // 预览与导出都开启了 breaks，单个换行即为硬换行
+        return '\n';
+      case 'hr':
+        return '\n\n---\n\n';
+      case 'strong': case 'b': {
+        const text = inline();
+        return text ? `**${text}**` : '';
+      }
+      case 'em': case 'i': case 'cite': {
+        const text = inline();
+        return text ? `*${text}*` : '';
+      }
+      case 'del': case 's': case 'strike': {
+        const text = inline();
+        return text ? `~~${text}~~` : '';
+      }
+      case 'code':
+        return context.preformatted ? element.textContent || '' : this.convertInlineCode(element.textContent || '');
+      case 'pre':
+        return this.convertPre(element);
+      case 'a':
+        return this.convertLink(element, inline());
+      case 'img':
+        return this.convertImage(element);
+      case 'ul': case 'ol':
+        return this.convertList(element, context);
+      case 'blockquote': {
+        const text = this.convertChildren(element, context).trim().replace(/\n{3,}/g, '\n\n');
+        return `\n\n${text.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n')}\n\n`;
+      }
+      case 'table':
+        return this.convertTable(element);
+      case 'summary':
+        return `\n\n**${inline()}**\n\n`;
+      default:
+        if (PRESERVED_INLINE_TAGS.has(tag)) {
+          const text = inline();
+          return text ? `<${tag}>${text}</${tag}>` : '';
+        }
+        if (BLOCK_TAGS.has(tag)) return `\n\n${children()}\n\n`;
+        return children();
+    }
+  }
+
+  private convertInlineCode(code: string): string {
+    if (!code) return '';
+    const fence = '`'.repeat(Math.max(1, ...(code.match(/`+/g) || []).map(run => run.length + 1)));
+    const padding = code.startsWith('`') || code.endsWith('`') ? ' ' : '';
+    return `${fence}${padding}${code}${padding}${fence}`;
+  }
+
+  private convertPre(element: Element): string {
+    const codeElement = element.querySelector('code');
+    const language = readCodeLanguage(codeElement) || readCodeLanguage(element);
+    return formatCodeBlock((codeElement ?? element).textContent || '', language);
+  }
+
+  private convertLink(element: Element, text: string): string {
+    const href = element.getAttribute('href') || '';
+    if (!href || href.startsWith('javascript:')) return text;
+    if (!text) return '';
+    if (text === href) return `<${href}>`;
+    const title = element.getAttribute('title');
+    return `[${text}](${href.replace(/\s/g, '%20')}${title ? ` "${title.replace(/"/g, '\\"')}"` : ''})`;
+  }
+
+  private convertImage(element: Element): string {
+    const src = element.getAttribute('src') || '';
+    if (!src) return '';
+    const alt = (element.getAttribute('alt') || '').replace(/[[\]]/g, '');
+    return `![${alt}](${src.replace(/\s/g, '%20')})`;
+  }
+
+  private convertList(element: Element, context: ConvertContext): string {
+    const ordered = element.tagName.toLowerCase() === 'ol';
+    const start = parseInt(element.getAttribute('start') || '1', 10) || 1;
+    const indent = '   '.repeat(context.listDepth);
+    const items = Array.from(element.children).filter(child => child.tagName.toLowerCase() === 'li');
+
+    const lines = items.map((item, index) => {
+      const marker = ordered ? `${start + index}.` : '-';
+      const checkbox = item.querySelector(':scope > input[type="checkbox"]') as HTMLInputElement | null;
+      const task = checkbox ? (checkbox.checked || checkbox.hasAttribute('checked') ? '[x] ' : '[ ] ') : '';
+      const body = this.convertChildren(item, { ...context, listDepth: context.listDepth + 1 })
+        .replace(/\n{2,}/g, '\n')
+        .trim();
+      const [first = '', ...rest] = body.split('\n');
+      // 续行（含嵌套列表）已带有下一级的缩进
+      return [`${indent}${marker} ${task}${first}`, ...rest.map(line => (line.startsWith(`${indent}   `) ? line : `${indent}   ${line}`))].join('\n');
+    });
+
+    return context.listDepth > 0 ? `\n${lines.join('\n')}\n` : `\n\n${lines.join('\n')}\n\n`;
+  }
+
+  private convertTable(element: Element): string {
+    const table = element as HTMLTableElement;
+    const rows = Array.from(table.rows);
+    if (rows.length === 0) return '';
+
+    // 合并单元格、嵌套表格或多行内容无法用 GFM 表格表示，保留 HTML
+    const isComplex = rows.some(row => Array.from(row.cells).some(cell =>
+      cell.colSpan > 1 || cell.rowSpan > 1 || cell.querySelector('table, ul, ol, pre, p + p')));
+    if (isComplex) return `\n\n${table.outerHTML}\n\n`;
+
+    const toCells = (row: HTMLTableRowElement) => Array.from(row.cells).map(cell =>
+      this.convertChildren(cell, { listDepth: 0, preformatted: false }).replace(/\s*\n\s*/g, ' ').trim().replace(/\|/g, '\\|'));
+
+    const columnCount = Math.max(...rows.map(row => row.cells.length));
+    const pad = (cells: string[]) => [...cells, ...Array(columnCount - cells.length).fill('')];
+    const [header, ...body] = rows;
+
+    const alignments = Array.from(header.cells).map(cell => {
+      const align = (cell.getAttribute('align') || (cell as HTMLElement).style?.textAlign || '').toLowerCase();
+      return align === 'center' ? ':---:' : align === 'right' ? '---:' : align === 'left' ? ':---' : '---';
+    });
+
+    return [
+      '',
+      '',
+      `| ${pad(toCells(header)).join(' | ')} |`,
+      `| ${pad(alignments).map(align => align || '---').join(' | ')} |`,
+      ...body.map(row => `| ${pad(toCells(row)).join(' | ')} |`),
+      '',
+      '',
+    ].join('\n');
+  }
+}
+
+/**
+ * 将 HTML 文档或片段转换为 Markdown
+ */
+export const htmlToMarkdown = (html: string): string => new HtmlToMarkdownConverter().convert(html);
@@ -0,0 +1,115 @@
+/**
+ * 加载 Markdown 图片（远程 URL、data: URI、粘贴生成的 blob: URL），
+ * 返回可直接嵌入 Word 的二进制数据与像素尺寸
+ */
+
+export interface LoadedImage {
+  data: Uint8Array;
+  type: 'png' | 'jpg' | 'gif' | 'bmp';
+  width: number;
+  height: number;
+}
+
+const FETCH_TIMEOUT = 15000;
+
+// 根据文件头识别 Word 可直接嵌入的格式，其余格式（svg、webp 等）需要先转为 PNG
+const detectImageType = (bytes: Uint8Array): LoadedImage['type'] | null => {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return 'png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'jpg';
+  if (bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46) return 'gif';
+  if (bytes[0] === 0x42 && bytes[1] === 0x4d) return 'bmp';
+  return null;
+};
+
+/**
+ * 判断图片地址是否需要联网获取
+ */
+export const isRemoteImage = (src: string): boolean => !/^(data|blob):/i.test(src.trim());
+
+const decodeDataUri = (src: string): Blob | null => {
+  const match = src.match(/^data:([^;,]*)((?:;[^;,]*)*?)(;base64)?,([\s\S]*)$/i);
+  if (!match) return null;
+
+  const mimeType = match[1] || 'application/octet-stream';
+  if (match[3]) {
+    const binaryString = window.atob(match[4].replace(/\s/g, ''));
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+      bytes[i] = binaryString.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: mimeType });
+  }
+  return new Blob([decodeURIComponent(match[4])], { type: mimeType });
+};
+
+const fetchImageBlob = async (src: string): Promise<Blob> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
+  try {
+    const response = await fetch(src, { signal: controller.signal });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return await response.blob();
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// 通过 <img> 解码获取尺寸；不支持直接嵌入的格式顺便绘制到 canvas 转为 PNG
+const decodeImage = async (blob: Blob, needsRasterize: boolean): Promise<{ width: number; height: number; png?: Uint8Array }> => {
+  const url = URL.createObjectURL(blob);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+
+    // SVG 未声明尺寸时 naturalWidth 可能为 0
+    const width = img.naturalWidth || 300;
+    const height = img.naturalHeight || 150;
+    if (!needsRasterize) return { width, height };
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width * 2;
+    canvas.height = height * 2;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas 2D context unavailable');
+    context.scale(2, 2);
+    context.drawImage(img, 0, 0, width, height);
+
+    const pngBlob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!pngBlob) throw new Error('Failed to encode PNG');
+    return { width, height, png: new Uint8Array(await pngBlob.arrayBuffer()) };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * 加载图片
+ * @param src 图片地址
+ * @param allowRemote 是否允许联网获取（保密文档可关闭）
+ * @returns 图片数据；加载失败或被禁止时返回 null
+ */
+export const loadImage = async (src: string, allowRemote: boolean = true): Promise<LoadedImage | null> => {
+  if (!src) return null;
+
+  if (!allowRemote && isRemoteImage(src)) {
+    console.log('[Image] Remote image blocked in local-only mode:', src.substring(0, 100));
+    return null;
+  }
+
+  try {
+    const blob = src.startsWith('data:') ? decodeDataUri(src) : await fetchImageBlob(src);
+    if (!blob) return null;
+
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const type = detectImageType(bytes);
+    const { width, height, png } = await decodeImage(blob, type === null);
+
+    return png
+      ? { data: png, type: 'png', width, height }
+      : { data: bytes, type: type!, width, height };
+  } catch (error) {
+    console.error('[Image] Failed to load image:', src.substring(0, 100), error);
+    return null;
+  }
+};
@@ -0,0 +1,113 @@
+/**
+ * 整理后的 Markdown 打包导出：规范化源文（缩进、公式定界符、空白与空行），
+ * 图表（Mermaid、Graphviz 等）和独占一段的块级公式渲染为 SVG 图片，与 document.md 一起打包为 zip，
+ * 便于发布到不支持图表、公式的平台；粘贴生成的图片（blob:、data:）也一并导出为文件
+ */
+
+import JSZip from 'jszip';
+import { marked } from 'marked';
+import { parseDiagramInfo, renderDiagramToSvg } from './diagramRenderers';
+import { normalizeUnicodeToLatex } from './mathRenderer';
+import { renderLatexToSvg } from './mathSvg';
+import { loadImage } from './imageLoader';
+import { normalizeMarkdown } from './markdownPipeline';
+import { DEFAULT_EXPORT_OPTIONS, DEFAULT_REPAIR_PASSES, RepairPassId, WordExportOptions } from '../types';
+
+const IMAGE_DIRECTORY = 'images';
+const BLOCK_FORMULA = /^\$\$([\s\S]+?)\$\$$/;
+
+/**
+ * 整理 Markdown：先执行与预览、导出相同的修复步骤，再在代码块以外
+ * 把 \[…\] / \(…\) 换成 $$…$$ / $…$、全角空格和不换行空格换成普通空格、去掉行尾空白、合并多余空行
+ */
+export const cleanMarkdown = (markdownText: string, repairs: Record<RepairPassId, boolean> = DEFAULT_REPAIR_PASSES): string => {
+  let inCodeFence = false;
+  const lines = normalizeMarkdown(markdownText, repairs).markdown
+    .split('\n')
+    .map(line => {
+      if (line.trim().startsWith('```')) {
+        inCodeFence = !inCodeFence;
+        return line.trimEnd();
+      }
+      if (inCodeFence) return line;
+      return line.replace(/[\u3000\u00A0]/g, ' ').trimEnd();
+    });
+
+  return lines.join('\n')
+    .replace(/\\\[([\s\S]*?)\\\]/g, (_match, formula) => '$$' + formula.trim() + '$$')
+    .replace(/\\\(([\s\S]*?)\\\)/g, (_match, formula) => '$' + formula.trim() + '$')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim() + '\n';
+};
+
+const serializeSvg = (svg: SVGSVGElement): string =>
+  `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(svg)}`;
+
+// 替换 token 时保留其后的空行
+const replaceToken = (raw: string, replacement: string): string => replacement + (raw.match(/\n*$/)![0] || '\n');
+
+// 图片的替代文字中不能出现方括号和换行
+const toAltText = (text: string): string => text.replace(/[[\]]/g, '').replace(/\s+/g, ' ').trim();
+
+/**
+ * 生成 zip：document.md 与 images/ 目录（使用导出设置中的修复步骤和图表设置）
+ */
+export const generateMarkdownBundle = async (
+  markdownText: string,
+  options: Partial<WordExportOptions> = {}
+): Promise<Blob> => {
+  const exportOptions = { ...DEFAULT_EXPORT_OPTIONS, ...options };
+  const zip = new JSZip();
+  const markdown = cleanMarkdown(markdownText, exportOptions.repairs);
+  let diagramCount = 0;
+  let formulaCount = 0;
+  let imageCount = 0;
+
+  // 顶层 token 的 raw 拼接起来即为原文，只替换图表和块级公式对应的部分
+  const parts: string[] = [];
+  for (const token of marked.lexer(markdown, { gfm: true }) as any[]) {
+    const diagramInfo = token.type === 'code' ? parseDiagramInfo(token.lang) : null;
+    if (diagramInfo) {
+      const diagram = await renderDiagramToSvg(token.text.trim(), diagramInfo, exportOptions);
+      if (diagram) {
+        const name = `diagram-${++diagramCount}`;
+        zip.file(`${IMAGE_DIRECTORY}/${name}.svg`, serializeSvg(diagram.svg));
+        // 保留图表源码，便于之后修改
+        zip.file(`${IMAGE_DIRECTORY}/${name}.${diagramInfo.renderer.sourceExtension}`, `${token.text.trim()}\n`);
+        parts.push(replaceToken(token.raw, `![图表 ${diagramCount}](${IMAGE_DIRECTORY}/${name}.svg)`));
+        continue;
+      }
+    }
+
+    const formulaMatch = token.type === 'paragraph' ? token.text.trim().match(BLOCK_FORMULA) : null;
+    if (formulaMatch) {
+      const formula = formulaMatch[1].trim();
+      const math = renderLatexToSvg(normalizeUnicodeToLatex(formula), true);
+      if (math) {
+        const name = `formula-${++formulaCount}`;
+        zip.file(`${IMAGE_DIRECTORY}/${name}.svg`, serializeSvg(math.svg));
+        parts.push(replaceToken(token.raw, `![${toAltText(formula)}](${IMAGE_DIRECTORY}/${name}.svg)`));
+        continue;
+      }
+    }
+
+    parts.push(token.raw);
+  }
+  let output = parts.join('');
+
+  // 粘贴的图片只在当前浏览器中有效，导出为文件并改写链接
+  const localImages = new Set<string>();
+  marked.walkTokens(marked.lexer(output, { gfm: true }), (token: any) => {
+    if (token.type === 'image' && /^(blob|data):/i.test(token.href)) localImages.add(token.href);
+  });
+  for (const src of localImages) {
+    const image = await loadImage(src, false);
+    if (!image) continue;
+    const path = `${IMAGE_DIRECTORY}/image-${++imageCount}.${image.type}`;
+    zip.file(path, image.data);
+    output = output.split(src).join(path);
+  }
+
+  zip.file('document.md', output);
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+};
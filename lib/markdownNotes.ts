@@ -0,0 +1,133 @@
+/**
+ * 脚注与参考文献：词法分析前从 Markdown 中取出脚注定义 ([^id]: 内容) 和文末的参考文献列表，
+ * 否则 marked 会把它们当作链接定义吞掉；正文中的 [^id] 与 [n] 标记在生成 Word 时
+ * 分别转换为原生脚注和指向参考文献条目的链接
+ */
+
+export interface ReferenceEntry {
+  number: number;
+  text: string;
+}
+
+export interface MarkdownNotes {
+  // 去掉脚注定义和参考文献条目后的 Markdown（参考文献标题保留）
+  markdown: string;
+  // 脚注标签 → 脚注内容 (行内 Markdown)
+  footnotes: Map<string, string>;
+  references: ReferenceEntry[];
+}
+
+const FENCE = /^\s{0,3}(`{3,}|~{3,})/;
+const FOOTNOTE_DEFINITION = /^\s{0,3}\[\^([^\]\s]+)\]:[ \t]*(.*)$/;
+// 脚注的后续段落需缩进
+const CONTINUATION = /^(?: {2,}|\t)\S/;
+const REFERENCES_HEADING = /^\s{0,3}(?:#{1,6}\s+)?(?:\*\*)?(?:references?|bibliography|sources|参考文献|参考资料|引用来源|资料来源)(?:\*\*)?\s*[:：]?\s*(?:\*\*)?\s*$/i;
+// [1] 文献、[1]: 文献、1. 文献、- [1] 文献
+const REFERENCE_ENTRY = /^\s{0,3}(?:[-*+]\s+)?(?:\[(\d+)\]:?|(\d+)[.)、])\s+(.+)$/;
+
+// 正文中的脚注引用 [^id]
+export const FOOTNOTE_REFERENCE = /\[\^([^\]\s]+)\]/g;
+// 正文中的文献引用 [1] / [1, 2] / [1-3]
+export const CITATION = /\[(\d+(?:\s*[,，–-]\s*\d+)*)\]/g;
+
+// 标记每一行是否位于围栏代码块内
+const markFencedLines = (lines: string[]): boolean[] => {
+  let fence: string | null = null;
+  return lines.map(line => {
+    const match = line.match(FENCE);
+    if (fence) {
+      if (match && match[1][0] === fence[0] && match[1].length >= fence.length) fence = null;
+      return true;
+    }
+    if (match) {
+      fence = match[1];
+      return true;
+    }
+    return false;
+  });
+};
+
+const extractFootnotes = (lines: string[], fenced: boolean[]): { lines: string[]; footnotes: Map<string, string> } => {
+  const footnotes = new Map<string, string>();
+  const rest: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = fenced[i] ? null : lines[i].match(FOOTNOTE_DEFINITION);
+    if (!match) {
+      rest.push(lines[i]);
+      continue;
+    }
+
+    const parts = [match[2].trim()];
+    // 缩进的后续行（允许中间有空行）属于同一个脚注
+    while (i + 1 < lines.length) {
+      const next = lines[i + 1];
+      const nextContent = lines.slice(i + 1).find(line => line.trim());
+      if (CONTINUATION.test(next) || (!next.trim() && nextContent !== undefined && CONTINUATION.test(nextContent))) {
+        if (next.trim()) parts.push(next.trim());
+        i++;
+      } else {
+        break;
+      }
+    }
+    footnotes.set(match[1], parts.filter(Boolean).join(' '));
+  }
+
+  return { lines: rest, footnotes };
+};
+
+// 参考文献须位于文末：标题之后只有编号条目（及其缩进的续行）
+const extractReferences = (lines: string[], fenced: boolean[]): { lines: string[]; references: ReferenceEntry[] } => {
+  let headingIndex = -1;
+  lines.forEach((line, index) => {
+    if (!fenced[index] && REFERENCES_HEADING.test(line)) headingIndex = index;
+  });
+  if (headingIndex === -1) return { lines, references: [] };
+
+  const references: ReferenceEntry[] = [];
+  for (const line of lines.slice(headingIndex + 1)) {
+    if (!line.trim()) continue;
+
+    const match = line.match(REFERENCE_ENTRY);
+    if (match) {
+      references.push({ number: parseInt(match[1] ?? match[2], 10), text: match[3].trim() });
+    } else if (references.length > 0 && CONTINUATION.test(line)) {
+      references[references.length - 1].text += ` ${line.trim()}`;
+    } else {
+      return { lines, references: [] };
+    }
+  }
+
+  return references.length > 0
+    ? { lines: lines.slice(0, headingIndex + 1), references }
+    : { lines, references: [] };
+};
+
+/**
+ * 取出脚注定义；extractReferenceList 为 true 时同时取出文末的参考文献列表
+ */
+export const extractMarkdownNotes = (markdown: string, extractReferenceList: boolean): MarkdownNotes => {
+  const lines = markdown.split('\n');
+  const footnoteResult = extractFootnotes(lines, markFencedLines(lines));
+  if (!extractReferenceList) {
+    return { markdown: footnoteResult.lines.join('\n'), footnotes: footnoteResult.footnotes, references: [] };
+  }
+
+  const referenceResult = extractReferences(footnoteResult.lines, markFencedLines(footnoteResult.lines));
+  return {
+    markdown: referenceResult.lines.join('\n'),
+    footnotes: footnoteResult.footnotes,
+    references: referenceResult.references,
+  };
+};
+
+/**
+ * 展开文献引用中的编号：[1, 3-5] → [1, 3, 4, 5]
+ */
+export const parseCitationNumbers = (citation: string): number[] =>
+  citation.split(/\s*[,，]\s*/).flatMap(part => {
+    const [start, end] = part.split(/\s*[–-]\s*/).map(value => parseInt(value, 10));
+    if (end === undefined) return [start];
+    if (end < start || end - start > 50) return [];
+    return Array.from({ length: end - start + 1 }, (_, offset) => start + offset);
+  });
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeMarkdown } from './markdownPipeline';
+
+describe('normalizeMarkdown', () => {
+  it('keeps code indentation inside a fenced block in a nested list item', () => {
+    const markdown = [
+      '- 第一项',
+      '    - 嵌套项',
+      '',
+      '        ```python',
+      '        def f():',
+      '            return  1',
+      '        ```',
+    ].join('\n');
+
+    expect(normalizeMarkdown(markdown).markdown).toBe(markdown);
+  });
+
+  it('keeps indented code blocks', () => {
+    const markdown = '说明：\n\n    if (a) {\n        b  =  1;\n    }\n\n正文  继续';
+
+    expect(normalizeMarkdown(markdown).markdown).toBe('说明：\n\n    if (a) {\n        b  =  1;\n    }\n\n正文 继续');
+  });
+
+  it('collapses whitespace in prose and caps stray indentation', () => {
+    const { markdown, appliedRepairs } = normalizeMarkdown('第一行　　内容\n      续行  文字');
+
+    expect(markdown).toBe('第一行 内容\n  续行 文字');
+    expect(appliedRepairs).toEqual(['normalizeSpaces']);
+  });
+});
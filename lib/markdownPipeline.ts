@@ -0,0 +1,188 @@
+/**
+ * 预览与导出共用的 Markdown 规范化：依次执行可单独开关的修复步骤（去除整体缩进、补全未闭合的代码块、
+ * 为未加围栏的 Mermaid 图表补上代码块、合并多余空白），预览渲染和各格式的生成器都基于同一份规范化结果，
+ * 避免预览中显示的内容与下载的文档不一致
+ */
+
+import { DEFAULT_REPAIR_PASSES, RepairPassId } from '../types';
+
+export interface RepairPass {
+  id: RepairPassId;
+  name: string;
+  description: string;
+  apply: (markdown: string) => string;
+}
+
+export interface NormalizedMarkdown {
+  markdown: string;
+  // 实际改动了内容的修复步骤，供界面提示
+  appliedRepairs: RepairPassId[];
+}
+
+// 不限制缩进：列表项（含嵌套列表）中的代码块围栏带有与列表内容对齐的缩进
+const FENCE = /^\s*(`{3,}|~{3,})/;
+
+// 逐行标记围栏代码块：返回每一行是否位于代码块内（含围栏行），以及结尾处未闭合的围栏
+const scanFences = (lines: string[]): { fenced: boolean[]; openFence: string | null } => {
+  let fence: string | null = null;
+  const fenced = lines.map(line => {
+    const match = line.match(FENCE);
+    if (fence) {
+      if (match && match[1][0] === fence[0] && match[1].length >= fence.length && !line.slice(line.indexOf(match[1]) + match[1].length).trim()) {
+        fence = null;
+      }
+      return true;
+    }
+    if (match) {
+      fence = match[1];
+      return true;
+    }
+    return false;
+  });
+  return { fenced, openFence: fence };
+};
+
+// 去除多余的缩进 (Smart Dedent)：所有非空行共同的最小缩进
+export const dedentMarkdown = (markdownText: string): string => {
+  const lines = markdownText.split('\n');
+  let minIndent = Infinity;
+  let hasNonEmptyLine = false;
+
+  for (const line of lines) {
+    if (line.trim().length > 0) {
+      hasNonEmptyLine = true;
+      const indent = line.match(/^\s*/)?.[0].length || 0;
+      if (indent < minIndent) {
+        minIndent = indent;
+      }
+    }
+  }
+
+  if (!hasNonEmptyLine || minIndent === 0 || minIndent === Infinity) return markdownText;
+  return lines.map(line => line.length >= minIndent ? line.substring(minIndent) : line).join('\n');
+};
+
+// 输出被截断时最后一个代码块常常缺少结束围栏，之后的内容都会被当作代码
+const closeOpenFence = (markdownText: string): string => {
+  const { openFence } = scanFences(markdownText.split('\n'));
+  if (!openFence) return markdownText;
+  return `${markdownText.replace(/\n*$/, '')}\n${openFence}\n`;
+};
+
+// 图表类型声明行：流程图需带方向，饼图可带 showData / title，其余类型独占一行
+const MERMAID_START = /^(?:(?:graph|flowchart)\s+(?:TB|TD|BT|RL|LR)\b.*|pie(?:\s+showData)?(?:\s+title\s.*)?|(?:sequenceDiagram|classDiagram(?:-v2)?|stateDiagram(?:-v2)?|erDiagram|gantt|gitGraph|journey|mindmap|timeline|quadrantChart|requirementDiagram|sankey(?:-beta)?|block(?:-beta)?|xychart(?:-beta)?|C4(?:Context|Container|Component|Dynamic|Deployment))\s*)$/;
+
+// 自动修复：代码块以外出现 Mermaid 图表声明时，从该行起到下一个代码块标记或连续两个空行为止包进 mermaid 代码块
+const wrapUnfencedMermaid = (markdownText: string): string => {
+  const lines = markdownText.split('\n');
+  const { fenced } = scanFences(lines);
+  const output: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (fenced[i] || !MERMAID_START.test(lines[i].trim())) {
+      output.push(lines[i]);
+      continue;
+    }
+
+    let end = i + 1;
+    while (end < lines.length) {
+      if (lines[end].trim().startsWith('```') || lines[end].trim().startsWith('~~~')) break;
+      if (end > i + 2 && !lines[end].trim() && !lines[end - 1].trim()) break;
+      end++;
+    }
+    const diagram = lines.slice(i, end);
+    while (diagram.length > 1 && !diagram[diagram.length - 1].trim()) diagram.pop();
+
+    output.push('```mermaid', ...diagram, '```');
+    i += diagram.length - 1;
+  }
+
+  return output.join('\n');
+};
+
+// 缩进宽度，制表符按 4 列计算
+const indentWidth = (indent: string): number => indent.replace(/\t/g, '    ').length;
+
+// 合并正文中的多余空白（全角空格、不换行空格、制表符）；围栏代码块和缩进代码块（空行后缩进 4 列以上，
+// 也包括列表项中的代码与续行段落）保持原样，列表项保留缩进（决定嵌套层级），
+// 其余行的缩进最多保留两个空格：既不会被误当作缩进代码块，脚注与参考文献的续行也仍可识别
+const normalizeWhitespace = (markdownText: string): string => {
+  const lines = markdownText.split('\n');
+  const { fenced } = scanFences(lines);
+  let previousBlank = true;
+  let inIndentedBlock = false;
+  return lines
+    .map((line, index) => {
+      if (fenced[index]) {
+        previousBlank = inIndentedBlock = false;
+        return line;
+      }
+      if (!line.trim()) {
+        previousBlank = true;
+        return '';
+      }
+      // 缩进代码块中的空行不会结束代码块
+      inIndentedBlock = (previousBlank || inIndentedBlock) && indentWidth(line.match(/^[ \t]*/)![0]) >= 4;
+      previousBlank = false;
+      if (inIndentedBlock) return line;
+
+      const listItemMatch = line.match(/^([ \t]+)((?:[-*+]|\d+[.)])\s.*)$/);
+      if (listItemMatch) {
+        return listItemMatch[1] + listItemMatch[2].replace(/[ \t\u3000\u00A0]+/g, ' ');
+      }
+      const [, indent, rest] = line.match(/^([ \t\u3000\u00A0]*)(.*)$/)!;
+      const leading = rest && indent.replace(/\t/g, '  ').length >= 2 ? '  ' : '';
+      return leading + rest.replace(/[ \t\u3000\u00A0]+/g, ' ');
+    })
+    .join('\n');
+};
+
+// 按执行顺序排列：先去缩进、补全围栏，才能正确识别代码块以外的图表与空白
+export const REPAIR_PASSES: RepairPass[] = [
+  {
+    id: 'dedent',
+    name: '去除整体缩进',
+    description: '所有行都带有相同缩进时（如从代码或聊天记录中复制）将其去除',
+    apply: dedentMarkdown,
+  },
+  {
+    id: 'closeFences',
+    name: '补全代码块',
+    description: '末尾的代码块缺少结束的 ``` 时自动补上',
+    apply: closeOpenFence,
+  },
+  {
+    id: 'wrapMermaid',
+    name: '识别 Mermaid 图表',
+    description: '未放在 ```mermaid 代码块中的 graph TD、sequenceDiagram 等图表自动补上代码块',
+    apply: wrapUnfencedMermaid,
+  },
+  {
+    id: 'normalizeSpaces',
+    name: '合并多余空白',
+    description: '正文中的全角空格、连续空格和制表符合并为一个空格，代码块不受影响',
+    apply: normalizeWhitespace,
+  },
+];
+
+/**
+ * 规范化 Markdown；repairs 中关闭的修复步骤不执行
+ */
+export const normalizeMarkdown = (
+  markdownText: string,
+  repairs: Record<RepairPassId, boolean> = DEFAULT_REPAIR_PASSES
+): NormalizedMarkdown => {
+  let markdown = markdownText.replace(/\r\n?/g, '\n');
+  const appliedRepairs: RepairPassId[] = [];
+
+  for (const pass of REPAIR_PASSES) {
+    if (!repairs[pass.id]) continue;
+    const repaired = pass.apply(markdown);
+    if (repaired !== markdown) {
+      appliedRepairs.push(pass.id);
+      markdown = repaired;
+    }
+  }
+
+  return { markdown, appliedRepairs };
+};
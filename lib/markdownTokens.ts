@@ -0,0 +1,149 @@
+/**
+ * Word、PDF 与 ODT 导出共用的 Markdown 预处理：规范化（见 markdownPipeline）后取出脚注与参考文献并解析为 marked token，
+ * 以及按页面方向分段、识别提示块和文档标题等与输出格式无关的结构分析
+ */
+
+import { marked } from "marked";
+import { ReferenceEntry, extractMarkdownNotes } from "./markdownNotes";
+import { hasHtmlTable, parseHtmlTables } from "./htmlTableParser";
+import { normalizeMarkdown } from "./markdownPipeline";
+import { DEFAULT_REPAIR_PASSES, PageOrientation, RepairPassId } from "../types";
+
+export interface PreparedMarkdown {
+  tokens: any[];
+  // 脚注标签 → 脚注内容（Markdown）
+  footnotes: Map<string, string>;
+  references: ReferenceEntry[];
+}
+
+/**
+ * 预处理 Markdown 并解析为 token；有参考文献时在末尾追加 type 为 references 的 token
+ */
+export const prepareMarkdownTokens = (
+  markdownText: string,
+  extractReferenceList: boolean,
+  repairs: Record<RepairPassId, boolean> = DEFAULT_REPAIR_PASSES
+): PreparedMarkdown => {
+  // 与预览使用同一份规范化结果，再取出脚注定义与文末参考文献
+  const notes = extractMarkdownNotes(normalizeMarkdown(markdownText, repairs).markdown, extractReferenceList);
+
+  // 使用 lexer 并在调用时传递选项，避免全局配置冲突
+  const tokens = marked.lexer(notes.markdown, {
+    gfm: true,
+    breaks: true
+  }) as any[];
+  if (notes.references.length > 0) {
+    // 参考文献条目放在文末（其标题之后），引用链接到各条目的书签
+    tokens.push({ type: 'references', raw: '', entries: notes.references });
+  }
+
+  return { tokens, footnotes: notes.footnotes, references: notes.references };
+};
+
+// 取标题的纯文本（去掉强调、行内代码等标记）
+export const getPlainText = (token: any): string => token.tokens
+  ? token.tokens.map((child: any) => getPlainText(child)).join('')
+  : token.text || '';
+
+/**
+ * 最高级标题只有一个且位于文档开头、后面还有更低级标题时，视为文档标题
+ */
+export const findDocumentTitle = (tokens: any[]): any | null => {
+  const headings = tokens.filter(token => token.type === 'heading');
+  const first = tokens.find(token => token.type !== 'space');
+  if (!first || first.type !== 'heading') return null;
+
+  const minDepth = Math.min(...headings.map(heading => heading.depth));
+  const topLevel = headings.filter(heading => heading.depth === minDepth);
+  return topLevel.length === 1 && topLevel[0] === first && headings.length > 1 ? first : null;
+};
+
+export interface CalloutStyle {
+  title: string;
+  color: string;
+  fill: string;
+}
+
+// GitHub 风格提示块 (> [!NOTE]) 的标题与配色
+export const CALLOUT_STYLES: { [type: string]: CalloutStyle } = {
+  NOTE: { title: "注意", color: "0969DA", fill: "EEF5FF" },
+  TIP: { title: "提示", color: "1A7F37", fill: "EEF9F0" },
+  IMPORTANT: { title: "重要", color: "8250DF", fill: "F5F0FF" },
+  WARNING: { title: "警告", color: "9A6700", fill: "FFF8E5" },
+  CAUTION: { title: "小心", color: "CF222E", fill: "FFEFEF" },
+};
+
+/**
+ * 识别提示块：首行为 [!TYPE] 时返回类型、可选的自定义标题以及去掉首行后的内部 token
+ */
+export const extractCallout = (blockquoteToken: any): { style: CalloutStyle; title: string; tokens: any[] } | null => {
+  const [first, ...rest] = blockquoteToken.tokens || [];
+  if (!first || first.type !== 'paragraph') return null;
+
+  const markerMatch = (first.text || '').match(/^\[!(\w+)\][ \t]*([^\n]*)/);
+  if (!markerMatch) return null;
+  const style = CALLOUT_STYLES[markerMatch[1].toUpperCase()];
+  if (!style) return null;
+
+  // 去掉首行（标记及标题）对应的行内 token
+  const inlineTokens: any[] = first.tokens || [];
+  const breakIndex = inlineTokens.findIndex(t => t.type === 'br');
+  const bodyText = first.text.slice(markerMatch[0].length).replace(/^\n/, '');
+  const tokens = breakIndex === -1
+    ? rest
+    : [{ ...first, text: bodyText, raw: bodyText, tokens: inlineTokens.slice(breakIndex + 1) }, ...rest];
+
+  return { style, title: markerMatch[2].trim() || style.title, tokens };
+};
+
+// 超过该列数的表格在开启自动横向时放入横向页面
+const WIDE_TABLE_COLUMNS = 6;
+// <!-- landscape --> 与 <!-- /landscape --> 之间的内容使用横向页面
+const LANDSCAPE_MARKER = /^<!--\s*(\/)?landscape\s*-->$/i;
+
+const isWideTable = (token: any): boolean => {
+  if (token.type === 'table') return token.header.length > WIDE_TABLE_COLUMNS;
+  if (token.type === 'html' && hasHtmlTable(token.text)) {
+    return parseHtmlTables(token.text).some(table => table.columnCount > WIDE_TABLE_COLUMNS);
+  }
+  return false;
+};
+
+/**
+ * 按页面方向把顶层 token 分段，相邻同方向的 token 合并为一段
+ */
+export const splitByOrientation = (
+  tokens: any[],
+  orientation: PageOrientation,
+  autoLandscapeTables: boolean
+): Array<{ landscape: boolean; tokens: any[] }> => {
+  const segments: Array<{ landscape: boolean; tokens: any[] }> = [];
+  const baseLandscape = orientation === 'landscape';
+  let inLandscapeRegion = false;
+
+  for (const token of tokens) {
+    const marker = token.type === 'html' ? token.text.trim().match(LANDSCAPE_MARKER) : null;
+    if (marker) {
+      inLandscapeRegion = !marker[1];
+      continue;
+    }
+
+    const last = segments[segments.length - 1];
+    // 空行不单独触发换节，避免两个宽表格之间多出一页纵向空白页
+    const landscape = token.type === 'space' && last
+      ? last.landscape
+      : baseLandscape || inLandscapeRegion || (autoLandscapeTables && isWideTable(token));
+    if (last && last.landscape === landscape) {
+      last.tokens.push(token);
+    } else {
+      segments.push({ landscape, tokens: [token] });
+    }
+  }
+
+  return segments.length > 0 ? segments : [{ landscape: baseLandscape, tokens: [] }];
+};
+
+/**
+ * 页眉页脚与封面使用的日期格式
+ */
+export const formatDocumentDate = (date: Date): string => `${date.getFullYear()}年${date.getMonth() + 1}月${date.getDate()}日`;
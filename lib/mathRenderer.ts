@@ -1,6 +1,5 @@
 import katex from 'katex';
 import 'katex/dist/katex.min.css';
-import html2canvas from 'html2canvas';
 
 /**
  * 渲染 LaTeX 公式为 HTML
@@ -351,113 +350,3 @@ export const normalizeUnicodeToLatex = (text: string): string => {
 
   return result;
 };
-
-/**
- * 将 LaTeX 公式渲染为 PNG 图片的 Base64 数据
- */
-export const renderLatexToImage = async (formula: string, displayMode: boolean = false): Promise<{ base64: string; width: number; height: number } | null> => {
-  console.log('[Formula Render] Starting render for formula:', formula, 'displayMode:', displayMode);
-
-  try {
-    // 创建一个临时的 div 来渲染公式
-    const container = document.createElement('div');
-    // 使用 opacity: 0 替代 visibility: hidden，确保浏览器正确渲染
-    container.style.position = 'fixed';
-    container.style.left = '0';
-    container.style.top = '0';
-    container.style.opacity = '0';
-    container.style.zIndex = '-9999';
-    // 设置明确的宽度和渲染提示
-    container.style.width = 'auto';
-    container.style.height = 'auto';
-    container.style.willChange = 'transform';
-    // 设置足够的内边距和背景色，确保生成的图片完整且清晰
-    container.style.padding = '8px';
-    container.style.backgroundColor = '#ffffff';
-    container.style.display = 'inline-block'; // 自适应内容宽度
-    document.body.appendChild(container);
-
-    // 预加载 KaTeX 字体
-    await document.fonts.load('14px KaTeX_Main-Regular');
-    await document.fonts.load('14px KaTeX_Math-Italic');
-    await document.fonts.load('14px KaTeX_Size1-Regular');
-    await document.fonts.load('14px KaTeX_Size2-Regular');
-    await document.fonts.load('14px KaTeX_Size3-Regular');
-    await document.fonts.load('14px KaTeX_Size4-Regular');
-
-    // 等待所有字体加载完成
-    await document.fonts.ready;
-    console.log('[Formula Render] Fonts loaded');
-
-    // 先转换 Unicode 符号为 LaTeX
-    const normalizedFormula = normalizeUnicodeToLatex(formula);
-    console.log('[Formula Render] Normalized formula:', normalizedFormula);
-
-    // 使用 Katex 渲染公式
-    katex.render(normalizedFormula, container, {
-      displayMode,
-      throwOnError: false,
-      strict: false,
-      output: 'html', // 仅生成 HTML，不需要 MathML，避免部分样式问题
-    });
-    console.log('[Formula Render] KaTeX rendered, container HTML length:', container.innerHTML.length);
-
-    // 额外等待确保渲染完成
-    await new Promise(resolve => setTimeout(resolve, 500));
-
-    // 获取尺寸 (px)
-    const width = container.offsetWidth;
-    const height = container.offsetHeight;
-    console.log('[Formula Render] Container dimensions:', { width, height, innerText: container.innerText });
-
-    // 如果尺寸为0，说明渲染失败
-    if (width === 0 || height === 0) {
-      console.error('[Formula Render] Invalid dimensions:', { width, height });
-      document.body.removeChild(container);
-      return null;
-    }
-
-    // 转换为 PNG
-    const canvas = await html2canvas(container, {
-      backgroundColor: '#ffffff',
-      scale: 2,
-      logging: false,
-      useCORS: true,
-      allowTaint: true,
-      // 优化性能：确保克隆文档中的样式正确
-      onclone: (clonedDoc) => {
-        const clonedContainer = clonedDoc.querySelector('div[style*="opacity: 0"]');
-        if (clonedContainer) {
-          (clonedContainer as HTMLElement).style.visibility = 'visible';
-          (clonedContainer as HTMLElement).style.opacity = '1';
-        }
-      }
-    });
-
-    const dataUrl = canvas.toDataURL('image/png', 1.0);
-    console.log('[Formula Render] PNG generated, dataURL length:', dataUrl.length);
-
-    document.body.removeChild(container);
-
-    // 限制 canvas 的内存占用
-    if (canvas.width * canvas.height > 20000000) {  // 20M 像素
-      console.warn('[Formula Render] Formula too large, reducing scale');
-      return null;
-    }
-
-    // 清理 canvas 引用以释放内存
-    (canvas as any).width = 0;
-    (canvas as any).height = 0;
-
-    // 返回 base64 数据（去掉 data:image/png;base64, 前缀）
-    return {
-      base64: dataUrl.split(',')[1],
-      width,
-      height
-    };
-  } catch (error) {
-    console.error('[Formula Render] Failed to render latex formula:', error);
-    return null;
-  }
-};
-
@@ -0,0 +1,87 @@
+/**
+ * 用 MathJax 把 LaTeX 公式渲染为 SVG（字形转换为路径，不依赖字体），供 PDF 导出绘制矢量公式，
+ * 以及 Word 中无法转换为原生公式时嵌入的公式图片
+ */
+
+import { mathjax } from 'mathjax-full/js/mathjax.js';
+import { TeX } from 'mathjax-full/js/input/tex.js';
+import { SVG } from 'mathjax-full/js/output/svg.js';
+import { browserAdaptor } from 'mathjax-full/js/adaptors/browserAdaptor.js';
+import { RegisterHTMLHandler } from 'mathjax-full/js/handlers/html.js';
+import { AllPackages } from 'mathjax-full/js/input/tex/AllPackages.js';
+import { EmbeddedImage, EmbeddedImageOptions, createEmbeddedImage } from './svgImage';
+
+export interface MathSvg {
+  svg: SVGSVGElement;
+  // 以字号 (em) 为单位的宽度、基线以上高度和基线以下深度
+  width: number;
+  ascent: number;
+  descent: number;
+}
+
+let mathDocument: ReturnType<typeof mathjax.document> | null = null;
+
+const getMathDocument = () => {
+  if (!mathDocument) {
+    RegisterHTMLHandler(browserAdaptor());
+    mathDocument = mathjax.document(document, {
+      InputJax: new TeX({
+        packages: AllPackages,
+        // 语法错误时抛出异常，由调用方回退为公式文本，而不是输出红色的错误提示
+        formatError: (_jax: unknown, error: Error) => { throw error; },
+      }),
+      OutputJax: new SVG({ fontCache: 'none' }),
+    });
+  }
+  return mathDocument;
+};
+
+/**
+ * 渲染公式；无法解析时返回 null
+ */
+export const renderLatexToSvg = (formula: string, displayMode: boolean = false): MathSvg | null => {
+  try {
+    const container = getMathDocument().convert(formula, { display: displayMode }) as HTMLElement;
+    const svg = container.querySelector('svg');
+    const viewBox = svg?.getAttribute('viewBox')?.split(/\s+/).map(Number);
+    if (!svg || !viewBox || viewBox.length !== 4 || viewBox.some(isNaN)) return null;
+
+    // viewBox 以 1/1000 em 为单位，纵坐标 0 为基线
+    const [, minY, width, height] = viewBox;
+    return {
+      svg,
+      width: width / 1000,
+      ascent: -minY / 1000,
+      descent: (minY + height) / 1000,
+    };
+  } catch (error) {
+    console.warn('[MathSvg] Failed to render formula:', formula.substring(0, 50), error);
+    return null;
+  }
+};
+
+/**
+ * 渲染为嵌入文档的公式图片：SVG（附 PNG 备用图）或 PNG
+ * @param fontSize 字号（像素）
+ * @param color 公式颜色（不带 #）
+ */
+export const renderLatexToEmbeddedImage = async (
+  formula: string,
+  displayMode: boolean,
+  fontSize: number,
+  color: string,
+  options: EmbeddedImageOptions
+): Promise<EmbeddedImage | null> => {
+  const math = renderLatexToSvg(formula, displayMode);
+  if (!math) return null;
+
+  // 独立的图片文件中 currentColor 没有可继承的颜色
+  const svg = math.svg.cloneNode(true) as SVGSVGElement;
+  svg.querySelectorAll('[fill="currentColor"], [stroke="currentColor"]').forEach(element => {
+    if (element.getAttribute('fill') === 'currentColor') element.setAttribute('fill', `#${color}`);
+    if (element.getAttribute('stroke') === 'currentColor') element.setAttribute('stroke', `#${color}`);
+  });
+  svg.removeAttribute('style');
+
+  return createEmbeddedImage(svg, math.width * fontSize, (math.ascent + math.descent) * fontSize, options);
+};
@@ -1,78 +1,48 @@
 import mermaid from 'mermaid';
-import html2canvas from 'html2canvas';
-
-// 初始化 Mermaid
-mermaid.initialize({
-  startOnLoad: false,
-  theme: 'default',
-  securityLevel: 'loose',
-  fontFamily: 'Microsoft YaHei, sans-serif',
-});
+import { SvgDiagram, parseSvgDiagram } from './svgImage';
+import { MermaidSettings } from '../types';
+
+// 每次渲染前按设置重新初始化：预览和导出使用同一份设置；securityLevel 不能被图表中的指令修改
+const configureMermaid = (settings: MermaidSettings, fontFamily: string): void => {
+  mermaid.initialize({
+    startOnLoad: false,
+    theme: settings.theme,
+    securityLevel: settings.strict ? 'strict' : 'loose',
+    fontFamily,
+  });
+};
 
 /**
- * 将 Mermaid 代码渲染为 PNG 图片的 Base64 数据
- * 返回包含 base64、宽度和高度的对象
+ * 渲染预览中的 Mermaid 图表，返回 SVG 代码；语法错误时抛出异常
  */
-export const renderMermaidToImage = async (code: string): Promise<{ base64: string; width: number; height: number } | null> => {
-  try {
-    // 生成唯一的 ID
-    const id = `mermaid-${Math.random().toString(36).substring(2, 11)}`;
-
-    // 使用 mermaid.render 生成 SVG
-    const { svg } = await mermaid.render(id, code);
-
-    // 创建一个临时的 div 来渲染 SVG
-    const container = document.createElement('div');
-    container.innerHTML = svg;
-    container.style.position = 'absolute';
-    container.style.left = '-9999px';
-    container.style.top = '-9999px';
-    container.style.width = 'auto';
-    container.style.height = 'auto';
-    document.body.appendChild(container);
-
-    // 获取 SVG 元素
-    const svgElement = container.querySelector('svg');
-    if (!svgElement) {
-      document.body.removeChild(container);
-      return null;
-    }
-
-    // 设置 SVG 样式以确保正确渲染
-    svgElement.style.width = '100%';
-    svgElement.style.height = '100%';
-
-    // 等待一小段时间确保渲染完成
-    await new Promise(resolve => setTimeout(resolve, 100));
-
-    // 获取实际尺寸
-    const rect = svgElement.getBoundingClientRect();
-    const width = rect.width;
-    const height = rect.height;
-
-    // 转换为 PNG，使用更高的 scale 提高清晰度
-    const canvas = await html2canvas(container, {
-      backgroundColor: '#ffffff',
-      scale: 4,
-      logging: false,
-      useCORS: true,
-      allowTaint: true
-    });
-
-    const dataUrl = canvas.toDataURL('image/png', 1.0);
-
-    document.body.removeChild(container);
+export const renderMermaidDiagram = async (code: string, settings: MermaidSettings, fontFamily: string): Promise<string> => {
+  configureMermaid(settings, fontFamily);
+  const id = `mermaid-${Math.random().toString(36).substring(2, 11)}`;
+  const { svg } = await mermaid.render(id, code);
+  return svg;
+};
 
-    // 返回 base64 数据（去掉 data:image/png;base64, 前缀）和尺寸
-    return {
-      base64: dataUrl.split(',')[1],
-      width,
-      height
-    };
-  } catch (error) {
-    console.error('Failed to render mermaid diagram:', error);
-    return null;
-  }
+/**
+ * 将 Mermaid 代码渲染为 SVG 元素，供 PDF 导出按矢量绘制，以及作为矢量图嵌入 Word、ODT 文档
+ * 标签使用 SVG <text> 而非 <foreignObject> 中的 HTML（PDF、Word 都无法绘制 HTML）；
+ * 主题和字体按设置，图表中的 %%{init: …}%% 指令仍然生效；forceFont 用于必须使用指定字体的场合（PDF 的嵌入字体）
+ * 返回 SVG 及其像素尺寸；语法错误时抛出异常
+ */
+export const renderMermaidToSvg = async (
+  code: string,
+  settings: MermaidSettings,
+  fontFamily: string,
+  forceFont = false
+): Promise<SvgDiagram> => {
+  configureMermaid(settings, fontFamily);
+  const id = `mermaid-${Math.random().toString(36).substring(2, 11)}`;
+  // 多条指令按先后合并，追加在图表之后才能覆盖图表中的同名设置
+  const config = { htmlLabels: false, flowchart: { htmlLabels: false }, ...(forceFont ? { fontFamily } : {}) };
+  const { svg } = await mermaid.render(id, `${code}\n%%{init: ${JSON.stringify(config)}}%%`);
+
+  const diagram = parseSvgDiagram(svg);
+  if (!diagram) throw new Error('Mermaid 输出的 SVG 无效');
+  return diagram;
 };
 
 /**
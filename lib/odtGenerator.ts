@@ -0,0 +1,1012 @@
+/**
+ * ODT 导出：与 Word、PDF 导出共用 Markdown 预处理和 token，生成 OpenDocument 文本 (.odt)，供 LibreOffice、WPS 打开。
+ * 样式表由文档主题生成；公式作为可编辑的 MathML 公式对象嵌入，图表（Mermaid、Graphviz 等）按导出设置嵌入 SVG（附 PNG 备用图）或 PNG；
+ * 脚注为原生脚注，页面设置、页眉页脚、封面、横向页面与标题编号沿用 Word 导出的设置
+ */
+
+import JSZip from "jszip";
+import katex from "katex";
+import { marked } from "marked";
+import { DiagramBlockInfo, parseDiagramInfo, renderDiagramToEmbeddedImage, resolveDiagramWidth } from "./diagramRenderers";
+import { extractLatexFormulas, hasLatexFormula } from "./mathRenderer";
+import { renderLatexToSvg } from "./mathSvg";
+import { LoadedImage, loadImage } from "./imageLoader";
+import { CODE_TOKEN_COLORS, splitCodeTokensIntoLines, tokenizeCode } from "./codeHighlighter";
+import { HtmlTable, splitHtmlTables } from "./htmlTableParser";
+import { HtmlRunSegment, containsInlineHtml, decodeHtmlEntities, htmlToParagraphs, htmlToSegments, isClosingTag, parseOpeningTag } from "./htmlRuns";
+import { getDocumentTheme } from "./documentThemes";
+import { CITATION, FOOTNOTE_REFERENCE, ReferenceEntry, parseCitationNumbers } from "./markdownNotes";
+import { extractCallout, findDocumentTitle, formatDocumentDate, getPlainText, prepareMarkdownTokens, splitByOrientation } from "./markdownTokens";
+import { resolvePageLayout } from "./pageSetup";
+import { DEFAULT_EXPORT_OPTIONS, DocumentTheme, PageLayout, PageNumberFormat, ThemeFont, WordExportOptions } from "../types";
+
+const ODT_MIME_TYPE = 'application/vnd.oasis.opendocument.text';
+
+const NAMESPACES = [
+  'xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"',
+  'xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0"',
+  'xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"',
+  'xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0"',
+  'xmlns:draw="urn:oasis:names:tc:opendocument:xmlns:drawing:1.0"',
+  'xmlns:fo="urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0"',
+  'xmlns:xlink="http://www.w3.org/1999/xlink"',
+  'xmlns:dc="http://purl.org/dc/elements/1.1/"',
+  'xmlns:meta="urn:oasis:names:tc:opendocument:xmlns:meta:1.0"',
+  'xmlns:svg="urn:oasis:names:tc:opendocument:xmlns:svg-compatible:1.0"',
+].join(' ');
+
+// 单位换算：主题字号为半磅，间距与页面尺寸为 twips
+const pt = (value: number): string => `${Number(value.toFixed(2))}pt`;
+const twipsToPt = (twips: number): number => twips / 20;
+const PT_PER_PX = 0.75;
+
+const PAGE_NUMBER_FORMATS: Record<PageNumberFormat, string> = {
+  decimal: '1',
+  dash: '1',
+  roman: 'I',
+  chinese: '一, 二, 三, ...',
+};
+
+// 当前导出的选项与主题
+let exportOptions: WordExportOptions = DEFAULT_EXPORT_OPTIONS;
+let theme: DocumentTheme = getDocumentTheme(DEFAULT_EXPORT_OPTIONS.themeId);
+let pageLayout: PageLayout;
+let printableWidth = 0;
+
+// content.xml 中按需生成的自动样式：样式内容 → 样式名与定义
+let automaticStyles = new Map<string, { name: string; xml: string }>();
+let automaticStyleCounter = 0;
+// 嵌入的图片与公式对象：包内路径 → 内容
+let pictures = new Map<string, Uint8Array>();
+let formulaObjects = new Map<string, string>();
+let imageCache = new Map<string, LoadedImage | null>();
+let headingAnchors = new Map<string, string>();
+let headingStartLevel = 1;
+let tableCounter = 0;
+
+// 脚注：标签 → 内容，以及已生成的脚注编号（同一脚注再次引用时引用已有脚注）
+let footnoteDefinitions = new Map<string, string>();
+let footnoteIds = new Map<string, number>();
+let noteCounter = 0;
+let referenceNumbers = new Set<number>();
+
+const escapeXml = (text: string): string => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// ODF 会合并连续空格：多余的空格、制表符与换行使用对应的元素
+const textToXml = (text: string): string => text
+  .split('\n')
+  .map(line => escapeXml(line)
+    .replace(/\t/g, '<text:tab/>')
+    .replace(/ {2,}/g, spaces => ` <text:s text:c="${spaces.length - 1}"/>`)
+    .replace(/^ /, '<text:s/>'))
+  .join('<text:line-break/>');
+
+const fontName = (name: string): string => name.replace(/[^A-Za-z0-9\u4e00-\u9fff]+/g, '_');
+
+const fontProperties = (font: ThemeFont): string =>
+  `style:font-name="${fontName(font.latin)}" style:font-name-asian="${fontName(font.eastAsia)}" style:font-name-complex="${fontName(font.latin)}"`;
+
+const sizeProperties = (halfPoints: number): string =>
+  `fo:font-size="${pt(halfPoints / 2)}" style:font-size-asian="${pt(halfPoints / 2)}" style:font-size-complex="${pt(halfPoints / 2)}"`;
+
+const weightProperties = (bold: boolean): string => {
+  const weight = bold ? 'bold' : 'normal';
+  return `fo:font-weight="${weight}" style:font-weight-asian="${weight}" style:font-weight-complex="${weight}"`;
+};
+
+// 注册自动样式，内容相同的样式只生成一次
+const getAutomaticStyle = (prefix: string, build: (name: string) => string, key: string): string => {
+  const existing = automaticStyles.get(`${prefix}:${key}`);
+  if (existing) return existing.name;
+  const name = `${prefix}${++automaticStyleCounter}`;
+  automaticStyles.set(`${prefix}:${key}`, { name, xml: build(name) });
+  return name;
+};
+
+const bookmarkName = (anchor: string): string => escapeXml(anchor);
+
+// ---------- 行内内容 ----------
+
+interface SpanStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  superScript?: boolean;
+  subScript?: boolean;
+  code?: boolean;
+  color?: string;
+  background?: string;
+}
+
+const getTextStyle = (style: SpanStyle): string | null => {
+  const properties: string[] = [];
+  if (style.bold) properties.push(weightProperties(true));
+  if (style.italic) properties.push('fo:font-style="italic" style:font-style-asian="italic" style:font-style-complex="italic"');
+  if (style.underline) properties.push('style:text-underline-style="solid" style:text-underline-width="auto" style:text-underline-color="font-color"');
+  if (style.strike) properties.push('style:text-line-through-style="solid"');
+  if (style.superScript) properties.push('style:text-position="super 58%"');
+  else if (style.subScript) properties.push('style:text-position="sub 58%"');
+  if (style.code) properties.push(`style:font-name="${fontName(theme.codeFont)}" style:font-name-complex="${fontName(theme.codeFont)}"`);
+  if (style.color) properties.push(`fo:color="#${style.color}"`);
+  if (style.background) properties.push(`fo:background-color="#${style.background}"`);
+  if (properties.length === 0) return null;
+
+  const xml = properties.join(' ');
+  return getAutomaticStyle('T', name => `<style:style style:name="${name}" style:family="text"><style:text-properties ${xml}/></style:style>`, xml);
+};
+
+const span = (text: string, style: SpanStyle): string => {
+  if (!text) return '';
+  const styleName = getTextStyle(style);
+  return styleName ? `<text:span text:style-name="${styleName}">${textToXml(text)}</text:span>` : textToXml(text);
+};
+
+const applyHtmlStyle = (baseStyle: SpanStyle, style: HtmlRunSegment['style']): SpanStyle => {
+  const result: SpanStyle = { ...baseStyle };
+  if (style.bold) result.bold = true;
+  if (style.italics) result.italic = true;
+  if (style.underline) result.underline = true;
+  if (style.strike) result.strike = true;
+  if (style.superScript) result.superScript = true;
+  if (style.subScript) result.subScript = true;
+  if (style.highlight) result.background = 'FFFF00';
+  if (style.color) result.color = style.color;
+  if (style.code) {
+    result.code = true;
+    result.background = theme.colors.codeBg;
+  }
+  if (style.background) result.background = style.background;
+  return result;
+};
+
+const htmlSegmentsToXml = (segments: HtmlRunSegment[], baseStyle: SpanStyle): string => segments
+  .map(segment => segment.break ? '<text:line-break/>' : span(segment.text, applyHtmlStyle(baseStyle, segment.style)))
+  .join('');
+
+const textToSpans = (text: string, style: SpanStyle): string => {
+  const normalizedText = text.replace(/[ \t\u3000\u00A0]+/g, ' ');
+  return containsInlineHtml(normalizedText)
+    ? htmlSegmentsToXml(htmlToSegments(normalizedText), style)
+    : span(decodeHtmlEntities(normalizedText), style);
+};
+
+const createNote = (bodyXml: string): string => {
+  const id = ++noteCounter;
+  return `<text:note text:id="ftn${id}" text:note-class="footnote"><text:note-citation>${id}</text:note-citation>`
+    + `<text:note-body><text:p text:style-name="Footnote">${bodyXml}</text:p></text:note-body></text:note>`;
+};
+
+// 脚注引用：首次引用时生成脚注，再次引用同一脚注时引用其编号
+const createFootnoteReference = (label: string): string => {
+  const existing = footnoteIds.get(label);
+  if (existing !== undefined) {
+    return `<text:note-ref text:note-class="footnote" text:reference-format="text" text:ref-name="ftn${existing}">${existing}</text:note-ref>`;
+  }
+  footnoteIds.set(label, noteCounter + 1);
+  return createNote(inlineTokensToXml(marked.Lexer.lexInline(footnoteDefinitions.get(label) || '', { gfm: true }), {}));
+};
+
+// 处理文本中的脚注引用 [^id] 与文献引用 [n]：文献引用以上标显示并链接到参考文献
+const textWithNotesToXml = (text: string, style: SpanStyle): string => {
+  const pattern = new RegExp(`${FOOTNOTE_REFERENCE.source}|${CITATION.source}`, 'g');
+  let xml = '';
+  let lastIndex = 0;
+  let match;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const [marker, label, citation] = match;
+    let note: string | null = null;
+    if (label !== undefined && footnoteDefinitions.has(label)) {
+      note = createFootnoteReference(label);
+    } else if (citation !== undefined) {
+      const numbers = parseCitationNumbers(citation);
+      if (numbers.length > 0 && numbers.every(n => referenceNumbers.has(n))) {
+        note = `<text:a xlink:type="simple" xlink:href="#_Ref_${numbers[0]}">${span(marker, { ...style, superScript: true, color: theme.colors.link })}</text:a>`;
+      }
+    }
+    if (note === null) continue;
+
+    xml += textToSpans(text.slice(lastIndex, match.index), style) + note;
+    lastIndex = match.index + marker.length;
+  }
+
+  return xml + textToSpans(text.slice(lastIndex), style);
+};
+
+const resolveHeadingAnchor = (anchor: string): string | undefined => {
+  let decoded = anchor;
+  try {
+    decoded = decodeURIComponent(anchor);
+  } catch {
+    // 非法的 URI 编码，按原文查找
+  }
+  return headingAnchors.get(decoded)
+    ?? headingAnchors.get(new marked.Slugger().slug(decoded, { dryrun: true }));
+};
+
+// 链接：#锚点 跳转到对应标题，外部链接按 linkStyle 附加网址或放入脚注
+const linkToXml = (token: any, style: SpanStyle): string => {
+  const href: string = token.href || '';
+  const linkStyle: SpanStyle = { ...style, color: theme.colors.link, underline: true };
+  const children = token.tokens ? inlineTokensToXml(token.tokens, linkStyle) : textToSpans(token.text, linkStyle);
+  if (!href) return children;
+
+  if (href.startsWith('#')) {
+    const anchor = resolveHeadingAnchor(href.slice(1));
+    return anchor ? `<text:a xlink:type="simple" xlink:href="#${bookmarkName(anchor)}">${children}</text:a>` : children;
+  }
+
+  const link = `<text:a xlink:type="simple" xlink:href="${escapeXml(href)}">${children}</text:a>`;
+  const displayUrl = href.replace(/^mailto:/, '');
+  if (token.text === href || token.text === displayUrl) return link;
+  switch (exportOptions.linkStyle) {
+    case 'inline-url':
+      return `${link}${span(` (${displayUrl})`, { ...style, color: '6B7280' })}`;
+    case 'footnote':
+      return `${link}${createNote(`<text:a xlink:type="simple" xlink:href="${escapeXml(href)}">${textToXml(displayUrl)}</text:a>`)}`;
+    default:
+      return link;
+  }
+};
+
+const IMAGE_EXTENSIONS: Record<LoadedImage['type'], string> = { png: 'png', jpg: 'jpg', gif: 'gif', bmp: 'bmp' };
+
+const PICTURE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml',
+};
+
+interface ImageSource {
+  data: Uint8Array;
+  extension: string;
+}
+
+// 嵌入图片：作为字符定位的图片框；有多个来源时依次为首选图片和备用图片（如 SVG 与其 PNG 备用图）
+const createImageFrame = (sources: ImageSource[], width: number, height: number, name: string): string => {
+  const images = sources.map(({ data, extension }) => {
+    const path = `Pictures/image${pictures.size + 1}.${extension}`;
+    pictures.set(path, data);
+    return `<draw:image xlink:href="${path}" xlink:type="simple" xlink:show="embed" xlink:actuate="onLoad"/>`;
+  });
+  return `<draw:frame draw:style-name="fr1" draw:name="${escapeXml(name)}${pictures.size}" text:anchor-type="as-char" svg:width="${pt(width)}" svg:height="${pt(height)}">`
+    + `${images.join('')}</draw:frame>`;
+};
+
+// 按可用宽度等比缩小（像素 → 磅）
+const fitImageSize = (pixelWidth: number, pixelHeight: number, maxWidth: number = printableWidth): { width: number; height: number } => {
+  const scale = Math.min(1, maxWidth / (pixelWidth * PT_PER_PX));
+  return { width: pixelWidth * PT_PER_PX * scale, height: pixelHeight * PT_PER_PX * scale };
+};
+
+const imageToXml = (token: any, style: SpanStyle): string => {
+  const image = imageCache.get(token.href);
+  if (!image) {
+    const alt = token.text || '';
+    return span(`[图片${alt ? `: ${alt}` : ''}]`, { ...style, color: '9CA3AF', background: theme.colors.codeBg });
+  }
+  const { width, height } = fitImageSize(image.width, image.height);
+  return createImageFrame([{ data: image.data, extension: IMAGE_EXTENSIONS[image.type] }], width, height, 'Image');
+};
+
+// 查找与开始标签配对的结束标签 token，同名标签嵌套时按层级匹配
+const findClosingTagIndex = (inlineTokens: any[], openIndex: number, name: string): number => {
+  let depth = 0;
+  for (let i = openIndex + 1; i < inlineTokens.length; i++) {
+    const token = inlineTokens[i];
+    if (token.type !== 'html') continue;
+    if (parseOpeningTag(token.raw)?.name === name) {
+      depth++;
+    } else if (isClosingTag(token.raw, name)) {
+      if (depth === 0) return i;
+      depth--;
+    }
+  }
+  return -1;
+};
+
+const inlineTokensToXml = (inlineTokens: any[], style: SpanStyle): string => {
+  if (!inlineTokens || !Array.isArray(inlineTokens)) return '';
+
+  let xml = '';
+  for (let i = 0; i < inlineTokens.length; i++) {
+    const token = inlineTokens[i];
+    // marked 把行内 HTML 的开始、结束标签拆成单独的 token：中间的 token 按标签的格式处理
+    const openingTag = token.type === 'html' ? parseOpeningTag(token.raw) : null;
+    const closingIndex = openingTag ? findClosingTagIndex(inlineTokens, i, openingTag.name) : -1;
+    if (openingTag && closingIndex !== -1) {
+      xml += inlineTokensToXml(inlineTokens.slice(i + 1, closingIndex), applyHtmlStyle(style, openingTag.style));
+      i = closingIndex;
+    } else {
+      xml += inlineTokenToXml(token, style);
+    }
+  }
+  return xml;
+};
+
+const inlineTokenToXml = (token: any, inheritedStyle: SpanStyle): string => {
+  let style = inheritedStyle;
+  switch (token.type) {
+    case 'strong':
+      style = { ...style, bold: true };
+      break;
+    case 'em':
+      style = { ...style, italic: true };
+      break;
+    case 'del':
+      style = { ...style, strike: true };
+      break;
+    case 'codespan':
+      return span(token.text, { ...style, code: true, background: theme.colors.codeBg });
+    case 'link':
+      return linkToXml(token, style);
+    case 'image':
+      return imageToXml(token, style);
+    case 'br':
+      return '<text:line-break/>';
+    case 'html':
+      // 未配对的标签（如单独的 <br>）
+      return /^<br\s*\/?>$/i.test(token.raw.trim()) ? '<text:line-break/>' : '';
+    default:
+      break;
+  }
+
+  if (token.tokens && Array.isArray(token.tokens)) {
+    return inlineTokensToXml(token.tokens, style);
+  }
+
+  // 转义字符 \< 等取转义后的字符
+  const text = ((token.type === 'escape' ? token.text : token.raw || token.text) || '').replace(/[ \t\u3000\u00A0]+/g, ' ');
+  return text ? textWithNotesToXml(text, style) : '';
+};
+
+// 公式对象：KaTeX 输出的 MathML 作为嵌入的公式文档，尺寸按 MathJax 的排版结果估算（打开时由办公软件重新排版）
+const createFormulaObject = (formula: string, displayMode: boolean): string | null => {
+  let mathml: string | null = null;
+  try {
+    const html = katex.renderToString(formula, { displayMode, output: 'mathml', throwOnError: true, strict: false });
+    mathml = html.match(/<math[\s\S]*<\/math>/)?.[0] ?? null;
+  } catch {
+    return null;
+  }
+  if (!mathml || new DOMParser().parseFromString(mathml, 'application/xml').querySelector('parsererror')) return null;
+
+  const size = theme.body.size / 2;
+  const metrics = renderLatexToSvg(formula, displayMode);
+  const width = metrics ? metrics.width * size : formula.length * size * 0.5;
+  const height = metrics ? (metrics.ascent + metrics.descent) * size : size * 1.4;
+  const name = `Object ${formulaObjects.size + 1}`;
+  formulaObjects.set(name, `<?xml version="1.0" encoding="UTF-8"?>\n${mathml}`);
+
+  return `<draw:frame draw:style-name="fr2" draw:name="${name}" text:anchor-type="as-char" svg:width="${pt(width)}" svg:height="${pt(height)}">`
+    + `<draw:object xlink:href="./${name}" xlink:type="simple" xlink:show="embed" xlink:actuate="onLoad"/></draw:frame>`;
+};
+
+// 含公式的内容：公式转换为公式对象，其余部分按行内 Markdown 处理
+const mixedContentToXml = (text: string, tokens: any[] | null, style: SpanStyle = {}): string => {
+  if (!hasLatexFormula(text)) {
+    return tokens ? inlineTokensToXml(tokens, style) : textWithNotesToXml(text, style);
+  }
+
+  const { processedText, formulas } = extractLatexFormulas(text);
+  if (formulas.length === 0) {
+    return tokens ? inlineTokensToXml(tokens, style) : textWithNotesToXml(text, style);
+  }
+
+  return processedText.split(/(\[\[FORMULA_(?:INLINE|BLOCK)_\d+\]\])/).map(part => {
+    const formula = formulas.find(f => f.placeholder === part);
+    if (formula) {
+      return createFormulaObject(formula.formula, formula.type === 'block') ?? span(formula.formula, { ...style, italic: true });
+    }
+    return part ? inlineTokensToXml(marked.Lexer.lexInline(part, { gfm: true }), style) : '';
+  }).join('');
+};
+
+// ---------- 块级内容 ----------
+
+// 块级元素所在的上下文：引用块中的段落使用引用样式，列表项中不能放表格
+interface BlockContext {
+  paragraphStyle: string;
+  inList: boolean;
+}
+
+const BODY_CONTEXT: BlockContext = { paragraphStyle: 'Text_20_body', inList: false };
+
+const paragraph = (styleName: string, content: string): string =>
+  `<text:p text:style-name="${styleName}">${content}</text:p>`;
+
+// 基于已有样式的自动段落样式（居中、分页、页面样式等）
+const getParagraphStyle = (parent: string, properties: string, attributes: string = ''): string => {
+  const key = `${parent}|${properties}|${attributes}`;
+  return getAutomaticStyle('P', name =>
+    `<style:style style:name="${name}" style:family="paragraph" style:parent-style-name="${parent}"${attributes}><style:paragraph-properties ${properties}/></style:style>`, key);
+};
+
+const renderHeading = (token: any): string => {
+  const level = Math.min(token.depth, 6);
+  const anchor = token.anchor ? `<text:bookmark text:name="${bookmarkName(token.anchor)}"/>` : '';
+  // 标题编号由大纲编号（styles.xml）生成，编号范围外的标题不参与编号
+  const numbered = exportOptions.headingNumbering && level >= headingStartLevel;
+  return `<text:h text:style-name="Heading_20_${level}" text:outline-level="${level}"${numbered ? '' : ' text:is-list-header="true"'}>`
+    + `${anchor}${mixedContentToXml(token.text, token.tokens)}</text:h>`;
+};
+
+const renderBodyParagraph = (token: any, context: BlockContext): string => {
+  const text = token.text || '';
+  // 独占一段的块级公式和图片居中显示
+  const isBlockFormula = /^(\$\$[\s\S]*\$\$|\\\[[\s\S]*\\\])$/.test(text.trim());
+  const isStandaloneImage = token.tokens?.length === 1 && token.tokens[0].type === 'image';
+  const styleName = isBlockFormula || isStandaloneImage
+    ? getParagraphStyle(context.paragraphStyle, 'fo:text-align="center" fo:text-indent="0pt"')
+    : context.paragraphStyle;
+  return paragraph(styleName, mixedContentToXml(text, token.tokens));
+};
+
+// 列表：项目符号与编号由列表样式（styles.xml）定义，任务项用复选框字符
+const renderList = async (listToken: any): Promise<string> => {
+  const start = Number(listToken.start) || 1;
+  const items: string[] = [];
+
+  for (let index = 0; index < listToken.items.length; index++) {
+    const item = listToken.items[index];
+    let content = '';
+    let isFirstBlock = true;
+
+    for (const child of item.tokens || []) {
+      if (child.type === 'list') {
+        content += await renderList(child);
+        continue;
+      }
+      if (child.type !== 'text' && child.type !== 'paragraph') {
+        // 列表项中的代码块、引用等，按普通块级元素处理
+        content += await renderTokens([child], { paragraphStyle: 'List_20_Contents', inList: true });
+        continue;
+      }
+
+      const checkbox = isFirstBlock && item.task ? `${item.checked ? '☑' : '☐'} ` : '';
+      content += paragraph('List_20_Contents', textToXml(checkbox) + mixedContentToXml(child.text, child.tokens));
+      isFirstBlock = false;
+    }
+
+    // 有序列表从 start 开始编号
+    const startValue = listToken.ordered && index === 0 && start !== 1 ? ` text:start-value="${start}"` : '';
+    items.push(`<text:list-item${startValue}>${content || paragraph('List_20_Contents', '')}</text:list-item>`);
+  }
+
+  return `<text:list text:style-name="${listToken.ordered ? 'Numbering_20_123' : 'List_20_1'}">${items.join('')}</text:list>`;
+};
+
+// 代码块：按语言着色，每行一个段落，可选语言标题和行号
+const renderCodeBlock = (code: string, lang?: string): string => {
+  const language = (lang || '').trim().split(/\s+/)[0];
+  const lines = splitCodeTokensIntoLines(tokenizeCode(code.replace(/\t/g, '    '), language));
+  const numberWidth = String(lines.length).length;
+  let xml = exportOptions.codeLanguageCaption && language
+    ? paragraph('Code_20_Caption', textToXml(language.toUpperCase()))
+    : '';
+
+  lines.forEach((lineTokens, index) => {
+    const lineNumber = exportOptions.codeLineNumbers
+      ? span(`${String(index + 1).padStart(numberWidth, ' ')}  `, { color: '9CA3AF' })
+      : '';
+    const content = lineTokens.map(({ text, kind }) =>
+      span(text, kind === 'plain' ? {} : { color: CODE_TOKEN_COLORS[kind], italic: kind === 'comment' })).join('');
+    xml += paragraph('Preformatted_20_Text', lineNumber + content);
+  });
+  return xml;
+};
+
+// 宽度按代码块指定的宽度或设置中的最大宽度
+const renderDiagram = async (code: string, info: DiagramBlockInfo): Promise<string | null> => {
+  const image = await renderDiagramToEmbeddedImage(code.trim(), info, exportOptions);
+  if (!image) return null;
+
+  const sources: ImageSource[] = image.svg
+    ? [{ data: image.svg, extension: 'svg' }, { data: image.png, extension: 'png' }]
+    : [{ data: image.png, extension: 'png' }];
+  const width = resolveDiagramWidth(image.width * PT_PER_PX, printableWidth, info, exportOptions.diagramMaxWidth, PT_PER_PX);
+  const height = image.height * width / image.width;
+  return paragraph(getParagraphStyle('Text_20_body', 'fo:text-align="center" fo:text-indent="0pt"'), createImageFrame(sources, width, height, 'Diagram'));
+};
+
+// 引用块：内部内容使用引用段落样式（左边框、底色）；提示块使用对应颜色并加标题
+const renderBlockquote = async (token: any): Promise<string> => {
+  const callout = extractCallout(token);
+  if (!callout) {
+    return renderTokens(token.tokens || [], { paragraphStyle: 'Quotations', inList: false });
+  }
+
+  const styleName = getParagraphStyle(
+    'Quotations',
+    `fo:background-color="#${callout.style.fill}" fo:border-left="2.25pt solid #${callout.style.color}"`
+  );
+  const title = paragraph(styleName, span(callout.title, { bold: true, color: callout.style.color }));
+  return title + await renderTokens(callout.tokens, { paragraphStyle: styleName, inList: false });
+};
+
+// 表格单元格：上下边框与主题的边框颜色一致
+interface TableCellContent {
+  xml: string;
+  colSpan: number;
+  rowSpan: number;
+  isHeader: boolean;
+  align: 'left' | 'center' | 'right' | null;
+}
+
+const getCellParagraphStyle = (isHeader: boolean, align: TableCellContent['align']): string => {
+  const parent = isHeader ? 'Table_20_Heading' : 'Table_20_Contents';
+  return align ? getParagraphStyle(parent, `fo:text-align="${align === 'left' ? 'start' : align === 'right' ? 'end' : 'center'}"`) : parent;
+};
+
+// 按内容长度分配列宽（中文字符按 2 个宽度计），短列使用最小宽度
+const calculateColumnWidths = (columnTexts: string[][]): number[] => {
+  const minColumnWidth = 50;
+  const lengths = columnTexts.map(texts => Math.max(1, ...texts.map(text =>
+    text.split('').reduce((sum, char) => sum + (char.charCodeAt(0) > 255 ? 2 : 1), 0))));
+  const shortColumns = lengths.map(length => length <= 4);
+  const regularCount = shortColumns.filter(short => !short).length;
+  if (regularCount === 0) return lengths.map(() => printableWidth / lengths.length);
+
+  const regularWidth = (printableWidth - (lengths.length - regularCount) * minColumnWidth) / regularCount;
+  return shortColumns.map(short => short ? minColumnWidth : regularWidth);
+};
+
+/**
+ * 生成表格：rows 中为每行实际存在的单元格（被合并覆盖的位置自动补齐），表头行在跨页时重复
+ */
+const createTable = (rows: TableCellContent[][], headerRowCount: number, columnWidths: number[]): string => {
+  const name = `Table${++tableCounter}`;
+  const tableStyle = getAutomaticStyle('Tbl', styleName =>
+    `<style:style style:name="${styleName}" style:family="table"><style:table-properties style:width="${pt(printableWidth)}" table:align="left" fo:margin-top="4pt" fo:margin-bottom="4pt"/></style:style>`, 'table');
+  const cellStyle = getAutomaticStyle('Cell', styleName =>
+    `<style:style style:name="${styleName}" style:family="table-cell"><style:table-cell-properties fo:padding="3pt" style:vertical-align="middle" fo:border-left="none" fo:border-right="none" fo:border-top="0.75pt solid #${theme.colors.border}" fo:border-bottom="0.75pt solid #${theme.colors.border}"/></style:style>`, 'cell');
+  const columns = columnWidths.map(width => {
+    const columnStyle = getAutomaticStyle('Col', styleName =>
+      `<style:style style:name="${styleName}" style:family="table-column"><style:table-column-properties style:column-width="${pt(width)}"/></style:style>`, pt(width));
+    return `<table:table-column table:style-name="${columnStyle}"/>`;
+  }).join('');
+
+  const columnCount = columnWidths.length;
+  const occupied: boolean[][] = rows.map(() => Array(columnCount).fill(false));
+  const rowXml = rows.map((cells, rowIndex) => {
+    let column = 0;
+    let xml = '';
+    for (const cell of cells) {
+      // 上方合并单元格覆盖的位置
+      while (column < columnCount && occupied[rowIndex][column]) {
+        xml += '<table:covered-table-cell/>';
+        column++;
+      }
+      if (column >= columnCount) break;
+      const colSpan = Math.min(cell.colSpan, columnCount - column);
+      const rowSpan = Math.min(cell.rowSpan, rows.length - rowIndex);
+      for (let r = rowIndex; r < rowIndex + rowSpan; r++) {
+        for (let c = column; c < column + colSpan; c++) occupied[r][c] = true;
+      }
+      const spans = (colSpan > 1 ? ` table:number-columns-spanned="${colSpan}"` : '')
+        + (rowSpan > 1 ? ` table:number-rows-spanned="${rowSpan}"` : '');
+      xml += `<table:table-cell table:style-name="${cellStyle}" office:value-type="string"${spans}>`
+        + `${paragraph(getCellParagraphStyle(cell.isHeader, cell.align), cell.xml)}</table:table-cell>`
+        + '<table:covered-table-cell/>'.repeat(colSpan - 1);
+      column += colSpan;
+    }
+    while (column < columnCount) {
+      xml += occupied[rowIndex][column] ? '<table:covered-table-cell/>' : `<table:table-cell table:style-name="${cellStyle}" office:value-type="string"><text:p/></table:table-cell>`;
+      column++;
+    }
+    return `<table:table-row>${xml}</table:table-row>`;
+  });
+
+  const header = headerRowCount > 0 ? `<table:table-header-rows>${rowXml.slice(0, headerRowCount).join('')}</table:table-header-rows>` : '';
+  return `<table:table table:name="${name}" table:style-name="${tableStyle}">${columns}${header}${rowXml.slice(headerRowCount).join('')}</table:table>`;
+};
+
+// 列表项中不能放表格：按行输出为文本
+const tableAsText = (rows: TableCellContent[][]): string =>
+  rows.map(cells => paragraph('List_20_Contents', cells.map(cell => cell.xml).join(' | '))).join('');
+
+const renderMarkdownTable = (token: any, context: BlockContext): string => {
+  const align = token.align || [];
+  const columnCount = token.header.length;
+  const toRow = (cells: any[], isHeader: boolean): TableCellContent[] => cells.slice(0, columnCount).map((cell, column) => ({
+    xml: mixedContentToXml(cell.text, cell.tokens),
+    colSpan: 1,
+    rowSpan: 1,
+    isHeader,
+    align: align[column] || null,
+  }));
+  const rows = [toRow(token.header, true), ...token.rows.map((row: any[]) => toRow(row, false))];
+  if (context.inList) return tableAsText(rows);
+
+  const columnWidths = calculateColumnWidths(
+    Array.from({ length: columnCount }, (_, col) => [token.header, ...token.rows].map((row: any[]) => row[col]?.text || ''))
+  );
+  return createTable(rows, 1, columnWidths);
+};
+
+const renderHtmlTable = (table: HtmlTable, context: BlockContext): string => {
+  const rows = table.rows.map(row => row.cells.map(cell => ({
+    xml: mixedContentToXml(cell.text, null),
+    colSpan: cell.colSpan,
+    rowSpan: cell.rowSpan,
+    isHeader: cell.isHeader,
+    align: cell.align,
+  })));
+  if (context.inList) return tableAsText(rows);
+
+  // 表头行只能位于表格开头
+  const headerRowCount = table.rows.findIndex(row => !row.isHeader);
+  return createTable(rows, headerRowCount === -1 ? 0 : headerRowCount, Array(table.columnCount).fill(printableWidth / table.columnCount));
+};
+
+// 参考文献条目：悬挂缩进，编号处设置书签供正文引用跳转
+const renderReferences = (entries: ReferenceEntry[]): string => entries.map(entry => paragraph(
+  'Bibliography',
+  `<text:bookmark text:name="_Ref_${entry.number}"/>${textToXml(`[${entry.number}] `)}${inlineTokensToXml(marked.Lexer.lexInline(entry.text, { gfm: true }), {})}`
+)).join('');
+
+const renderTokens = async (tokens: any[], context: BlockContext = BODY_CONTEXT): Promise<string> => {
+  let xml = '';
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'heading':
+        xml += renderHeading(token);
+        break;
+      case 'paragraph':
+      case 'text':
+        xml += renderBodyParagraph(token, context);
+        break;
+      case 'list':
+        xml += await renderList(token);
+        break;
+      case 'code': {
+        const diagramInfo = parseDiagramInfo(token.lang);
+        if (diagramInfo) {
+          const diagram = await renderDiagram(token.text, diagramInfo);
+          if (diagram) {
+            xml += diagram;
+            break;
+          }
+        }
+        xml += renderCodeBlock(token.text, token.lang);
+        break;
+      }
+      case 'table':
+        xml += renderMarkdownTable(token, context);
+        break;
+      case 'html':
+        // 表格前后的 <div>、<p>、<details> 等块级 HTML 按段落输出，注释等不可见内容忽略
+        xml += splitHtmlTables(token.text).map(part => part.type === 'table'
+          ? renderHtmlTable(part.table, context)
+          : htmlToParagraphs(part.html).map(segments => paragraph(context.paragraphStyle, htmlSegmentsToXml(segments, {}))).join('')
+        ).join('');
+        break;
+      case 'blockquote':
+        xml += await renderBlockquote(token);
+        break;
+      case 'references':
+        xml += renderReferences(token.entries);
+        break;
+      case 'hr':
+        xml += paragraph('Horizontal_20_Line', '');
+        break;
+      case 'space':
+        break;
+      default:
+        console.log("Unhandled token type:", token.type);
+    }
+  }
+  return xml;
+};
+
+// ---------- 样式表、封面、目录、页眉页脚 ----------
+
+// 页眉页脚中可用的占位符
+interface HeaderFooterFields {
+  title: string;
+  date: string;
+}
+
+const headerFooterToXml = (template: string, fields: HeaderFooterFields, styleName: string): string => {
+  const dash = exportOptions.pageNumberFormat === 'dash';
+  const content = template.split(/(\{(?:title|date|page|pages)\})/).filter(Boolean).map(part => {
+    switch (part) {
+      case '{title}':
+        return textToXml(fields.title);
+      case '{date}':
+        return textToXml(fields.date);
+      case '{page}':
+        return `${dash ? '- ' : ''}<text:page-number text:select-page="current">1</text:page-number>${dash ? ' -' : ''}`;
+      case '{pages}':
+        return `${dash ? '- ' : ''}<text:page-count>1</text:page-count>${dash ? ' -' : ''}`;
+      default:
+        return textToXml(part);
+    }
+  }).join('');
+  return paragraph(styleName, content);
+};
+
+const createPageLayout = (name: string, landscape: boolean): string => {
+  const width = twipsToPt(landscape ? pageLayout.height : pageLayout.width);
+  const height = twipsToPt(landscape ? pageLayout.width : pageLayout.height);
+  const { top, right, bottom, left } = pageLayout.margin;
+  return `<style:page-layout style:name="${name}">`
+    + `<style:page-layout-properties fo:page-width="${pt(width)}" fo:page-height="${pt(height)}" style:num-format="${PAGE_NUMBER_FORMATS[exportOptions.pageNumberFormat]}" style:print-orientation="${landscape ? 'landscape' : 'portrait'}" `
+    + `fo:margin-top="${pt(twipsToPt(top))}" fo:margin-right="${pt(twipsToPt(right))}" fo:margin-bottom="${pt(twipsToPt(bottom))}" fo:margin-left="${pt(twipsToPt(left))}"/>`
+    + '<style:header-style><style:header-footer-properties fo:min-height="0pt" fo:margin-bottom="6pt"/></style:header-style>'
+    + '<style:footer-style><style:header-footer-properties fo:min-height="0pt" fo:margin-top="6pt"/></style:footer-style>'
+    + '</style:page-layout>';
+};
+
+// 主页面：纵向、横向与首页（无页眉页脚，用于封面和“首页不同”）
+const createMasterPages = (fields: HeaderFooterFields, firstPageLandscape: boolean): string => {
+  const { headerText, footerText } = exportOptions;
+  const headerFooter = (headerText.trim() ? `<style:header>${headerFooterToXml(headerText, fields, 'Header')}</style:header>` : '')
+    + (footerText.trim() ? `<style:footer>${headerFooterToXml(footerText, fields, 'Footer')}</style:footer>` : '');
+  return '<office:master-styles>'
+    + `<style:master-page style:name="Standard" style:page-layout-name="pm1">${headerFooter}</style:master-page>`
+    + `<style:master-page style:name="Landscape" style:page-layout-name="pm2">${headerFooter}</style:master-page>`
+    + `<style:master-page style:name="First_20_Page" style:display-name="First Page" style:page-layout-name="${firstPageLandscape ? 'pm2' : 'pm1'}" style:next-style-name="${firstPageLandscape ? 'Landscape' : 'Standard'}"/>`
+    + '</office:master-styles>';
+};
+
+const paragraphStyle = (name: string, displayName: string, parent: string | null, paragraphProperties: string, textProperties: string, extra: string = ''): string =>
+  `<style:style style:name="${name}" style:display-name="${displayName}" style:family="paragraph"${parent ? ` style:parent-style-name="${parent}"` : ''}${extra}>`
+  + `<style:paragraph-properties ${paragraphProperties}/><style:text-properties ${textProperties}/></style:style>`;
+
+// 列表样式：项目符号与编号各 9 级，每级缩进与 Word 导出一致
+const createListStyles = (): string => {
+  const bullets = ['•', '◦', '▪'];
+  const numberFormats = ['1', 'a', 'i'];
+  const levelProperties = (level: number) =>
+    `<style:list-level-properties text:list-level-position-and-space-mode="label-alignment"><style:list-level-label-alignment text:label-followed-by="listtab" text:list-tab-stop-position="${pt(18 * (level + 1))}" fo:text-indent="-18pt" fo:margin-left="${pt(36 * level + 18)}"/></style:list-level-properties>`;
+  const levels = Array.from({ length: 9 }, (_, level) => level);
+  return `<text:list-style style:name="List_20_1" style:display-name="List 1">${levels.map(level =>
+    `<text:list-level-style-bullet text:level="${level + 1}" text:bullet-char="${bullets[level % 3]}">${levelProperties(level)}</text:list-level-style-bullet>`).join('')}</text:list-style>`
+    + `<text:list-style style:name="Numbering_20_123" style:display-name="Numbering 123">${levels.map(level =>
+      `<text:list-level-style-number text:level="${level + 1}" style:num-suffix="." style:num-format="${numberFormats[level % 3]}">${levelProperties(level)}</text:list-level-style-number>`).join('')}</text:list-style>`;
+};
+
+// 标题编号：从编号起始级别开始 1 / 1.1 / 1.1.1，更高级别的标题不编号
+const createOutlineStyle = (): string => {
+  const levels = Array.from({ length: 10 }, (_, index) => {
+    const level = index + 1;
+    const numbered = exportOptions.headingNumbering && level >= headingStartLevel;
+    const format = numbered ? ` style:num-format="1" text:display-levels="${level - headingStartLevel + 1}" style:num-suffix=" "` : ' style:num-format=""';
+    return `<text:outline-level-style text:level="${level}"${format}/>`;
+  });
+  return `<text:outline-style style:name="Outline">${levels.join('')}</text:outline-style>`;
+};
+
+const createStyles = (fields: HeaderFooterFields, firstPageLandscape: boolean): string => {
+  const { body, colors } = theme;
+  const fonts = new Set([body.font.latin, body.font.eastAsia, theme.codeFont, ...theme.headings.flatMap(h => [h.font.latin, h.font.eastAsia])]);
+  const fontDecls = Array.from(fonts).map(font =>
+    `<style:font-face style:name="${fontName(font)}" svg:font-family="&apos;${escapeXml(font)}&apos;"/>`).join('');
+  const lineHeight = body.exactLineSpacing ? pt(twipsToPt(body.spacing.line)) : `${Math.round(body.spacing.line / 240 * 100)}%`;
+  const bodyText = `${fontProperties(body.font)} ${sizeProperties(body.size)} fo:color="#${body.color}" fo:language="zh" fo:country="CN" style:language-asian="zh" style:country-asian="CN"`;
+  const codeText = `style:font-name="${fontName(theme.codeFont)}" style:font-name-asian="${fontName(body.font.eastAsia)}" style:font-name-complex="${fontName(theme.codeFont)}" ${sizeProperties(19)}`;
+  const border = `0.75pt solid #${colors.border}`;
+
+  const headingStyles = theme.headings.map((heading, index) => paragraphStyle(
+    `Heading_20_${index + 1}`,
+    `Heading ${index + 1}`,
+    'Heading',
+    `fo:margin-top="${pt(twipsToPt(heading.spacing.before))}" fo:margin-bottom="${pt(twipsToPt(heading.spacing.after))}" fo:text-align="${heading.alignment === 'center' ? 'center' : 'start'}" fo:text-indent="${pt(twipsToPt(heading.firstLineIndent))}" fo:keep-with-next="always"`
+      + (heading.bottomBorder ? ` fo:border-bottom="${border}" fo:padding-bottom="2pt" fo:border-top="none" fo:border-left="none" fo:border-right="none"` : ''),
+    `${fontProperties(heading.font)} ${sizeProperties(heading.size)} fo:color="#${heading.color}" ${weightProperties(heading.bold)}`,
+    ` style:default-outline-level="${index + 1}" style:list-style-name=""`
+  )).join('');
+
+  const styles = [
+    `<style:default-style style:family="paragraph"><style:paragraph-properties fo:line-height="100%"/><style:text-properties ${bodyText}/></style:default-style>`,
+    paragraphStyle('Standard', 'Standard', null, 'fo:margin-top="0pt" fo:margin-bottom="0pt"', bodyText),
+    paragraphStyle('Text_20_body', 'Text body', 'Standard',
+      `fo:margin-top="${pt(twipsToPt(body.spacing.before))}" fo:margin-bottom="${pt(twipsToPt(body.spacing.after))}" fo:line-height="${lineHeight}" fo:text-align="${body.alignment === 'justify' ? 'justify' : 'start'}" fo:text-indent="${pt(twipsToPt(body.firstLineIndent))}"`, ''),
+    paragraphStyle('Heading', 'Heading', 'Standard', 'fo:margin-top="12pt" fo:margin-bottom="6pt"', ''),
+    headingStyles,
+    paragraphStyle('List_20_Contents', 'List Contents', 'Standard', `fo:margin-top="2pt" fo:margin-bottom="2pt" fo:line-height="${lineHeight}"`, ''),
+    paragraphStyle('Quotations', 'Quotations', 'Text_20_body',
+      `fo:margin-left="6pt" fo:margin-right="0pt" fo:text-indent="0pt" fo:padding-left="8pt" fo:padding-top="2pt" fo:padding-bottom="2pt" fo:border-left="2.25pt solid #${colors.quoteBorder}" fo:border-right="none" fo:border-top="none" fo:border-bottom="none" fo:background-color="#${colors.quoteBg}" style:join-border="true"`, ''),
+    paragraphStyle('Preformatted_20_Text', 'Preformatted Text', 'Standard',
+      `fo:margin-top="0pt" fo:margin-bottom="0pt" fo:padding-left="6pt" fo:padding-right="6pt" fo:background-color="#${colors.codeBg}" fo:border="none" style:join-border="true"`, `${codeText} fo:color="#${CODE_TOKEN_COLORS.plain}"`),
+    paragraphStyle('Code_20_Caption', 'Code Caption', 'Standard',
+      `fo:margin-top="4pt" fo:margin-bottom="0pt" fo:text-align="end" fo:padding-right="6pt" fo:background-color="#${colors.codeBg}"`, `${sizeProperties(16)} fo:color="#9CA3AF" ${weightProperties(true)}`),
+    paragraphStyle('Table_20_Contents', 'Table Contents', 'Standard', 'fo:line-height="120%"', sizeProperties(theme.tableFontSize)),
+    paragraphStyle('Table_20_Heading', 'Table Heading', 'Table_20_Contents', '', weightProperties(true)),
+    paragraphStyle('Horizontal_20_Line', 'Horizontal Line', 'Standard', `fo:margin-top="6pt" fo:margin-bottom="6pt" fo:border-bottom="${border}" fo:border-top="none" fo:border-left="none" fo:border-right="none" fo:padding="0pt"`, sizeProperties(6)),
+    paragraphStyle('Bibliography', 'Bibliography', 'Text_20_body', 'fo:margin-left="24pt" fo:text-indent="-24pt"', ''),
+    paragraphStyle('Footnote', 'Footnote', 'Standard', 'fo:margin-left="0pt"', sizeProperties(Math.max(16, body.size - 3))),
+    paragraphStyle('Header', 'Header', 'Standard', `fo:text-align="center" fo:border-bottom="0.5pt solid #${colors.border}" fo:padding-bottom="2pt" fo:border-top="none" fo:border-left="none" fo:border-right="none"`, sizeProperties(18)),
+    paragraphStyle('Footer', 'Footer', 'Standard', 'fo:text-align="center"', sizeProperties(18)),
+    paragraphStyle('Contents_20_Heading', 'Contents Heading', 'Heading', 'fo:text-align="center"', `${sizeProperties(theme.headings[1].size)} ${weightProperties(true)}`),
+    ...[1, 2, 3].map(level => paragraphStyle(`Contents_20_${level}`, `Contents ${level}`, 'Standard', `fo:margin-left="${pt((level - 1) * 16)}" fo:margin-top="2pt" fo:margin-bottom="2pt"`, '')),
+    `<style:style style:name="Internet_20_link" style:display-name="Internet link" style:family="text"><style:text-properties fo:color="#${colors.link}" style:text-underline-style="solid" style:text-underline-width="auto" style:text-underline-color="font-color"/></style:style>`,
+    createOutlineStyle(),
+    createListStyles(),
+    `<text:notes-configuration text:note-class="footnote" style:num-format="1" text:start-value="0" text:footnotes-position="page" text:start-numbering-at="document"/>`,
+  ].join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<office:document-styles ${NAMESPACES} office:version="1.3">`
+    + `<office:font-face-decls>${fontDecls}</office:font-face-decls>`
+    + `<office:styles>${styles}</office:styles>`
+    + `<office:automatic-styles>${createPageLayout('pm1', false)}${createPageLayout('pm2', true)}</office:automatic-styles>`
+    + createMasterPages(fields, firstPageLandscape)
+    + '</office:document-styles>';
+};
+
+// 封面：标题、作者、日期居中，之后另起一页
+const renderCoverPage = (titleToken: any, fields: HeaderFooterFields): string => {
+  const titleStyle = theme.headings[0];
+  const coverTitleStyle = getAutomaticStyle('P', name =>
+    `<style:style style:name="${name}" style:family="paragraph" style:parent-style-name="Standard" style:master-page-name="First_20_Page">`
+    + `<style:paragraph-properties fo:text-align="center" fo:margin-top="${pt(twipsToPt(exportOptions.orientation === 'landscape' ? pageLayout.width : pageLayout.height) / 4)}" fo:margin-bottom="36pt"/>`
+    + `<style:text-properties ${fontProperties(titleStyle.font)} ${sizeProperties(Math.round(titleStyle.size * 1.5))} fo:color="#${titleStyle.color}" ${weightProperties(true)}/></style:style>`, 'cover-title');
+  const metadataStyle = getParagraphStyle('Standard', 'fo:text-align="center" fo:margin-bottom="6pt"');
+  const metadata = [exportOptions.coverAuthor.trim(), fields.date].filter(Boolean);
+  const anchor = titleToken.anchor ? `<text:bookmark text:name="${bookmarkName(titleToken.anchor)}"/>` : '';
+
+  return paragraph(coverTitleStyle, anchor + mixedContentToXml(titleToken.text, titleToken.tokens))
+    + metadata.map(text => paragraph(metadataStyle, span(text, {}))).join('');
+};
+
+// 目录：列出编号范围内的三级标题并链接到标题书签；页码需在 LibreOffice 中更新目录后显示
+const renderTableOfContents = (tokens: any[]): string => {
+  const maxLevel = Math.min(headingStartLevel + 2, 6);
+  const entries = tokens.filter(token => token.type === 'heading' && token.depth >= headingStartLevel && token.depth <= maxLevel);
+  const body = entries.map(token => paragraph(
+    `Contents_20_${token.depth - headingStartLevel + 1}`,
+    `<text:a xlink:type="simple" xlink:href="#${bookmarkName(token.anchor)}">${textToXml(getPlainText(token).trim())}</text:a>`
+  )).join('');
+  const template = [1, 2, 3].map(level =>
+    `<text:table-of-content-entry-template text:outline-level="${level}" text:style-name="Contents_20_${level}"><text:index-entry-link-start/><text:index-entry-chapter/><text:index-entry-text/><text:index-entry-tab-stop style:type="right" style:leader-char="."/><text:index-entry-page-number/><text:index-entry-link-end/></text:table-of-content-entry-template>`).join('');
+
+  return `<text:table-of-content text:name="Table of Contents1" text:protected="false">`
+    + `<text:table-of-content-source text:outline-level="${maxLevel}" text:use-index-marks="false"><text:index-title-template text:style-name="Contents_20_Heading">目录</text:index-title-template>${template}</text:table-of-content-source>`
+    + `<text:index-body><text:index-title text:name="Table of Contents1_Head">${paragraph('Contents_20_Heading', '目录')}</text:index-title>${body}</text:index-body>`
+    + '</text:table-of-content>';
+};
+
+// 为标题分配书签名（链接可能出现在标题之前）
+const assignHeadingAnchors = (tokens: any[]): void => {
+  const slugger = new marked.Slugger();
+  headingAnchors = new Map();
+  marked.walkTokens(tokens, (token: any) => {
+    if (token.type !== 'heading') return;
+    const slug = slugger.slug(token.text);
+    token.anchor = `_Heading_${headingAnchors.size + 1}`;
+    headingAnchors.set(slug, token.anchor);
+  });
+};
+
+const preloadImages = async (tokens: any[]): Promise<void> => {
+  const sources = new Set<string>();
+  marked.walkTokens(tokens, (token: any) => {
+    if (token.type === 'image' && token.href) sources.add(token.href);
+  });
+
+  await Promise.all(Array.from(sources).map(async (src) => {
+    imageCache.set(src, await loadImage(src, exportOptions.allowRemoteImages));
+  }));
+};
+
+const createManifest = (): string => {
+  const entries = [
+    `<manifest:file-entry manifest:full-path="/" manifest:version="1.3" manifest:media-type="${ODT_MIME_TYPE}"/>`,
+    ...['content.xml', 'styles.xml', 'meta.xml'].map(path => `<manifest:file-entry manifest:full-path="${path}" manifest:media-type="text/xml"/>`),
+    ...Array.from(pictures.keys()).map(path => `<manifest:file-entry manifest:full-path="${path}" manifest:media-type="${PICTURE_MIME_TYPES[path.split('.').pop()!]}"/>`),
+    ...Array.from(formulaObjects.keys()).flatMap(name => [
+      `<manifest:file-entry manifest:full-path="${name}/" manifest:version="1.3" manifest:media-type="application/vnd.oasis.opendocument.formula"/>`,
+      `<manifest:file-entry manifest:full-path="${name}/content.xml" manifest:media-type="text/xml"/>`,
+    ]),
+  ];
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0" manifest:version="1.3">${entries.join('')}</manifest:manifest>`;
+};
+
+const createMeta = (title: string): string =>
+  `<?xml version="1.0" encoding="UTF-8"?>\n<office:document-meta ${NAMESPACES} office:version="1.3"><office:meta>`
+  + `<meta:generator>AI2Word</meta:generator>${title ? `<dc:title>${escapeXml(title)}</dc:title>` : ''}`
+  + `<meta:creation-date>${new Date().toISOString().slice(0, 19)}</meta:creation-date>`
+  + '</office:meta></office:document-meta>';
+
+/**
+ * 生成 ODT 文档
+ */
+export const generateOdtDocument = async (
+  markdownText: string,
+  options: Partial<WordExportOptions> = {}
+): Promise<Blob> => {
+  exportOptions = { ...DEFAULT_EXPORT_OPTIONS, ...options };
+  theme = getDocumentTheme(exportOptions.themeId);
+  pageLayout = resolvePageLayout(exportOptions);
+  automaticStyles = new Map();
+  automaticStyleCounter = 0;
+  pictures = new Map();
+  formulaObjects = new Map();
+  imageCache = new Map();
+  footnoteIds = new Map();
+  noteCounter = 0;
+  tableCounter = 0;
+
+  const { tokens, footnotes, references } = prepareMarkdownTokens(markdownText, exportOptions.referenceCitations, exportOptions.repairs);
+  footnoteDefinitions = footnotes;
+  referenceNumbers = new Set(references.map(entry => entry.number));
+  assignHeadingAnchors(tokens);
+  const documentTitle = findDocumentTitle(tokens);
+  const headingDepths = tokens.filter(token => token.type === 'heading').map(token => token.depth);
+  headingStartLevel = documentTitle ? documentTitle.depth + 1 : (headingDepths.length > 0 ? Math.min(...headingDepths) : 1);
+  await preloadImages(tokens);
+
+  // 封面使用第一个一级标题，正文中不再重复
+  const firstH1 = tokens.find(token => token.type === 'heading' && token.depth === 1);
+  const coverTitle = exportOptions.coverPage ? firstH1 : undefined;
+  const fields: HeaderFooterFields = {
+    title: firstH1 ? getPlainText(firstH1).trim() : '',
+    date: exportOptions.coverDate.trim() || formatDocumentDate(new Date()),
+  };
+  const segments = splitByOrientation(
+    coverTitle ? tokens.filter(token => token !== coverTitle) : tokens,
+    exportOptions.orientation,
+    exportOptions.autoLandscapeTables
+  );
+
+  let body = '';
+  if (coverTitle) {
+    printableWidth = twipsToPt((exportOptions.orientation === 'landscape' ? pageLayout.height : pageLayout.width) - pageLayout.margin.left - pageLayout.margin.right);
+    body += renderCoverPage(coverTitle, fields);
+  }
+
+  for (let index = 0; index < segments.length; index++) {
+    const segment = segments[index];
+    printableWidth = twipsToPt((segment.landscape ? pageLayout.height : pageLayout.width) - pageLayout.margin.left - pageLayout.margin.right);
+
+    // 每段以一个切换页面样式的空段落开始；封面后的正文从第 1 页开始编号，首页不同时使用无页眉页脚的首页样式
+    const isFirstContent = index === 0;
+    const masterPage = isFirstContent && exportOptions.differentFirstPage
+      ? 'First_20_Page'
+      : segment.landscape ? 'Landscape' : 'Standard';
+    if (!isFirstContent || coverTitle || exportOptions.differentFirstPage || segment.landscape) {
+      const pageNumber = isFirstContent && coverTitle ? ' style:page-number="1"' : '';
+      body += paragraph(getParagraphStyle('Standard', `fo:margin-top="0pt"${pageNumber}`, ` style:master-page-name="${masterPage}"`), '');
+    }
+
+    let segmentTokens = segment.tokens;
+    if (isFirstContent && exportOptions.tableOfContents) {
+      // 有文档标题时目录放在标题之后
+      if (documentTitle && documentTitle !== coverTitle && segmentTokens.includes(documentTitle)) {
+        const titleIndex = segmentTokens.indexOf(documentTitle);
+        body += await renderTokens(segmentTokens.slice(0, titleIndex + 1));
+        segmentTokens = segmentTokens.slice(titleIndex + 1);
+      }
+      body += renderTableOfContents(tokens.filter(token => token !== coverTitle));
+    }
+    body += await renderTokens(segmentTokens);
+  }
+
+  const automaticStyleXml = Array.from(automaticStyles.values()).map(style => style.xml).join('')
+    + '<style:style style:name="fr1" style:family="graphic"><style:graphic-properties style:vertical-pos="top" style:vertical-rel="baseline"/></style:style>'
+    + '<style:style style:name="fr2" style:family="graphic"><style:graphic-properties style:vertical-pos="middle" style:vertical-rel="text"/></style:style>';
+  const content = `<?xml version="1.0" encoding="UTF-8"?>\n<office:document-content ${NAMESPACES} office:version="1.3">`
+    + `<office:automatic-styles>${automaticStyleXml}</office:automatic-styles>`
+    + `<office:body><office:text>${body || paragraph('Text_20_body', '')}</office:text></office:body>`
+    + '</office:document-content>';
+
+  // mimetype 必须是第一个文件且不压缩
+  const zip = new JSZip();
+  zip.file('mimetype', ODT_MIME_TYPE, { compression: 'STORE' });
+  zip.file('content.xml', content);
+  zip.file('styles.xml', createStyles(fields, coverTitle ? exportOptions.orientation === 'landscape' : segments[0].landscape));
+  zip.file('meta.xml', createMeta(fields.title));
+  pictures.forEach((data, path) => zip.file(path, data));
+  formulaObjects.forEach((mathml, name) => zip.file(`${name}/content.xml`, mathml));
+  zip.file('META-INF/manifest.xml', createManifest());
+
+  return zip.generateAsync({ type: 'blob', mimeType: ODT_MIME_TYPE, compression: 'DEFLATE' });
+};
@@ -0,0 +1,513 @@
+import {
+  BuilderElement,
+  MathComponent,
+  MathFraction,
+  MathFunction,
+  MathIntegral,
+  MathLimitLower,
+  MathRadical,
+  MathRun,
+  MathSubScript,
+  MathSubSuperScript,
+  MathSum,
+  MathSuperScript,
+  XmlComponent,
+} from "docx";
+
+/**
+ * LaTeX → OMML (Office Math) 转换器
+ * 只覆盖 AI 输出中常见的 LaTeX 子集；遇到无法表达的结构时返回 null，
+ * 由调用方回退到图片渲染。
+ */
+
+// 转换失败时内部抛出，由 convertLatexToOmml 捕获
+class UnsupportedLatexError extends Error {}
+
+// 符号命令 → Unicode 字符
+const SYMBOLS: { [command: string]: string } = {
+  // 希腊字母
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ϵ', varepsilon: 'ε',
+  zeta: 'ζ', eta: 'η', theta: 'θ', vartheta: 'ϑ', iota: 'ι', kappa: 'κ',
+  varkappa: 'ϰ', lambda: 'λ', mu: 'μ', nu: 'ν', xi: 'ξ', omicron: 'ο', pi: 'π',
+  varpi: 'ϖ', rho: 'ρ', varrho: 'ϱ', sigma: 'σ', varsigma: 'ς', tau: 'τ',
+  upsilon: 'υ', phi: 'ϕ', varphi: 'φ', chi: 'χ', psi: 'ψ', omega: 'ω',
+  Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Xi: 'Ξ', Pi: 'Π',
+  Sigma: 'Σ', Upsilon: 'Υ', Phi: 'Φ', Psi: 'Ψ', Omega: 'Ω',
+
+  // 运算与关系
+  times: '×', div: '÷', pm: '±', mp: '∓', cdot: '⋅', ast: '∗', star: '⋆',
+  circ: '∘', bullet: '∙', oplus: '⊕', otimes: '⊗',
+  approx: '≈', neq: '≠', ne: '≠', leq: '≤', le: '≤', geq: '≥', ge: '≥',
+  ll: '≪', gg: '≫', equiv: '≡', sim: '∼', simeq: '≃', cong: '≅', propto: '∝',
+  mid: '∣', nmid: '∤', parallel: '∥', nparallel: '∦', perp: '⊥',
+
+  // 集合与逻辑
+  in: '∈', notin: '∉', ni: '∋', subset: '⊂', supset: '⊃', subseteq: '⊆',
+  supseteq: '⊇', cup: '∪', cap: '∩', setminus: '∖', emptyset: '∅', varnothing: '∅',
+  land: '∧', wedge: '∧', lor: '∨', vee: '∨', lnot: '¬', neg: '¬',
+  forall: '∀', exists: '∃', nexists: '∄', vdash: '⊢', models: '⊨',
+  therefore: '∴', because: '∵',
+
+  // 箭头
+  leftarrow: '←', rightarrow: '→', to: '→', uparrow: '↑', downarrow: '↓',
+  leftrightarrow: '↔', Leftarrow: '⇐', Rightarrow: '⇒', Leftrightarrow: '⇔',
+  implies: '⇒', iff: '⇔', mapsto: '↦', longrightarrow: '⟶', longleftarrow: '⟵',
+  longleftrightarrow: '⟷', Longrightarrow: '⟹',
+
+  // 其他
+  infty: '∞', partial: '∂', nabla: '∇', angle: '∠', degree: '°',
+  dots: '…', ldots: '…', cdots: '⋯', vdots: '⋮', ddots: '⋱',
+  prime: '′', hbar: 'ℏ', ell: 'ℓ', Re: 'ℜ', Im: 'ℑ', aleph: 'ℵ',
+  langle: '⟨', rangle: '⟩', lfloor: '⌊', rfloor: '⌋', lceil: '⌈', rceil: '⌉',
+  vert: '|', Vert: '‖', lvert: '|', rvert: '|', lVert: '‖', rVert: '‖',
+};
+
+// 转义字符 / 间距命令 → 文本
+const LITERALS: { [command: string]: string } = {
+  '{': '{', '}': '}', '%': '%', '$': '$', '&': '&', '#': '#', '_': '_', '|': '‖',
+  ',': ' ', ':': ' ', ';': ' ', '!': '', ' ': ' ',
+  quad: ' ', qquad: '  ',
+};
+
+// 函数名（正体显示）
+const FUNCTIONS = new Set([
+  'sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'arcsin', 'arccos', 'arctan',
+  'sinh', 'cosh', 'tanh', 'log', 'ln', 'lg', 'exp', 'det', 'dim', 'ker',
+  'gcd', 'deg', 'arg', 'Pr',
+]);
+
+// 上下限写在运算符正下方的函数
+const LIMIT_FUNCTIONS = new Set(['lim', 'max', 'min', 'sup', 'inf', 'limsup', 'liminf']);
+
+// 大型运算符（n-ary）
+const NARY_OPERATORS: { [command: string]: string } = {
+  prod: '∏', coprod: '∐', bigcup: '⋃', bigcap: '⋂', bigoplus: '⨁', bigotimes: '⨂',
+  iint: '∬', iiint: '∭', oint: '∮',
+};
+
+// 重音命令 → 组合字符
+const ACCENTS: { [command: string]: string } = {
+  hat: '̂', widehat: '̂', bar: '̅', overline: '̅',
+  vec: '⃗', overrightarrow: '⃗', dot: '̇', ddot: '̈',
+  tilde: '̃', widetilde: '̃',
+};
+
+const DOUBLE_STRUCK: { [letter: string]: string } = {
+  C: 'ℂ', H: 'ℍ', N: 'ℕ', P: 'ℙ', Q: 'ℚ', R: 'ℝ', Z: 'ℤ',
+};
+
+const TEXT_COMMANDS = new Set(['text', 'textrm', 'textbf', 'textit', 'mathrm', 'operatorname', 'mbox']);
+const STYLE_COMMANDS = new Set(['mathbf', 'mathit', 'mathsf', 'mathtt', 'boldsymbol', 'bm', 'displaystyle', 'textstyle']);
+
+const OPEN_DELIMITERS: { [token: string]: string } = {
+  '(': '(', '[': '[', '\\{': '{', '\\langle': '⟨', '|': '|', '\\|': '‖', '\\lvert': '|',
+  '\\lVert': '‖', '\\lfloor': '⌊', '\\lceil': '⌈', '.': '',
+};
+const CLOSE_DELIMITERS: { [token: string]: string } = {
+  ')': ')', ']': ']', '\\}': '}', '\\rangle': '⟩', '|': '|', '\\|': '‖', '\\rvert': '|',
+  '\\rVert': '‖', '\\rfloor': '⌋', '\\rceil': '⌉', '.': '',
+};
+
+// 矩阵环境及其外围括号
+const MATRIX_ENVIRONMENTS: { [env: string]: [string, string] } = {
+  matrix: ['', ''], smallmatrix: ['', ''], pmatrix: ['(', ')'], bmatrix: ['[', ']'],
+  Bmatrix: ['{', '}'], vmatrix: ['|', '|'], Vmatrix: ['‖', '‖'], cases: ['{', ''],
+  aligned: ['', ''], align: ['', ''], 'align*': ['', ''], gathered: ['', ''], array: ['', ''],
+};
+
+// docx 没有为通用 OMML 元素提供类，这里用 BuilderElement 拼装
+const element = (name: string, children: XmlComponent[] = [], val?: string): MathComponent =>
+  new BuilderElement<{ val: string }>({
+    name,
+    attributes: val !== undefined ? { val: { key: "m:val", value: val } } : undefined,
+    children,
+  }) as unknown as MathComponent;
+
+const delimited = (children: MathComponent[], begin: string, end: string): MathComponent =>
+  element("m:d", [
+    element("m:dPr", [element("m:begChr", [], begin), element("m:endChr", [], end)]),
+    element("m:e", children),
+  ]);
+
+const nary = (operator: string, children: MathComponent[], sub?: MathComponent[], sup?: MathComponent[]): MathComponent =>
+  element("m:nary", [
+    element("m:naryPr", [
+      element("m:chr", [], operator),
+      ...(sub ? [] : [element("m:subHide", [], "1")]),
+      ...(sup ? [] : [element("m:supHide", [], "1")]),
+    ]),
+    element("m:sub", sub || []),
+    element("m:sup", sup || []),
+    element("m:e", children),
+  ]);
+
+const accent = (mark: string, children: MathComponent[]): MathComponent =>
+  element("m:acc", [
+    element("m:accPr", [element("m:chr", [], mark)]),
+    element("m:e", children),
+  ]);
+
+const matrix = (rows: MathComponent[][][]): MathComponent =>
+  element("m:m", rows.map(cells => element("m:mr", cells.map(cell => element("m:e", cell)))));
+
+type Atom =
+  | { kind: 'text'; text: string }
+  | { kind: 'nodes'; nodes: MathComponent[] }
+  | { kind: 'nary'; build: (children: MathComponent[], sub?: MathComponent[], sup?: MathComponent[]) => MathComponent }
+  | { kind: 'limit'; name: string };
+
+class LatexParser {
+  private pos = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): MathComponent[] {
+    const nodes = this.parseExpression(() => this.pos >= this.source.length);
+    if (this.pos < this.source.length) {
+      throw new UnsupportedLatexError(`Unexpected "${this.source[this.pos]}"`);
+    }
+    return nodes;
+  }
+
+  private skipSpaces(): void {
+    while (this.pos < this.source.length && /\s/.test(this.source[this.pos])) this.pos++;
+  }
+
+  // 读取下一个记号但不前进：命令（\alpha、\{）或单个字符
+  private peekToken(): string | null {
+    this.skipSpaces();
+    if (this.pos >= this.source.length) return null;
+    const char = this.source[this.pos];
+    if (char !== '\\') return char;
+    const command = this.source.slice(this.pos).match(/^\\([a-zA-Z]+|.)/);
+    return command ? command[0] : '\\';
+  }
+
+  private nextToken(): string {
+    const token = this.peekToken();
+    if (token === null) throw new UnsupportedLatexError('Unexpected end of formula');
+    this.pos += token.length;
+    return token;
+  }
+
+  private expect(token: string): void {
+    const actual = this.nextToken();
+    if (actual !== token) throw new UnsupportedLatexError(`Expected "${token}" but got "${actual}"`);
+  }
+
+  // 读取 {...} 中的原始文本（用于 \text、环境名）
+  private readRawGroup(): string {
+    this.skipSpaces();
+    if (this.source[this.pos] !== '{') {
+      // 单字符参数：\text a
+      return this.nextToken();
+    }
+    let depth = 0;
+    const start = this.pos + 1;
+    for (; this.pos < this.source.length; this.pos++) {
+      const char = this.source[this.pos];
+      if (char === '\\') { this.pos++; continue; }
+      if (char === '{') depth++;
+      if (char === '}' && --depth === 0) {
+        this.pos++;
+        return this.source.slice(start, this.pos - 1);
+      }
+    }
+    throw new UnsupportedLatexError('Unbalanced braces');
+  }
+
+  // 读取可选参数 [...]
+  private parseOptional(): MathComponent[] | undefined {
+    if (this.peekToken() !== '[') return undefined;
+    this.nextToken();
+    const nodes = this.parseExpression(() => this.peekToken() === ']');
+    this.expect(']');
+    return nodes;
+  }
+
+  // 读取必选参数：{...} 或单个记号
+  private parseArgument(): MathComponent[] {
+    const token = this.peekToken();
+    if (token === null) throw new UnsupportedLatexError('Missing argument');
+    if (token === '{') {
+      this.nextToken();
+      const nodes = this.parseExpression(() => this.peekToken() === '}');
+      this.expect('}');
+      return nodes;
+    }
+    return this.atomToNodes(this.parseAtom());
+  }
+
+  private parseExpression(isEnd: () => boolean): MathComponent[] {
+    const nodes: MathComponent[] = [];
+    let pendingText = '';
+
+    const flushText = () => {
+      if (pendingText) {
+        nodes.push(new MathRun(pendingText));
+        pendingText = '';
+      }
+    };
+
+    while (!isEnd()) {
+      const token = this.peekToken();
+      if (token === null || token === '}' || token === '&' || token === '\\\\' || token === '\\right' || token === '\\end') {
+        break;
+      }
+
+      const atom = this.parseAtom();
+      const { sub, sup } = this.parseScripts();
+
+      if (atom.kind === 'nary') {
+        flushText();
+        const body = this.parseNaryBody(isEnd);
+        nodes.push(atom.build(body, sub, sup));
+        continue;
+      }
+
+      if (atom.kind === 'limit') {
+        flushText();
+        const name = [new MathRun(atom.name)];
+        nodes.push(sub ? new MathLimitLower({ children: name, limit: sub }) : name[0]);
+        continue;
+      }
+
+      if (!sub && !sup && atom.kind === 'text') {
+        pendingText += atom.text;
+        continue;
+      }
+
+      flushText();
+      const base = this.atomToNodes(atom);
+      if (sub && sup) {
+        nodes.push(new MathSubSuperScript({ children: base, subScript: sub, superScript: sup }));
+      } else if (sub) {
+        nodes.push(new MathSubScript({ children: base, subScript: sub }));
+      } else if (sup) {
+        nodes.push(new MathSuperScript({ children: base, superScript: sup }));
+      } else {
+        nodes.push(...base);
+      }
+    }
+
+    flushText();
+    return nodes;
+  }
+
+  // 求和/积分等运算符作用于其后直到同级表达式结束的内容
+  private parseNaryBody(isEnd: () => boolean): MathComponent[] {
+    return this.parseExpression(() => {
+      if (isEnd()) return true;
+      const token = this.peekToken();
+      return token === '+' || token === '-' || token === '=' || token === ',';
+    });
+  }
+
+  private parseScripts(): { sub?: MathComponent[]; sup?: MathComponent[] } {
+    let sub: MathComponent[] | undefined;
+    let sup: MathComponent[] | undefined;
+
+    for (;;) {
+      const token = this.peekToken();
+      if (token === '_' && !sub) {
+        this.nextToken();
+        sub = this.parseArgument();
+      } else if (token === '^' && !sup) {
+        this.nextToken();
+        sup = this.parseArgument();
+      } else if (token === "'" && !sup) {
+        // 导数撇号 f' → f^{′}
+        let primes = '';
+        while (this.peekToken() === "'") {
+          this.nextToken();
+          primes += '′';
+        }
+        sup = [new MathRun(primes)];
+      } else {
+        break;
+      }
+    }
+
+    return { sub, sup };
+  }
+
+  private atomToNodes(atom: Atom): MathComponent[] {
+    switch (atom.kind) {
+      case 'text':
+        return atom.text ? [new MathRun(atom.text)] : [];
+      case 'nodes':
+        return atom.nodes;
+      case 'limit':
+        return [new MathRun(atom.name)];
+      case 'nary':
+        return [atom.build([])];
+    }
+  }
+
+  private parseAtom(): Atom {
+    const token = this.nextToken();
+
+    if (token === '{') {
+      const nodes = this.parseExpression(() => this.peekToken() === '}');
+      this.expect('}');
+      return { kind: 'nodes', nodes };
+    }
+
+    if (token === '^' || token === '_') {
+      // 无底数的上下标：^2 → 空底数
+      this.pos -= token.length;
+      return { kind: 'text', text: '' };
+    }
+
+    if (!token.startsWith('\\')) {
+      return { kind: 'text', text: token === '*' ? '∗' : token };
+    }
+
+    return this.parseCommand(token.slice(1));
+  }
+
+  private parseCommand(name: string): Atom {
+    if (name in LITERALS) return { kind: 'text', text: LITERALS[name] };
+    if (name in SYMBOLS) return { kind: 'text', text: SYMBOLS[name] };
+
+    if (name === 'frac' || name === 'dfrac' || name === 'tfrac') {
+      const numerator = this.parseArgument();
+      const denominator = this.parseArgument();
+      return { kind: 'nodes', nodes: [new MathFraction({ numerator, denominator })] };
+    }
+
+    if (name === 'binom' || name === 'dbinom' || name === 'tbinom') {
+      const top = this.parseArgument();
+      const bottom = this.parseArgument();
+      const stacked = element("m:f", [
+        element("m:fPr", [element("m:type", [], "noBar")]),
+        element("m:num", top),
+        element("m:den", bottom),
+      ]);
+      return { kind: 'nodes', nodes: [delimited([stacked], '(', ')')] };
+    }
+
+    if (name === 'sqrt') {
+      const degree = this.parseOptional();
+      const children = this.parseArgument();
+      return { kind: 'nodes', nodes: [new MathRadical({ children, degree })] };
+    }
+
+    if (name === 'sum') {
+      return { kind: 'nary', build: (children, subScript, superScript) => new MathSum({ children, subScript, superScript }) };
+    }
+
+    if (name === 'int') {
+      return { kind: 'nary', build: (children, subScript, superScript) => new MathIntegral({ children, subScript, superScript }) };
+    }
+
+    if (name in NARY_OPERATORS) {
+      const operator = NARY_OPERATORS[name];
+      return { kind: 'nary', build: (children, sub, sup) => nary(operator, children, sub, sup) };
+    }
+
+    if (LIMIT_FUNCTIONS.has(name)) return { kind: 'limit', name };
+
+    if (FUNCTIONS.has(name)) {
+      const { sub, sup } = this.parseScripts();
+      let functionName: MathComponent[] = [new MathRun(name)];
+      if (sub) functionName = [new MathSubScript({ children: functionName, subScript: sub })];
+      if (sup) functionName = [new MathSuperScript({ children: functionName, superScript: sup })];
+      const next = this.peekToken();
+      if (next === null || /^[+\-=,}&]$/.test(next) || next === '\\right' || next === '\\\\') {
+        // 没有参数时不生成空的 m:e，避免 Word 显示占位框
+        return { kind: 'nodes', nodes: functionName };
+      }
+      return { kind: 'nodes', nodes: [new MathFunction({ name: functionName, children: this.atomToNodes(this.parseAtom()) })] };
+    }
+
+    if (TEXT_COMMANDS.has(name)) {
+      return { kind: 'text', text: this.readRawGroup().replace(/\\([{}%$&#_ ])/g, '$1') };
+    }
+
+    if (STYLE_COMMANDS.has(name)) {
+      if (name === 'displaystyle' || name === 'textstyle') return { kind: 'text', text: '' };
+      return { kind: 'nodes', nodes: this.parseArgument() };
+    }
+
+    if (name === 'mathbb') {
+      const letters = this.readRawGroup();
+      return { kind: 'text', text: letters.split('').map(letter => DOUBLE_STRUCK[letter] || letter).join('') };
+    }
+
+    if (name in ACCENTS) {
+      return { kind: 'nodes', nodes: [accent(ACCENTS[name], this.parseArgument())] };
+    }
+
+    if (name === 'left') return this.parseLeftRight();
+
+    if (name === 'begin') return this.parseEnvironment();
+
+    // \big( 等尺寸命令：直接输出其后的定界符
+    if (/^[Bb]igg?[lr]?$/.test(name)) {
+      const delimiter = this.nextToken();
+      const char = OPEN_DELIMITERS[delimiter] ?? CLOSE_DELIMITERS[delimiter];
+      if (char === undefined) throw new UnsupportedLatexError(`Unsupported delimiter ${delimiter}`);
+      return { kind: 'text', text: char };
+    }
+
+    throw new UnsupportedLatexError(`Unsupported command \\${name}`);
+  }
+
+  private parseLeftRight(): Atom {
+    const open = this.nextToken();
+    if (!(open in OPEN_DELIMITERS)) throw new UnsupportedLatexError(`Unsupported delimiter ${open}`);
+    const children = this.parseExpression(() => this.peekToken() === '\\right');
+    this.expect('\\right');
+    const close = this.nextToken();
+    if (!(close in CLOSE_DELIMITERS)) throw new UnsupportedLatexError(`Unsupported delimiter ${close}`);
+    return { kind: 'nodes', nodes: [delimited(children, OPEN_DELIMITERS[open], CLOSE_DELIMITERS[close])] };
+  }
+
+  private parseEnvironment(): Atom {
+    const env = this.readRawGroup();
+    const brackets = MATRIX_ENVIRONMENTS[env];
+    if (!brackets) throw new UnsupportedLatexError(`Unsupported environment ${env}`);
+    if (env === 'array') this.readRawGroup(); // 列格式 {cc} 忽略
+
+    const rows: MathComponent[][][] = [];
+    let cells: MathComponent[][] = [];
+    for (;;) {
+      cells.push(this.parseExpression(() => false));
+      const token = this.nextToken();
+      if (token === '&') continue;
+      rows.push(cells);
+      cells = [];
+      if (token === '\\\\') continue;
+      if (token === '\\end') break;
+      throw new UnsupportedLatexError(`Unexpected "${token}" in ${env}`);
+    }
+    if (this.readRawGroup() !== env) throw new UnsupportedLatexError(`Mismatched \\end for ${env}`);
+
+    // 末尾多余的 \\ 会产生空行
+    const filledRows = rows.filter(row => row.some(cell => cell.length > 0));
+    const body = matrix(filledRows);
+    const [begin, end] = brackets;
+    return { kind: 'nodes', nodes: [begin || end ? delimited([body], begin, end) : body] };
+  }
+}
+
+/**
+ * 将 LaTeX 公式转换为 OMML 组件数组
+ * @param latex LaTeX 公式代码（不含 $ 定界符）
+ * @returns OMML 组件；包含不支持的命令或环境时返回 null
+ */
+export const convertLatexToOmml = (latex: string): MathComponent[] | null => {
+  if (!latex || !latex.trim()) return null;
+
+  try {
+    const nodes = new LatexParser(latex).parse();
+    return nodes.length > 0 ? nodes : null;
+  } catch (error) {
+    if (error instanceof UnsupportedLatexError) {
+      console.log('[OMML] Falling back to image for formula:', latex.substring(0, 50), '-', error.message);
+      return null;
+    }
+    throw error;
+  }
+};
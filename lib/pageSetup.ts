@@ -0,0 +1,40 @@
+/**
+ * 页面设置：纸张尺寸、边距换算以及导出时实际使用的页面
+ */
+
+import { PageLayout, PaperSize, WordExportOptions } from '../types';
+
+// 纵向纸张尺寸 (twips)；B5 采用国内常用的 JIS B5 (182 x 257 mm)
+export const PAPER_SIZES: Record<PaperSize, { width: number; height: number }> = {
+  A4: { width: 11906, height: 16838 },
+  Letter: { width: 12240, height: 15840 },
+  A3: { width: 16838, height: 23811 },
+  B5: { width: 10318, height: 14570 },
+};
+
+export const mmToTwips = (mm: number): number => Math.round(mm * 1440 / 25.4);
+
+// 默认页面：A4 纸，四边边距 720 twips (12.7 mm)
+export const DEFAULT_PAGE_LAYOUT: PageLayout = {
+  ...PAPER_SIZES.A4,
+  margin: { top: 720, right: 720, bottom: 720, left: 720 },
+};
+
+/**
+ * 导出使用的页面：参考模板的页面设置优先，否则按导出设置中的纸张和边距（毫米）
+ */
+export const resolvePageLayout = (options: WordExportOptions): PageLayout => {
+  if (options.referenceTemplate) return options.referenceTemplate.page;
+
+  const { top, right, bottom, left } = options.pageMargins;
+  return {
+    ...PAPER_SIZES[options.paperSize],
+    margin: { top: mmToTwips(top), right: mmToTwips(right), bottom: mmToTwips(bottom), left: mmToTwips(left) },
+  };
+};
+
+/**
+ * 可打印宽度 (twips)：横向页面以纸张高度为宽
+ */
+export const getPrintableWidth = (layout: PageLayout, landscape: boolean): number =>
+  (landscape ? layout.height : layout.width) - layout.margin.left - layout.margin.right;
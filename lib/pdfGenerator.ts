@@ -0,0 +1,1455 @@
+/**
+ * PDF 导出：与 Word 导出共用 Markdown 预处理和 token，在浏览器中用 jsPDF 直接排版分页。
+ * 文字使用嵌入的中文字体（只嵌入用到的字形），公式 (MathJax) 与图表（Mermaid、Graphviz 等）按 SVG 矢量绘制；
+ * 主题、页面设置、页眉页脚与页码、封面、目录、横向页面沿用 Word 导出的设置
+ */
+
+// jsPDF 与 svg2pdf 只在导出 PDF 时加载；svg2pdf 为 jsPDF 增加 doc.svg 方法
+import type { jsPDF } from "jspdf";
+import type {} from "svg2pdf.js";
+import { marked } from "marked";
+import { DiagramBlockInfo, parseDiagramInfo, renderDiagramToSvg, resolveDiagramWidth } from "./diagramRenderers";
+import { extractLatexFormulas, hasLatexFormula } from "./mathRenderer";
+import { renderLatexToSvg } from "./mathSvg";
+import { LoadedImage, loadImage } from "./imageLoader";
+import { CODE_TOKEN_COLORS, splitCodeTokensIntoLines, tokenizeCode } from "./codeHighlighter";
+import { CellAlignment, HtmlTable, splitHtmlTables } from "./htmlTableParser";
+import { HtmlRunSegment, containsInlineHtml, decodeHtmlEntities, htmlToParagraphs, htmlToSegments, isClosingTag, parseOpeningTag } from "./htmlRuns";
+import { getDocumentTheme } from "./documentThemes";
+import { CITATION, FOOTNOTE_REFERENCE, ReferenceEntry, parseCitationNumbers } from "./markdownNotes";
+import { extractCallout, findDocumentTitle, formatDocumentDate, getPlainText, prepareMarkdownTokens, splitByOrientation } from "./markdownTokens";
+import { resolvePageLayout } from "./pageSetup";
+import { DEFAULT_EXPORT_OPTIONS, DocumentTheme, PageLayout, PageNumberFormat, WordExportOptions } from "../types";
+import { EMBEDDED_FONT, loadEmbeddedFont } from "./embeddedFont";
+
+// 嵌入 PDF 的中文字体
+const PDF_FONT = EMBEDDED_FONT;
+// 纯 ASCII 的代码与斜体文字使用 PDF 内置字体（嵌入字体没有等宽和斜体字形）
+const MONO_FONT = 'courier';
+const ITALIC_FONT = 'helvetica';
+
+// 单位换算：排版统一使用磅 (pt)
+const twipsToPt = (twips: number): number => twips / 20;
+const halfPointsToPt = (size: number): number => size / 2;
+const PT_PER_PX = 0.75;
+
+// 文字的基线以上、以下高度（相对字号）以及单倍行距
+const TEXT_ASCENT = 0.88;
+const TEXT_DESCENT = 0.24;
+const SINGLE_LINE_HEIGHT = 1.3;
+
+const CODE_FONT_SIZE = 9.5;
+const HEADER_FOOTER_FONT_SIZE = 9;
+const LIST_INDENT_STEP = 24;
+const LIST_MARKER_WIDTH = 18;
+const BULLETS = ['•', '◦', '▪'];
+const CELL_PADDING = { x: 4, y: 3 };
+
+// 字体加载失败：提示用户刷新页面重试，与排版过程中的其他错误区分
+export class PdfFontError extends Error {}
+
+const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return window.btoa(binary);
+};
+
+// 行内内容：文字片段、公式与图片等固定尺寸的盒子、换行
+interface InlineStyle {
+  size: number;
+  color: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  superScript?: boolean;
+  subScript?: boolean;
+  background?: string;
+  // 外部链接地址，或以 # 开头的文档内锚点
+  link?: string;
+}
+
+type InlineItem =
+  | { type: 'text'; text: string; style: InlineStyle }
+  | { type: 'box'; width: number; ascent: number; descent: number; draw: (x: number, baseline: number) => Promise<void>; link?: string }
+  | { type: 'break' };
+
+// 排版后的一行：片段带有相对行首的横坐标
+interface LinePiece {
+  item: InlineItem;
+  text: string;
+  x: number;
+  width: number;
+}
+
+interface Line {
+  pieces: LinePiece[];
+  width: number;
+  ascent: number;
+  descent: number;
+}
+
+interface ParagraphOptions {
+  x: number;
+  width: number;
+  align?: 'left' | 'center' | 'right';
+  firstLineIndent?: number;
+  // 行距：固定值 (pt) 或单倍行距的倍数
+  lineHeight: { exact?: number; multiple?: number };
+  spaceBefore?: number;
+  spaceAfter?: number;
+  // 列表编号等：与第一行对齐绘制在段落左侧
+  marker?: { items: InlineItem[]; x: number };
+  // 每行文字之前绘制的背景（代码块），可比文字区域更宽
+  lineBackground?: { color: string; x: number; width: number };
+}
+
+// 当前导出的文档、选项与主题
+let doc: jsPDF;
+let exportOptions: WordExportOptions = DEFAULT_EXPORT_OPTIONS;
+let theme: DocumentTheme = getDocumentTheme(DEFAULT_EXPORT_OPTIONS.themeId);
+let pageLayout: PageLayout;
+let landscape = false;
+// 当前页上的纵坐标
+let cursorY = 0;
+
+// 文档内跳转：锚点位置与等全部排版完成后才能创建的链接
+let anchors = new Map<string, { page: number; y: number }>();
+let pendingLinks: Array<{ page: number; x: number; y: number; width: number; height: number; anchor: string }> = [];
+let headingAnchors = new Map<string, string>();
+let outlineEntries: Array<{ level: number; title: string; anchor: string }> = [];
+
+// 脚注以尾注的形式列在文末，编号按首次引用的顺序分配
+let footnoteDefinitions = new Map<string, string>();
+let footnoteNumbers = new Map<string, number>();
+let endnotes: Array<{ number: number; tokens: any[] }> = [];
+let referenceNumbers = new Set<number>();
+
+let imageCache = new Map<string, LoadedImage | null>();
+let headingStartLevel = 1;
+let headingCounters: number[] = [];
+
+// 绘制 SVG 时需要把元素临时挂到文档中，svg2pdf 才能取到计算后的样式
+let svgHost: HTMLDivElement | null = null;
+
+const pageWidth = (): number => doc.internal.pageSize.getWidth();
+const pageHeight = (): number => doc.internal.pageSize.getHeight();
+const contentTop = (): number => twipsToPt(pageLayout.margin.top);
+const contentBottom = (): number => pageHeight() - twipsToPt(pageLayout.margin.bottom);
+const contentLeft = (): number => twipsToPt(pageLayout.margin.left);
+const contentWidth = (): number => pageWidth() - twipsToPt(pageLayout.margin.left + pageLayout.margin.right);
+const currentPage = (): number => doc.getCurrentPageInfo().pageNumber;
+
+const addPage = (): void => {
+  doc.addPage([twipsToPt(pageLayout.width), twipsToPt(pageLayout.height)], landscape ? 'landscape' : 'portrait');
+  cursorY = contentTop();
+};
+
+// 剩余空间不足时换页；整页都放不下的内容不换页（避免死循环），由调用方缩放或分行
+const ensureSpace = (height: number): void => {
+  if (cursorY + height > contentBottom() && cursorY > contentTop()) addPage();
+};
+
+const drawSvg = async (svg: SVGSVGElement, x: number, y: number, width: number, height: number, color?: string): Promise<void> => {
+  if (!svgHost) {
+    svgHost = document.createElement('div');
+    svgHost.style.cssText = 'position:absolute;left:-99999px;top:0;visibility:hidden;';
+    document.body.appendChild(svgHost);
+  }
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  if (color) clone.setAttribute('color', `#${color}`);
+  svgHost.appendChild(clone);
+  try {
+    await doc.svg(clone, { x, y, width, height });
+  } finally {
+    clone.remove();
+  }
+};
+
+const IMAGE_FORMATS: Record<LoadedImage['type'], string> = { png: 'PNG', jpg: 'JPEG', gif: 'GIF', bmp: 'BMP' };
+
+// ---------- 行内内容 ----------
+
+const isAscii = (text: string): boolean => /^[\x00-\x7F]*$/.test(text);
+
+// 选择字体：嵌入字体覆盖中文与常用符号，纯 ASCII 的代码和斜体使用内置的等宽、斜体字体
+const resolveFont = (text: string, style: InlineStyle): [string, string] => {
+  if (style.code && isAscii(text)) return [MONO_FONT, style.bold ? 'bold' : 'normal'];
+  if (style.italic && isAscii(text)) return [ITALIC_FONT, style.bold ? 'bolditalic' : 'italic'];
+  return [PDF_FONT, 'normal'];
+};
+
+const effectiveSize = (style: InlineStyle): number => style.superScript || style.subScript ? style.size * 0.7 : style.size;
+
+const measureText = (text: string, style: InlineStyle): number => {
+  const [font, fontStyle] = resolveFont(text, style);
+  doc.setFont(font, fontStyle);
+  doc.setFontSize(effectiveSize(style));
+  return doc.getTextWidth(text);
+};
+
+// 可断行的片段：中日韩字符逐字断开，西文按单词，空白单独成段
+const BREAKABLE_PIECE = /[\u2E80-\u9FFF\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFFEF\u3000-\u303F]|[^\s\u2E80-\u9FFF\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFFEF\u3000-\u303F]+|\s+/g;
+// 不能出现在行首的标点，放不下时允许略微超出行宽
+const NO_LINE_START = /^[，。、；：！？）》」』】,.;:!?)\]%]/;
+
+/**
+ * 把行内内容按宽度折行
+ */
+const composeLines = (items: InlineItem[], width: number, firstLineIndent: number = 0): Line[] => {
+  const lines: Line[] = [];
+  let current: Line = { pieces: [], width: firstLineIndent, ascent: 0, descent: 0 };
+
+  const pushLine = () => {
+    // 行尾空白不占宽度
+    while (current.pieces.length > 0 && current.pieces[current.pieces.length - 1].item.type === 'text'
+      && !current.pieces[current.pieces.length - 1].text.trim()) {
+      const removed = current.pieces.pop()!;
+      current.width -= removed.width;
+    }
+    lines.push(current);
+    current = { pieces: [], width: 0, ascent: 0, descent: 0 };
+  };
+
+  const place = (item: InlineItem, text: string, pieceWidth: number, ascent: number, descent: number) => {
+    current.pieces.push({ item, text, x: current.width, width: pieceWidth });
+    current.width += pieceWidth;
+    current.ascent = Math.max(current.ascent, ascent);
+    current.descent = Math.max(current.descent, descent);
+  };
+
+  for (const item of items) {
+    if (item.type === 'break') {
+      pushLine();
+      continue;
+    }
+    if (item.type === 'box') {
+      if (current.pieces.length > 0 && current.width + item.width > width) pushLine();
+      place(item, '', item.width, item.ascent, item.descent);
+      continue;
+    }
+
+    const size = item.style.size;
+    for (const piece of item.text.match(BREAKABLE_PIECE) || []) {
+      const isSpace = !piece.trim();
+      // 行首的空白忽略
+      if (isSpace && current.pieces.length === 0) continue;
+      const text = isSpace ? ' ' : piece;
+      let pieceWidth = measureText(text, item.style);
+
+      if (current.width + pieceWidth > width && current.pieces.length > 0 && !isSpace && !NO_LINE_START.test(text)) {
+        pushLine();
+      }
+      // 超过整行宽度的长单词按字符拆开
+      if (pieceWidth > width && text.length > 1) {
+        let chunk = '';
+        for (const char of Array.from(text)) {
+          const chunkWidth = measureText(chunk + char, item.style);
+          if (chunk && current.width + chunkWidth > width) {
+            place(item, chunk, measureText(chunk, item.style), size * TEXT_ASCENT, size * TEXT_DESCENT);
+            pushLine();
+            chunk = char;
+          } else {
+            chunk += char;
+          }
+        }
+        pieceWidth = measureText(chunk, item.style);
+        place(item, chunk, pieceWidth, size * TEXT_ASCENT, size * TEXT_DESCENT);
+        continue;
+      }
+      place(item, text, pieceWidth, size * TEXT_ASCENT, size * TEXT_DESCENT);
+    }
+  }
+  if (current.pieces.length > 0 || lines.length === 0) pushLine();
+  return lines;
+};
+
+// 行高：按行距计算，行内有较高的公式或图片时撑开
+const getLineHeight = (line: Line, options: Pick<ParagraphOptions, 'lineHeight'>, fallbackSize: number): number => {
+  const ascent = line.ascent || fallbackSize * TEXT_ASCENT;
+  const descent = line.descent || fallbackSize * TEXT_DESCENT;
+  const natural = options.lineHeight.exact ?? fallbackSize * SINGLE_LINE_HEIGHT * (options.lineHeight.multiple ?? 1);
+  return Math.max(natural, ascent + descent);
+};
+
+const getBaselineOffset = (line: Line, lineHeight: number, fallbackSize: number): number => {
+  const ascent = line.ascent || fallbackSize * TEXT_ASCENT;
+  const descent = line.descent || fallbackSize * TEXT_DESCENT;
+  return (lineHeight - ascent - descent) / 2 + ascent;
+};
+
+const registerLink = (link: string, x: number, top: number, width: number, height: number): void => {
+  if (link.startsWith('#')) {
+    pendingLinks.push({ page: currentPage(), x, y: top, width, height, anchor: link.slice(1) });
+  } else {
+    doc.link(x, top, width, height, { url: link });
+  }
+};
+
+const drawTextPiece = (text: string, style: InlineStyle, x: number, baseline: number, width: number): void => {
+  const size = effectiveSize(style);
+  const y = baseline + (style.superScript ? -style.size * 0.33 : style.subScript ? style.size * 0.12 : 0);
+
+  if (style.background) {
+    doc.setFillColor(`#${style.background}`);
+    doc.rect(x, y - size * 0.9, width, size * 1.15, 'F');
+  }
+
+  const [font, fontStyle] = resolveFont(text, style);
+  doc.setFont(font, fontStyle);
+  doc.setFontSize(size);
+  doc.setTextColor(`#${style.color}`);
+  // 嵌入字体没有粗体字形，用描边模拟加粗
+  if (style.bold && font === PDF_FONT) {
+    doc.setDrawColor(`#${style.color}`);
+    doc.setLineWidth(size * 0.03);
+    doc.text(text, x, y, { baseline: 'alphabetic', renderingMode: 'fillThenStroke' });
+  } else {
+    doc.text(text, x, y, { baseline: 'alphabetic' });
+  }
+
+  if (style.underline || style.strike) {
+    doc.setDrawColor(`#${style.color}`);
+    doc.setLineWidth(Math.max(0.4, size * 0.05));
+    if (style.underline) doc.line(x, y + size * 0.12, x + width, y + size * 0.12);
+    if (style.strike) doc.line(x, y - size * 0.3, x + width, y - size * 0.3);
+  }
+  if (style.link) registerLink(style.link, x, y - size * TEXT_ASCENT, width, size * (TEXT_ASCENT + TEXT_DESCENT));
+};
+
+// 绘制一行：相邻且样式相同的文字合并后一次绘制，便于复制 PDF 中的文字
+const drawLine = async (line: Line, x: number, baseline: number): Promise<void> => {
+  let index = 0;
+  while (index < line.pieces.length) {
+    const piece = line.pieces[index];
+    const item = piece.item;
+    if (item.type === 'box') {
+      await item.draw(x + piece.x, baseline);
+      if (item.link) registerLink(item.link, x + piece.x, baseline - item.ascent, item.width, item.ascent + item.descent);
+      index++;
+      continue;
+    }
+    if (item.type !== 'text') {
+      index++;
+      continue;
+    }
+
+    let text = piece.text;
+    let width = piece.width;
+    const font = resolveFont(piece.text, item.style)[0];
+    let next = index + 1;
+    while (next < line.pieces.length) {
+      const candidate = line.pieces[next];
+      if (candidate.item !== item || resolveFont(candidate.text, item.style)[0] !== font) break;
+      text += candidate.text;
+      width = candidate.x + candidate.width - piece.x;
+      next++;
+    }
+    drawTextPiece(text, item.style, x + piece.x, baseline, width);
+    index = next;
+  }
+};
+
+/**
+ * 排版并绘制一个段落，按行分页
+ */
+const renderParagraph = async (items: InlineItem[], options: ParagraphOptions): Promise<void> => {
+  const fallbackSize = items.find((item): item is Extract<InlineItem, { type: 'text' }> => item.type === 'text')?.style.size
+    ?? halfPointsToPt(theme.body.size);
+  const lines = composeLines(items, options.width, options.firstLineIndent);
+
+  cursorY += options.spaceBefore ?? 0;
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    const lineHeight = getLineHeight(line, options, fallbackSize);
+    ensureSpace(lineHeight);
+
+    if (options.lineBackground) {
+      doc.setFillColor(`#${options.lineBackground.color}`);
+      doc.rect(options.lineBackground.x, cursorY, options.lineBackground.width, lineHeight, 'F');
+    }
+
+    const baseline = cursorY + getBaselineOffset(line, lineHeight, fallbackSize);
+    const lineWidth = line.width;
+    const offset = options.align === 'center'
+      ? (options.width - lineWidth) / 2
+      : options.align === 'right' ? options.width - lineWidth : 0;
+    await drawLine(line, options.x + Math.max(0, offset), baseline);
+
+    if (index === 0 && options.marker) {
+      const [markerLine] = composeLines(options.marker.items, Infinity);
+      await drawLine(markerLine, options.marker.x, baseline);
+    }
+    cursorY += lineHeight;
+  }
+  cursorY += options.spaceAfter ?? 0;
+};
+
+const bodyStyle = (): InlineStyle => ({ size: halfPointsToPt(theme.body.size), color: theme.body.color });
+
+const bodyLineHeight = (): ParagraphOptions['lineHeight'] => theme.body.exactLineSpacing
+  ? { exact: twipsToPt(theme.body.spacing.line) }
+  : { multiple: theme.body.spacing.line / 240 };
+
+const codeStyle = (style: InlineStyle): InlineStyle => ({ ...style, code: true, background: theme.colors.codeBg });
+
+// 将 HTML 片段的格式映射为行内样式，未设置的属性沿用 baseStyle
+const applyHtmlStyle = (baseStyle: InlineStyle, style: HtmlRunSegment['style']): InlineStyle => {
+  const result: InlineStyle = { ...baseStyle };
+  if (style.bold) result.bold = true;
+  if (style.italics) result.italic = true;
+  if (style.underline) result.underline = true;
+  if (style.strike) result.strike = true;
+  if (style.superScript) result.superScript = true;
+  if (style.subScript) result.subScript = true;
+  if (style.highlight) result.background = 'FFFF00';
+  if (style.color) result.color = style.color;
+  if (style.code) Object.assign(result, codeStyle(result));
+  if (style.background) result.background = style.background;
+  return result;
+};
+
+const htmlSegmentsToItems = (segments: HtmlRunSegment[], baseStyle: InlineStyle): InlineItem[] =>
+  segments.map(segment => segment.break
+    ? { type: 'break' as const }
+    : { type: 'text' as const, text: segment.text, style: applyHtmlStyle(baseStyle, segment.style) });
+
+const textToItems = (text: string, style: InlineStyle): InlineItem[] => {
+  if (!text) return [];
+  const normalizedText = text.replace(/[ \t\u3000\u00A0]+/g, ' ');
+  if (containsInlineHtml(normalizedText)) return htmlSegmentsToItems(htmlToSegments(normalizedText), style);
+  return normalizedText.split('\n').flatMap((line, index): InlineItem[] => [
+    ...(index > 0 ? [{ type: 'break' as const }] : []),
+    ...(line ? [{ type: 'text' as const, text: decodeHtmlEntities(line), style }] : []),
+  ]);
+};
+
+const addEndnote = (tokens: any[]): number => {
+  const number = endnotes.length + 1;
+  endnotes.push({ number, tokens });
+  return number;
+};
+
+// 同一脚注多次引用时共用一个编号
+const getFootnoteNumber = (label: string): number => {
+  let number = footnoteNumbers.get(label);
+  if (number === undefined) {
+    number = addEndnote(marked.Lexer.lexInline(footnoteDefinitions.get(label) || '', { gfm: true }));
+    footnoteNumbers.set(label, number);
+  }
+  return number;
+};
+
+// 处理文本中的脚注引用 [^id] 与文献引用 [n]：以上标显示并链接到文末的注释或参考文献
+const textWithNotesToItems = (text: string, style: InlineStyle): InlineItem[] => {
+  const pattern = new RegExp(`${FOOTNOTE_REFERENCE.source}|${CITATION.source}`, 'g');
+  const items: InlineItem[] = [];
+  let lastIndex = 0;
+  let match;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const [marker, label, citation] = match;
+    let note: InlineItem | null = null;
+    if (label !== undefined && footnoteDefinitions.has(label)) {
+      const number = getFootnoteNumber(label);
+      note = { type: 'text', text: String(number), style: { ...style, superScript: true, color: theme.colors.link, link: `#_Note_${number}` } };
+    } else if (citation !== undefined) {
+      const numbers = parseCitationNumbers(citation);
+      if (numbers.length > 0 && numbers.every(n => referenceNumbers.has(n))) {
+        note = { type: 'text', text: marker, style: { ...style, superScript: true, color: theme.colors.link, link: `#_Ref_${numbers[0]}` } };
+      }
+    }
+    if (!note) continue;
+
+    items.push(...textToItems(text.slice(lastIndex, match.index), style), note);
+    lastIndex = match.index + marker.length;
+  }
+
+  items.push(...textToItems(text.slice(lastIndex), style));
+  return items;
+};
+
+const resolveHeadingAnchor = (anchor: string): string | undefined => {
+  let decoded = anchor;
+  try {
+    decoded = decodeURIComponent(anchor);
+  } catch {
+    // 非法的 URI 编码，按原文查找
+  }
+  return headingAnchors.get(decoded)
+    ?? headingAnchors.get(new marked.Slugger().slug(decoded, { dryrun: true }));
+};
+
+// 链接：#锚点 跳转到对应标题，外部链接按 linkStyle 附加网址或尾注
+const linkToItems = (token: any, style: InlineStyle): InlineItem[] => {
+  const href: string = token.href || '';
+  const linkStyle: InlineStyle = { ...style, color: theme.colors.link, underline: true };
+  if (href.startsWith('#')) {
+    const anchor = resolveHeadingAnchor(href.slice(1));
+    if (anchor) linkStyle.link = `#${anchor}`;
+  } else if (href) {
+    linkStyle.link = href;
+  }
+  const children = token.tokens ? inlineTokensToItems(token.tokens, linkStyle) : textToItems(token.text, linkStyle);
+  if (!href || href.startsWith('#')) return children;
+
+  const displayUrl = href.replace(/^mailto:/, '');
+  if (token.text === href || token.text === displayUrl) return children;
+  switch (exportOptions.linkStyle) {
+    case 'inline-url':
+      return [...children, { type: 'text', text: ` (${displayUrl})`, style: { ...style, color: '6B7280' } }];
+    case 'footnote': {
+      const number = addEndnote([{ type: 'link', href, text: displayUrl, tokens: [{ type: 'text', raw: displayUrl, text: displayUrl }] }]);
+      return [...children, { type: 'text', text: String(number), style: { ...style, superScript: true, color: theme.colors.link, link: `#_Note_${number}` } }];
+    }
+    default:
+      return children;
+  }
+};
+
+const createImageBox = (image: LoadedImage, width: number, height: number): InlineItem => ({
+  type: 'box',
+  width,
+  ascent: height,
+  descent: 0,
+  draw: async (x, baseline) => {
+    doc.addImage(image.data, IMAGE_FORMATS[image.type], x, baseline - height, width, height);
+  },
+});
+
+// 图片：按可用宽度等比缩小，加载失败时显示替代文字
+const imageToItems = (token: any, style: InlineStyle, maxWidth: number): InlineItem[] => {
+  const alt = token.text || '';
+  const image = imageCache.get(token.href);
+  if (!image) {
+    return [{ type: 'text', text: `[图片${alt ? `: ${alt}` : ''}]`, style: { ...style, color: '9CA3AF', background: theme.colors.codeBg } }];
+  }
+  const naturalWidth = image.width * PT_PER_PX;
+  const maxHeight = (contentBottom() - contentTop()) * 0.9;
+  const scale = Math.min(1, maxWidth / naturalWidth, maxHeight / (image.height * PT_PER_PX));
+  return [createImageBox(image, naturalWidth * scale, image.height * PT_PER_PX * scale)];
+};
+
+// 查找与开始标签配对的结束标签 token，同名标签嵌套时按层级匹配
+const findClosingTagIndex = (inlineTokens: any[], openIndex: number, name: string): number => {
+  let depth = 0;
+  for (let i = openIndex + 1; i < inlineTokens.length; i++) {
+    const token = inlineTokens[i];
+    if (token.type !== 'html') continue;
+    if (parseOpeningTag(token.raw)?.name === name) {
+      depth++;
+    } else if (isClosingTag(token.raw, name)) {
+      if (depth === 0) return i;
+      depth--;
+    }
+  }
+  return -1;
+};
+
+// 行内内容的可用宽度，图片按此缩放
+let inlineMaxWidth = 0;
+
+const inlineTokensToItems = (inlineTokens: any[], style: InlineStyle): InlineItem[] => {
+  if (!inlineTokens || !Array.isArray(inlineTokens)) return [];
+
+  const items: InlineItem[] = [];
+  for (let i = 0; i < inlineTokens.length; i++) {
+    const token = inlineTokens[i];
+    // marked 把行内 HTML 的开始、结束标签拆成单独的 token：中间的 token 按标签的格式处理
+    const openingTag = token.type === 'html' ? parseOpeningTag(token.raw) : null;
+    const closingIndex = openingTag ? findClosingTagIndex(inlineTokens, i, openingTag.name) : -1;
+    if (openingTag && closingIndex !== -1) {
+      items.push(...inlineTokensToItems(inlineTokens.slice(i + 1, closingIndex), applyHtmlStyle(style, openingTag.style)));
+      i = closingIndex;
+    } else {
+      items.push(...inlineTokenToItems(token, style));
+    }
+  }
+  return items;
+};
+
+const inlineTokenToItems = (token: any, inheritedStyle: InlineStyle): InlineItem[] => {
+  let style = inheritedStyle;
+  switch (token.type) {
+    case 'strong':
+      style = { ...style, bold: true };
+      break;
+    case 'em':
+      style = { ...style, italic: true };
+      break;
+    case 'del':
+      style = { ...style, strike: true };
+      break;
+    case 'codespan':
+      style = codeStyle(style);
+      break;
+    case 'link':
+      return linkToItems(token, style);
+    case 'image':
+      return imageToItems(token, style, inlineMaxWidth);
+    case 'br':
+      return [{ type: 'break' }];
+    case 'html':
+      // 未配对的标签（如单独的 <br>）
+      return /^<br\s*\/?>$/i.test(token.raw.trim()) ? [{ type: 'break' }] : [];
+    default:
+      break;
+  }
+
+  if (token.tokens && Array.isArray(token.tokens)) {
+    return inlineTokensToItems(token.tokens, style);
+  }
+
+  // 转义字符 \< 等取转义后的字符
+  const text = ((token.type === 'escape' ? token.text : token.raw || token.text) || '').replace(/[ \t\u3000\u00A0]+/g, ' ');
+  if (!text) return [];
+  return token.type === 'codespan' ? textToItems(token.text, style) : textWithNotesToItems(text, style);
+};
+
+const createFormulaBox = (formula: string, displayMode: boolean, style: InlineStyle): InlineItem | null => {
+  const math = renderLatexToSvg(formula, displayMode);
+  if (!math) return null;
+  const size = style.size;
+  return {
+    type: 'box',
+    width: math.width * size,
+    ascent: math.ascent * size,
+    descent: math.descent * size,
+    draw: (x, baseline) => drawSvg(math.svg, x, baseline - math.ascent * size, math.width * size, (math.ascent + math.descent) * size, style.color),
+  };
+};
+
+// 含公式的内容：公式渲染为矢量 SVG，其余部分按行内 Markdown 处理
+const mixedContentToItems = (text: string, tokens: any[] | null, style: InlineStyle): InlineItem[] => {
+  if (!hasLatexFormula(text)) {
+    return tokens ? inlineTokensToItems(tokens, style) : textWithNotesToItems(text, style);
+  }
+
+  const { processedText, formulas } = extractLatexFormulas(text);
+  if (formulas.length === 0) {
+    return tokens ? inlineTokensToItems(tokens, style) : textWithNotesToItems(text, style);
+  }
+
+  return processedText.split(/(\[\[FORMULA_(?:INLINE|BLOCK)_\d+\]\])/).flatMap((part): InlineItem[] => {
+    const formula = formulas.find(f => f.placeholder === part);
+    if (formula) {
+      const box = createFormulaBox(formula.formula, formula.type === 'block', style);
+      return [box ?? { type: 'text', text: formula.formula, style: { ...style, italic: true } }];
+    }
+    return part ? inlineTokensToItems(marked.Lexer.lexInline(part, { gfm: true }), style) : [];
+  });
+};
+
+// ---------- 块级内容 ----------
+
+interface Frame {
+  x: number;
+  width: number;
+}
+
+const getHeadingNumber = (level: number): string => {
+  if (!exportOptions.headingNumbering || level < headingStartLevel) return '';
+  const depth = level - headingStartLevel;
+  headingCounters = headingCounters.slice(0, depth + 1);
+  while (headingCounters.length < depth + 1) headingCounters.push(0);
+  headingCounters[depth]++;
+  return `${headingCounters.map(counter => counter || 1).join('.')} `;
+};
+
+const renderHeading = async (token: any, frame: Frame): Promise<void> => {
+  const level = Math.min(token.depth, 6);
+  const style = theme.headings[level - 1];
+  const size = halfPointsToPt(style.size);
+  const inlineStyle: InlineStyle = { size, color: style.color, bold: style.bold };
+  const number = getHeadingNumber(level);
+  const items: InlineItem[] = [
+    ...(number ? [{ type: 'text' as const, text: number, style: inlineStyle }] : []),
+    ...mixedContentToItems(token.text, token.tokens, inlineStyle),
+  ];
+
+  // 标题与下一段放在同一页
+  cursorY += twipsToPt(style.spacing.before);
+  ensureSpace(size * SINGLE_LINE_HEIGHT + halfPointsToPt(theme.body.size) * SINGLE_LINE_HEIGHT * 2);
+  if (token.anchor) {
+    anchors.set(token.anchor, { page: currentPage(), y: cursorY });
+    outlineEntries.push({ level, title: `${number}${getPlainText(token).trim()}`, anchor: token.anchor });
+  }
+
+  await renderParagraph(items, {
+    x: frame.x,
+    width: frame.width,
+    align: style.alignment,
+    firstLineIndent: twipsToPt(style.firstLineIndent),
+    lineHeight: { multiple: 1.1 },
+  });
+  if (style.bottomBorder) {
+    doc.setDrawColor(`#${theme.colors.border}`);
+    doc.setLineWidth(0.75);
+    doc.line(frame.x, cursorY + 2, frame.x + frame.width, cursorY + 2);
+    cursorY += 4;
+  }
+  cursorY += twipsToPt(style.spacing.after);
+};
+
+const renderBodyParagraph = async (token: any, frame: Frame): Promise<void> => {
+  const text = token.text || '';
+  inlineMaxWidth = frame.width;
+  const items = mixedContentToItems(text, token.tokens, bodyStyle());
+  // 独占一段的块级公式和图片居中显示
+  const isBlockFormula = /^(\$\$[\s\S]*\$\$|\\\[[\s\S]*\\\])$/.test(text.trim());
+  const isStandaloneImage = token.tokens?.length === 1 && token.tokens[0].type === 'image';
+  const centered = isBlockFormula || isStandaloneImage;
+
+  await renderParagraph(items, {
+    x: frame.x,
+    width: frame.width,
+    align: centered ? 'center' : 'left',
+    firstLineIndent: centered ? 0 : twipsToPt(theme.body.firstLineIndent),
+    lineHeight: bodyLineHeight(),
+    spaceBefore: twipsToPt(theme.body.spacing.before),
+    spaceAfter: twipsToPt(theme.body.spacing.after),
+  });
+};
+
+const formatListNumber = (value: number, depth: number): string => {
+  switch (depth % 3) {
+    case 1:
+      return String.fromCharCode(96 + ((value - 1) % 26) + 1);
+    case 2:
+      return toRoman(value).toLowerCase();
+    default:
+      return String(value);
+  }
+};
+
+// 任务项的复选框
+const createCheckbox = (checked: boolean, size: number): InlineItem => {
+  const box = size * 0.8;
+  return {
+    type: 'box',
+    width: box + 4,
+    ascent: box,
+    descent: 0,
+    draw: async (x, baseline) => {
+      doc.setDrawColor('#6B7280');
+      doc.setLineWidth(0.6);
+      doc.rect(x, baseline - box, box, box, 'S');
+      if (checked) {
+        doc.line(x + box * 0.2, baseline - box * 0.5, x + box * 0.42, baseline - box * 0.2);
+        doc.line(x + box * 0.42, baseline - box * 0.2, x + box * 0.82, baseline - box * 0.8);
+      }
+    },
+  };
+};
+
+const renderList = async (listToken: any, depth: number, frame: Frame): Promise<void> => {
+  const start = Number(listToken.start) || 1;
+  const indent = LIST_INDENT_STEP * Math.min(depth, 8) + LIST_MARKER_WIDTH;
+  const itemFrame = { x: frame.x + indent, width: frame.width - indent };
+
+  for (let index = 0; index < listToken.items.length; index++) {
+    const item = listToken.items[index];
+    let isFirstBlock = true;
+
+    for (const child of item.tokens || []) {
+      if (child.type === 'list') {
+        await renderList(child, depth + 1, frame);
+        continue;
+      }
+      if (child.type !== 'text' && child.type !== 'paragraph') {
+        // 列表项中的代码块、表格等，按普通块级元素处理
+        await renderTokens([child], itemFrame);
+        continue;
+      }
+
+      inlineMaxWidth = itemFrame.width;
+      const style = bodyStyle();
+      const items = mixedContentToItems(child.text, child.tokens, style);
+      let marker: ParagraphOptions['marker'];
+      if (isFirstBlock) {
+        const markerText = listToken.ordered ? `${formatListNumber(start + index, depth)}.` : BULLETS[depth % BULLETS.length];
+        marker = item.task
+          ? { items: [createCheckbox(!!item.checked, style.size)], x: itemFrame.x - LIST_MARKER_WIDTH }
+          : { items: [{ type: 'text', text: markerText, style }], x: itemFrame.x - LIST_MARKER_WIDTH };
+      }
+      isFirstBlock = false;
+
+      await renderParagraph(items, {
+        ...itemFrame,
+        lineHeight: bodyLineHeight(),
+        spaceBefore: 2,
+        spaceAfter: 2,
+        marker,
+      });
+    }
+  }
+};
+
+// 代码块：按语言着色，底色铺满整行，可选语言标题和行号
+const renderCodeBlock = async (code: string, lang: string | undefined, frame: Frame): Promise<void> => {
+  const language = (lang || '').trim().split(/\s+/)[0];
+  const lines = splitCodeTokensIntoLines(tokenizeCode(code.replace(/\t/g, '    '), language));
+  const numberWidth = String(lines.length).length;
+  const padding = 8;
+  const baseStyle: InlineStyle = { size: CODE_FONT_SIZE, color: CODE_TOKEN_COLORS.plain, code: true };
+  // 背景从代码块左边缘铺到右边缘，文字向内缩进
+  const options: ParagraphOptions = {
+    x: frame.x + padding,
+    width: frame.width - padding * 2,
+    lineHeight: { multiple: 1.05 },
+    lineBackground: { color: theme.colors.codeBg, ...frame },
+  };
+  const paddingRow = (height: number) => {
+    ensureSpace(height);
+    doc.setFillColor(`#${theme.colors.codeBg}`);
+    doc.rect(frame.x, cursorY, frame.width, height, 'F');
+    cursorY += height;
+  };
+
+  cursorY += 4;
+  paddingRow(padding / 2);
+  if (exportOptions.codeLanguageCaption && language) {
+    await renderParagraph([{ type: 'text', text: language.toUpperCase(), style: { size: 8, color: '9CA3AF', bold: true } }], {
+      ...options,
+      align: 'right',
+    });
+  }
+  for (let index = 0; index < lines.length; index++) {
+    const items: InlineItem[] = [];
+    if (exportOptions.codeLineNumbers) {
+      items.push({ type: 'text', text: `${String(index + 1).padStart(numberWidth, ' ')}  `, style: { ...baseStyle, color: '9CA3AF' } });
+    }
+    for (const { text, kind } of lines[index]) {
+      items.push({ type: 'text', text, style: { ...baseStyle, color: CODE_TOKEN_COLORS[kind], italic: kind === 'comment' } });
+    }
+    await renderParagraph(items, options);
+  }
+  paddingRow(padding / 2);
+  cursorY += 6;
+};
+
+// 宽度按代码块指定的宽度或设置中的最大宽度，高度不超过一页
+const renderDiagram = async (code: string, info: DiagramBlockInfo, frame: Frame): Promise<boolean> => {
+  const diagram = await renderDiagramToSvg(code.trim(), info, exportOptions, PDF_FONT);
+  if (!diagram) return false;
+
+  const maxHeight = (contentBottom() - contentTop()) * 0.9;
+  const naturalWidth = diagram.width * PT_PER_PX;
+  const fittedWidth = resolveDiagramWidth(naturalWidth, frame.width, info, exportOptions.diagramMaxWidth, PT_PER_PX);
+  const scale = Math.min(fittedWidth / naturalWidth, maxHeight / (diagram.height * PT_PER_PX));
+  const width = naturalWidth * scale;
+  const height = diagram.height * PT_PER_PX * scale;
+
+  cursorY += 6;
+  ensureSpace(height);
+  await drawSvg(diagram.svg, frame.x + (frame.width - width) / 2, cursorY, width, height);
+  cursorY += height + 6;
+  return true;
+};
+
+// 引用块：内部内容递归排版，左侧绘制竖线；提示块使用对应颜色并加标题
+const renderBlockquote = async (token: any, frame: Frame): Promise<void> => {
+  const callout = extractCallout(token);
+  const barColor = callout ? callout.style.color : theme.colors.quoteBorder;
+  const inner: Frame = { x: frame.x + 12, width: frame.width - 18 };
+
+  cursorY += 4;
+  const start = { page: currentPage(), y: cursorY };
+  if (callout) {
+    await renderParagraph([{ type: 'text', text: callout.title, style: { ...bodyStyle(), bold: true, color: callout.style.color } }], {
+      ...inner,
+      lineHeight: bodyLineHeight(),
+      spaceAfter: 2,
+    });
+  }
+  await renderTokens(callout ? callout.tokens : token.tokens || [], inner);
+
+  // 跨页时每页分别绘制一段竖线
+  const endPage = currentPage();
+  doc.setDrawColor(`#${barColor}`);
+  doc.setLineWidth(2.5);
+  for (let page = start.page; page <= endPage; page++) {
+    doc.setPage(page);
+    const top = page === start.page ? start.y : contentTop();
+    const bottom = page === endPage ? cursorY : contentBottom();
+    if (bottom > top) doc.line(frame.x + 3, top, frame.x + 3, bottom);
+  }
+  doc.setPage(endPage);
+  cursorY += 6;
+};
+
+interface TableCellLayout {
+  items: InlineItem[];
+  column: number;
+  colSpan: number;
+  align: CellAlignment;
+}
+
+interface TableRowLayout {
+  cells: TableCellLayout[];
+  isHeader: boolean;
+}
+
+// 按内容长度分配列宽（中文字符按 2 个宽度计），短列使用最小宽度
+const calculateColumnWidths = (columnTexts: string[][], totalWidth: number): number[] => {
+  const minColumnWidth = 50;
+  const lengths = columnTexts.map(texts => Math.max(1, ...texts.map(text =>
+    text.split('').reduce((sum, char) => sum + (char.charCodeAt(0) > 255 ? 2 : 1), 0))));
+  const shortColumns = lengths.map(length => length <= 4);
+  const regularCount = shortColumns.filter(short => !short).length;
+  if (regularCount === 0) return lengths.map(() => totalWidth / lengths.length);
+
+  const regularWidth = (totalWidth - (lengths.length - regularCount) * minColumnWidth) / regularCount;
+  return shortColumns.map(short => short ? minColumnWidth : regularWidth);
+};
+
+// 表格：行间绘制横线，分页时在新页重复表头行
+const renderTable = async (rows: TableRowLayout[], columnWidths: number[], frame: Frame): Promise<void> => {
+  const columnX = columnWidths.reduce<number[]>((positions, width, index) => [...positions, positions[index] + width], [frame.x]);
+  const lineHeight = { multiple: 1.0 };
+  const fontSize = halfPointsToPt(theme.tableFontSize);
+
+  const layoutRow = (row: TableRowLayout) => {
+    const cells = row.cells.map(cell => {
+      const width = columnX[cell.column + cell.colSpan] - columnX[cell.column] - CELL_PADDING.x * 2;
+      const lines = composeLines(cell.items, width);
+      const heights = lines.map(line => getLineHeight(line, { lineHeight }, fontSize));
+      return { cell, width, lines, heights, height: heights.reduce((sum, h) => sum + h, 0) };
+    });
+    return { row, cells, height: Math.max(fontSize * SINGLE_LINE_HEIGHT, ...cells.map(cell => cell.height)) + CELL_PADDING.y * 2 };
+  };
+
+  const drawRule = (y: number) => {
+    doc.setDrawColor(`#${theme.colors.border}`);
+    doc.setLineWidth(0.75);
+    doc.line(frame.x, y, columnX[columnX.length - 1], y);
+  };
+
+  const drawRow = async (layout: ReturnType<typeof layoutRow>) => {
+    const top = cursorY;
+    for (const { cell, width, lines, heights, height } of layout.cells) {
+      // 单元格内容垂直居中
+      let y = top + CELL_PADDING.y + (layout.height - CELL_PADDING.y * 2 - height) / 2;
+      for (let i = 0; i < lines.length; i++) {
+        const x = columnX[cell.column] + CELL_PADDING.x;
+        const offset = cell.align === 'center' ? (width - lines[i].width) / 2 : cell.align === 'right' ? width - lines[i].width : 0;
+        await drawLine(lines[i], x + Math.max(0, offset), y + getBaselineOffset(lines[i], heights[i], fontSize));
+        y += heights[i];
+      }
+    }
+    cursorY += layout.height;
+    drawRule(cursorY);
+  };
+
+  const layouts = rows.map(layoutRow);
+  const headerLayouts = layouts.filter(layout => layout.row.isHeader);
+
+  cursorY += 4;
+  ensureSpace((layouts[0]?.height ?? 0) + (layouts[headerLayouts.length]?.height ?? 0));
+  drawRule(cursorY);
+  for (const layout of layouts) {
+    if (cursorY + layout.height > contentBottom() && cursorY > contentTop()) {
+      addPage();
+      drawRule(cursorY);
+      if (!layout.row.isHeader) {
+        for (const header of headerLayouts) await drawRow(header);
+      }
+    }
+    await drawRow(layout);
+  }
+  cursorY += 8;
+};
+
+const renderMarkdownTable = async (token: any, frame: Frame): Promise<void> => {
+  const align: CellAlignment[] = token.align || [];
+  const fontSize = halfPointsToPt(theme.tableFontSize);
+  const columnCount = token.header.length;
+  const columnWidths = calculateColumnWidths(
+    Array.from({ length: columnCount }, (_, col) => [token.header, ...token.rows].map((row: any[]) => row[col]?.text || '')),
+    frame.width
+  );
+
+  const toRow = (cells: any[], isHeader: boolean): TableRowLayout => ({
+    isHeader,
+    cells: cells.slice(0, columnCount).map((cell, column) => {
+      inlineMaxWidth = columnWidths[column] - CELL_PADDING.x * 2;
+      return {
+        items: mixedContentToItems(cell.text, cell.tokens, { size: fontSize, color: theme.body.color, bold: isHeader }),
+        column,
+        colSpan: 1,
+        align: align[column] || null,
+      };
+    }),
+  });
+
+  await renderTable([toRow(token.header, true), ...token.rows.map((row: any[]) => toRow(row, false))], columnWidths, frame);
+};
+
+// HTML 表格：合并的列按跨度计算宽度；跨行单元格只在首行显示内容
+const renderHtmlTable = async (table: HtmlTable, frame: Frame): Promise<void> => {
+  const fontSize = halfPointsToPt(theme.tableFontSize);
+  const columnWidth = frame.width / table.columnCount;
+  const occupied: boolean[][] = table.rows.map(() => Array(table.columnCount).fill(false));
+
+  const rows = table.rows.map((row, rowIndex): TableRowLayout => {
+    let column = 0;
+    const cells: TableCellLayout[] = [];
+    for (const cell of row.cells) {
+      while (column < table.columnCount && occupied[rowIndex][column]) column++;
+      if (column >= table.columnCount) break;
+      const colSpan = Math.min(cell.colSpan, table.columnCount - column);
+      for (let r = rowIndex; r < Math.min(table.rows.length, rowIndex + cell.rowSpan); r++) {
+        for (let c = column; c < column + colSpan; c++) occupied[r][c] = true;
+      }
+      inlineMaxWidth = columnWidth * colSpan - CELL_PADDING.x * 2;
+      cells.push({
+        items: mixedContentToItems(cell.text, null, { size: fontSize, color: theme.body.color, bold: cell.isHeader }),
+        column,
+        colSpan,
+        align: cell.align,
+      });
+      column += colSpan;
+    }
+    return { cells, isHeader: row.isHeader };
+  });
+
+  await renderTable(rows, Array(table.columnCount).fill(columnWidth), frame);
+};
+
+const renderReferences = async (entries: ReferenceEntry[], frame: Frame): Promise<void> => {
+  for (const entry of entries) {
+    ensureSpace(halfPointsToPt(theme.body.size) * SINGLE_LINE_HEIGHT);
+    anchors.set(`_Ref_${entry.number}`, { page: currentPage(), y: cursorY });
+    const style = bodyStyle();
+    await renderParagraph(inlineTokensToItems(marked.Lexer.lexInline(entry.text, { gfm: true }), style), {
+      x: frame.x + 24,
+      width: frame.width - 24,
+      lineHeight: bodyLineHeight(),
+      spaceAfter: 2,
+      marker: { items: [{ type: 'text', text: `[${entry.number}]`, style }], x: frame.x },
+    });
+  }
+};
+
+// 尾注：脚注与“网址放入脚注”的链接，列在正文之后
+const renderEndnotes = async (frame: Frame): Promise<void> => {
+  if (endnotes.length === 0) return;
+
+  cursorY += 12;
+  ensureSpace(40);
+  doc.setDrawColor(`#${theme.colors.border}`);
+  doc.setLineWidth(0.75);
+  doc.line(frame.x, cursorY, frame.x + frame.width / 3, cursorY);
+  cursorY += 6;
+
+  const style: InlineStyle = { size: Math.max(8, halfPointsToPt(theme.body.size) - 1.5), color: theme.body.color };
+  // 尾注内容中可能引用新的脚注，列表会在循环中增长
+  for (let index = 0; index < endnotes.length; index++) {
+    const note = endnotes[index];
+    ensureSpace(style.size * SINGLE_LINE_HEIGHT);
+    anchors.set(`_Note_${note.number}`, { page: currentPage(), y: cursorY });
+    inlineMaxWidth = frame.width - 20;
+    await renderParagraph(inlineTokensToItems(note.tokens, style), {
+      x: frame.x + 20,
+      width: frame.width - 20,
+      lineHeight: { multiple: 1.1 },
+      spaceAfter: 2,
+      marker: { items: [{ type: 'text', text: `${note.number}.`, style }], x: frame.x },
+    });
+  }
+};
+
+const renderTokens = async (tokens: any[], frame: Frame): Promise<void> => {
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'heading':
+        await renderHeading(token, frame);
+        break;
+      case 'paragraph':
+      case 'text':
+        await renderBodyParagraph(token, frame);
+        break;
+      case 'list':
+        await renderList(token, 0, frame);
+        break;
+      case 'code': {
+        const diagramInfo = parseDiagramInfo(token.lang);
+        if (diagramInfo && await renderDiagram(token.text, diagramInfo, frame)) break;
+        await renderCodeBlock(token.text, token.lang, frame);
+        break;
+      }
+      case 'table':
+        await renderMarkdownTable(token, frame);
+        break;
+      case 'html':
+        // 表格前后的 <div>、<p>、<details> 等块级 HTML 按段落输出，注释等不可见内容忽略
+        for (const part of splitHtmlTables(token.text)) {
+          if (part.type === 'table') {
+            await renderHtmlTable(part.table, frame);
+            continue;
+          }
+          for (const segments of htmlToParagraphs(part.html)) {
+            await renderParagraph(htmlSegmentsToItems(segments, bodyStyle()), {
+              ...frame,
+              lineHeight: bodyLineHeight(),
+              spaceBefore: twipsToPt(theme.body.spacing.before),
+              spaceAfter: twipsToPt(theme.body.spacing.after),
+            });
+          }
+        }
+        break;
+      case 'blockquote':
+        await renderBlockquote(token, frame);
+        break;
+      case 'references':
+        await renderReferences(token.entries, frame);
+        break;
+      case 'hr':
+        cursorY += 6;
+        ensureSpace(6);
+        doc.setDrawColor(`#${theme.colors.border}`);
+        doc.setLineWidth(0.75);
+        doc.line(frame.x, cursorY, frame.x + frame.width, cursorY);
+        cursorY += 6;
+        break;
+      case 'space':
+        break;
+      default:
+        console.log("Unhandled token type:", token.type);
+    }
+  }
+};
+
+// ---------- 封面、目录、页眉页脚 ----------
+
+// 页眉页脚中可用的占位符
+interface HeaderFooterFields {
+  title: string;
+  date: string;
+}
+
+const toRoman = (value: number): string => {
+  const numerals: Array<[number, string]> = [
+    [1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'], [100, 'C'], [90, 'XC'],
+    [50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I'],
+  ];
+  let rest = value;
+  return numerals.reduce((result, [amount, numeral]) => {
+    let text = result;
+    while (rest >= amount) {
+      text += numeral;
+      rest -= amount;
+    }
+    return text;
+  }, '');
+};
+
+const CHINESE_DIGITS = '〇一二三四五六七八九';
+
+// 一、十、二十一、一百零五
+const toChineseNumber = (value: number): string => {
+  if (value < 10) return CHINESE_DIGITS[value];
+  if (value < 20) return `十${value % 10 ? CHINESE_DIGITS[value % 10] : ''}`;
+  if (value < 100) return `${CHINESE_DIGITS[Math.floor(value / 10)]}十${value % 10 ? CHINESE_DIGITS[value % 10] : ''}`;
+  if (value < 1000) {
+    const rest = value % 100;
+    const restText = rest === 0 ? '' : rest < 10 ? `零${CHINESE_DIGITS[rest]}` : rest < 20 ? `一${toChineseNumber(rest)}` : toChineseNumber(rest);
+    return `${CHINESE_DIGITS[Math.floor(value / 100)]}百${restText}`;
+  }
+  return String(value);
+};
+
+const formatPageNumber = (value: number, format: PageNumberFormat): string => {
+  switch (format) {
+    case 'dash':
+      return `- ${value} -`;
+    case 'roman':
+      return toRoman(value);
+    case 'chinese':
+      return toChineseNumber(value);
+    default:
+      return String(value);
+  }
+};
+
+// 封面：标题、作者、日期在页面中垂直居中
+const renderCoverPage = async (titleToken: any, fields: HeaderFooterFields): Promise<void> => {
+  const titleStyle = theme.headings[0];
+  const titleSize = halfPointsToPt(titleStyle.size) * 1.5;
+  const metadata = [exportOptions.coverAuthor.trim(), fields.date].filter(Boolean);
+  const metaSize = halfPointsToPt(theme.body.size) + 2;
+  const frame = { x: contentLeft(), width: contentWidth() };
+
+  const titleLines = composeLines(mixedContentToItems(titleToken.text, titleToken.tokens, { size: titleSize, color: titleStyle.color, bold: true }), frame.width);
+  const blockHeight = titleLines.length * titleSize * SINGLE_LINE_HEIGHT + 36 + metadata.length * metaSize * 1.6;
+  cursorY = contentTop() + Math.max(0, (contentBottom() - contentTop() - blockHeight) / 2);
+
+  if (titleToken.anchor) anchors.set(titleToken.anchor, { page: currentPage(), y: cursorY });
+  for (const line of titleLines) {
+    const lineHeight = getLineHeight(line, { lineHeight: {} }, titleSize);
+    await drawLine(line, frame.x + (frame.width - line.width) / 2, cursorY + getBaselineOffset(line, lineHeight, titleSize));
+    cursorY += lineHeight;
+  }
+  cursorY += 36;
+  for (const text of metadata) {
+    await renderParagraph([{ type: 'text', text, style: { size: metaSize, color: theme.body.color } }], {
+      ...frame,
+      align: 'center',
+      lineHeight: { multiple: 1.2 },
+      spaceAfter: 4,
+    });
+  }
+};
+
+interface TocEntry {
+  level: number;
+  title: string;
+  anchor: string;
+}
+
+const TOC_LINE_HEIGHT = 20;
+
+// 目录预留位置：标题数量已知，先按固定行高分配好每一项所在的页和纵坐标，正文排完后再填入页码
+const reserveTableOfContents = (entries: TocEntry[], frame: Frame): Array<{ page: number; y: number }> => {
+  ensureSpace(40);
+  cursorY += 12;
+  const titleSize = halfPointsToPt(theme.headings[1].size);
+  doc.setFont(PDF_FONT, 'normal');
+  doc.setFontSize(titleSize);
+  doc.setTextColor(`#${theme.body.color}`);
+  doc.text('目录', frame.x + frame.width / 2, cursorY + titleSize, { align: 'center', baseline: 'alphabetic', renderingMode: 'fillThenStroke' });
+  cursorY += titleSize * 2;
+
+  const slots = entries.map(() => {
+    ensureSpace(TOC_LINE_HEIGHT);
+    const slot = { page: currentPage(), y: cursorY };
+    cursorY += TOC_LINE_HEIGHT;
+    return slot;
+  });
+  // 目录后另起一页
+  addPage();
+  return slots;
+};
+
+const fillTableOfContents = (entries: TocEntry[], slots: Array<{ page: number; y: number }>, frame: Frame, firstContentPage: number): void => {
+  const size = halfPointsToPt(theme.body.size);
+  entries.forEach((entry, index) => {
+    const target = anchors.get(entry.anchor);
+    if (!target) return;
+    const slot = slots[index];
+    doc.setPage(slot.page);
+    doc.setFont(PDF_FONT, 'normal');
+    doc.setFontSize(size);
+    doc.setTextColor(`#${theme.body.color}`);
+
+    const x = frame.x + (entry.level - headingStartLevel) * 16;
+    const baseline = slot.y + TOC_LINE_HEIGHT * 0.7;
+    const pageText = formatPageNumber(target.page - firstContentPage + 1, exportOptions.pageNumberFormat);
+    const pageTextWidth = doc.getTextWidth(pageText);
+    const maxTitleWidth = frame.x + frame.width - x - pageTextWidth - 24;
+    let title = entry.title;
+    while (title.length > 1 && doc.getTextWidth(title) > maxTitleWidth) title = title.slice(0, -2) + '…';
+
+    doc.text(title, x, baseline, { baseline: 'alphabetic' });
+    doc.text(pageText, frame.x + frame.width, baseline, { align: 'right', baseline: 'alphabetic' });
+    // 标题与页码之间的点线
+    doc.setDrawColor('#9CA3AF');
+    doc.setLineWidth(0.5);
+    doc.setLineDashPattern([0.5, 2.5], 0);
+    doc.line(x + doc.getTextWidth(title) + 6, baseline, frame.x + frame.width - pageTextWidth - 6, baseline);
+    doc.setLineDashPattern([], 0);
+
+    doc.link(x, slot.y, frame.x + frame.width - x, TOC_LINE_HEIGHT, { pageNumber: target.page, magFactor: 'XYZ', top: target.y, left: 0, zoom: 0 });
+  });
+};
+
+const renderHeaderFooter = (template: string, fields: HeaderFooterFields, pageNumber: number, totalPages: number, isHeader: boolean): void => {
+  const text = template
+    .replace(/\{title\}/g, fields.title)
+    .replace(/\{date\}/g, fields.date)
+    .replace(/\{page\}/g, formatPageNumber(pageNumber, exportOptions.pageNumberFormat))
+    .replace(/\{pages\}/g, formatPageNumber(totalPages, exportOptions.pageNumberFormat));
+  const centerX = contentLeft() + contentWidth() / 2;
+
+  doc.setFont(PDF_FONT, 'normal');
+  doc.setFontSize(HEADER_FOOTER_FONT_SIZE);
+  doc.setTextColor(`#${theme.body.color}`);
+  if (isHeader) {
+    // 页眉位于上边距中间，下方加分隔线
+    const baseline = Math.max(HEADER_FOOTER_FONT_SIZE + 6, contentTop() - 14);
+    doc.text(text, centerX, baseline, { align: 'center', baseline: 'alphabetic' });
+    doc.setDrawColor(`#${theme.colors.border}`);
+    doc.setLineWidth(0.5);
+    doc.line(contentLeft(), baseline + 4, contentLeft() + contentWidth(), baseline + 4);
+  } else {
+    const baseline = Math.min(pageHeight() - 10, contentBottom() + 20);
+    doc.text(text, centerX, baseline, { align: 'center', baseline: 'alphabetic' });
+  }
+};
+
+// 为标题分配锚点名（链接可能出现在标题之前）
+const assignHeadingAnchors = (tokens: any[]): void => {
+  const slugger = new marked.Slugger();
+  headingAnchors = new Map();
+  marked.walkTokens(tokens, (token: any) => {
+    if (token.type !== 'heading') return;
+    const slug = slugger.slug(token.text);
+    token.anchor = `_Heading_${headingAnchors.size + 1}`;
+    headingAnchors.set(slug, token.anchor);
+  });
+};
+
+const preloadImages = async (tokens: any[]): Promise<void> => {
+  const sources = new Set<string>();
+  marked.walkTokens(tokens, (token: any) => {
+    if (token.type === 'image' && token.href) sources.add(token.href);
+  });
+
+  await Promise.all(Array.from(sources).map(async (src) => {
+    imageCache.set(src, await loadImage(src, exportOptions.allowRemoteImages));
+  }));
+};
+
+// 书签（大纲）：按标题级别嵌套
+const addOutline = (): void => {
+  const parents: Array<{ level: number; item: any }> = [];
+  for (const entry of outlineEntries) {
+    const target = anchors.get(entry.anchor);
+    if (!target) continue;
+    while (parents.length > 0 && parents[parents.length - 1].level >= entry.level) parents.pop();
+    const item = doc.outline.add(parents.length > 0 ? parents[parents.length - 1].item : null, entry.title, { pageNumber: target.page });
+    parents.push({ level: entry.level, item });
+  }
+};
+
+/**
+ * 生成 PDF 文档
+ */
+export const generatePdfDocument = async (
+  markdownText: string,
+  options: Partial<WordExportOptions> = {}
+): Promise<Blob> => {
+  exportOptions = { ...DEFAULT_EXPORT_OPTIONS, ...options };
+  theme = getDocumentTheme(exportOptions.themeId);
+  pageLayout = resolvePageLayout(exportOptions);
+  anchors = new Map();
+  pendingLinks = [];
+  outlineEntries = [];
+  footnoteNumbers = new Map();
+  endnotes = [];
+  imageCache = new Map();
+  headingCounters = [];
+
+  let fontData: string;
+  try {
+    fontData = arrayBufferToBase64(await loadEmbeddedFont());
+  } catch (error) {
+    console.error('Failed to load PDF font:', error);
+    throw new PdfFontError('PDF 字体加载失败，请刷新页面后重试');
+  }
+  const [{ jsPDF }] = await Promise.all([import("jspdf"), import("svg2pdf.js")]);
+
+  const { tokens, footnotes, references } = prepareMarkdownTokens(markdownText, exportOptions.referenceCitations, exportOptions.repairs);
+  footnoteDefinitions = footnotes;
+  referenceNumbers = new Set(references.map(entry => entry.number));
+  assignHeadingAnchors(tokens);
+  const documentTitle = findDocumentTitle(tokens);
+  const headingDepths = tokens.filter(token => token.type === 'heading').map(token => token.depth);
+  headingStartLevel = documentTitle ? documentTitle.depth + 1 : (headingDepths.length > 0 ? Math.min(...headingDepths) : 1);
+  await preloadImages(tokens);
+
+  // 封面使用第一个一级标题，正文中不再重复
+  const firstH1 = tokens.find(token => token.type === 'heading' && token.depth === 1);
+  const coverTitle = exportOptions.coverPage ? firstH1 : undefined;
+  const fields: HeaderFooterFields = {
+    title: firstH1 ? getPlainText(firstH1).trim() : '',
+    date: exportOptions.coverDate.trim() || formatDocumentDate(new Date()),
+  };
+  const segments = splitByOrientation(
+    coverTitle ? tokens.filter(token => token !== coverTitle) : tokens,
+    exportOptions.orientation,
+    exportOptions.autoLandscapeTables
+  );
+
+  landscape = coverTitle ? exportOptions.orientation === 'landscape' : segments[0].landscape;
+  doc = new jsPDF({
+    unit: 'pt',
+    format: [twipsToPt(pageLayout.width), twipsToPt(pageLayout.height)],
+    orientation: landscape ? 'landscape' : 'portrait',
+    compress: true,
+  });
+  doc.addFileToVFS(`${PDF_FONT}.ttf`, fontData);
+  // 同一字体文件注册为各种字形，SVG 中的粗体、斜体文字也使用该字体
+  for (const fontStyle of ['normal', 'bold', 'italic', 'bolditalic']) {
+    doc.addFont(`${PDF_FONT}.ttf`, PDF_FONT, fontStyle);
+  }
+  doc.setFont(PDF_FONT, 'normal');
+  cursorY = contentTop();
+
+  if (coverTitle) {
+    await renderCoverPage(coverTitle, fields);
+    landscape = segments[0].landscape;
+    addPage();
+  }
+  const firstContentPage = currentPage();
+
+  // 目录：收录编号范围内的三级标题，有文档标题时放在标题之后
+  let tocEntries: TocEntry[] = [];
+  let tocSlots: Array<{ page: number; y: number }> = [];
+  const reserveToc = () => {
+    const maxLevel = Math.min(headingStartLevel + 2, 6);
+    tocEntries = tokens
+      .filter(token => token.type === 'heading' && token !== coverTitle && token.depth >= headingStartLevel && token.depth <= maxLevel)
+      .map(token => ({ level: token.depth, title: getPlainText(token).trim(), anchor: token.anchor }));
+    tocSlots = reserveTableOfContents(tocEntries, { x: contentLeft(), width: contentWidth() });
+  };
+
+  for (let index = 0; index < segments.length; index++) {
+    const segment = segments[index];
+    if (index > 0 || segment.landscape !== landscape) {
+      landscape = segment.landscape;
+      if (index > 0 || cursorY > contentTop()) addPage();
+    }
+    let segmentTokens = segment.tokens;
+    if (index === 0 && exportOptions.tableOfContents) {
+      if (documentTitle && documentTitle !== coverTitle && segmentTokens.includes(documentTitle)) {
+        const titleIndex = segmentTokens.indexOf(documentTitle);
+        await renderTokens(segmentTokens.slice(0, titleIndex + 1), { x: contentLeft(), width: contentWidth() });
+        segmentTokens = segmentTokens.slice(titleIndex + 1);
+      }
+      reserveToc();
+    }
+    await renderTokens(segmentTokens, { x: contentLeft(), width: contentWidth() });
+  }
+  await renderEndnotes({ x: contentLeft(), width: contentWidth() });
+
+  // 目录页码、文档内链接与书签需要在全部排版完成后才能确定
+  const totalPages = doc.getNumberOfPages();
+  if (tocEntries.length > 0) {
+    fillTableOfContents(tocEntries, tocSlots, { x: contentLeft(), width: contentWidth() }, firstContentPage);
+  }
+  for (const link of pendingLinks) {
+    const target = anchors.get(link.anchor);
+    if (!target) continue;
+    doc.setPage(link.page);
+    doc.link(link.x, link.y, link.width, link.height, { pageNumber: target.page, magFactor: 'XYZ', top: target.y, left: 0, zoom: 0 });
+  }
+  addOutline();
+
+  // 页眉页脚：封面不显示也不计页码，首页不同时正文第一页不显示
+  const { headerText, footerText, differentFirstPage } = exportOptions;
+  for (let page = firstContentPage; page <= totalPages; page++) {
+    const pageNumber = page - firstContentPage + 1;
+    if (differentFirstPage && pageNumber === 1) continue;
+    doc.setPage(page);
+    if (headerText.trim()) renderHeaderFooter(headerText, fields, pageNumber, totalPages - firstContentPage + 1, true);
+    if (footerText.trim()) renderHeaderFooter(footerText, fields, pageNumber, totalPages - firstContentPage + 1, false);
+  }
+
+  doc.setProperties({ title: fields.title || 'AI2Word', creator: 'AI2Word' });
+  return doc.output('blob');
+};
@@ -0,0 +1,59 @@
+/**
+ * PlantUML 图表：PlantUML 需要 Java 运行环境，无法在浏览器中渲染，
+ * 发送到导出设置中配置的 PlantUML 服务（如本地部署的 plantuml-server）生成 SVG
+ */
+
+import { SvgDiagram, parseSvgDiagram } from './svgImage';
+
+const FETCH_TIMEOUT = 15000;
+
+// PlantUML 文本编码使用的 base64 字母表
+const PLANTUML_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz-_';
+
+const encode64 = (bytes: Uint8Array): string => {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const b1 = bytes[i];
+    const b2 = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const b3 = i + 2 < bytes.length ? bytes[i + 2] : 0;
+    result += PLANTUML_ALPHABET[b1 >> 2]
+      + PLANTUML_ALPHABET[((b1 & 0x3) << 4) | (b2 >> 4)]
+      + PLANTUML_ALPHABET[((b2 & 0xf) << 2) | (b3 >> 6)]
+      + PLANTUML_ALPHABET[b3 & 0x3f];
+  }
+  return result;
+};
+
+/**
+ * PlantUML 服务 URL 中的图表编码：UTF-8 文本经 deflate 压缩后按 PlantUML 字母表做 base64 编码
+ */
+export const encodePlantUml = async (source: string): Promise<string> => {
+  const stream = new Blob([source]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return encode64(new Uint8Array(await new Response(stream).arrayBuffer()));
+};
+
+/**
+ * 通过 PlantUML 服务渲染图表；未配置服务、服务不可用或语法错误时抛出异常
+ * @param server PlantUML 服务地址，如 http://localhost:8080
+ */
+export const renderPlantUmlToSvg = async (code: string, server: string): Promise<SvgDiagram> => {
+  if (!server.trim()) throw new Error('未设置 PlantUML 服务地址');
+
+  // 代码块中常省略 @startuml / @enduml
+  const source = /^\s*@start\w+/.test(code) ? code : `@startuml\n${code}\n@enduml`;
+  const url = `${server.trim().replace(/\/+$/, '')}/svg/${await encodePlantUml(source)}`;
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    // 语法错误时服务返回 400 和一张错误图片，按渲染失败处理
+    if (!response.ok) throw new Error(`PlantUML 服务返回 HTTP ${response.status}`);
+
+    const diagram = parseSvgDiagram(await response.text());
+    if (!diagram) throw new Error('PlantUML 服务返回的 SVG 无效');
+    return diagram;
+  } finally {
+    clearTimeout(timer);
+  }
+};
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { renderPreviewHtml } from './previewRenderer';
+import { normalizeMarkdown } from './markdownPipeline';
+
+describe('renderPreviewHtml', () => {
+  it('keeps a python block whose code starts with a Mermaid keyword as a code block', () => {
+    const { markdown } = normalizeMarkdown('```python\ngraph = {}\nflowchart = []\n```');
+    const html = renderPreviewHtml(markdown);
+
+    expect(html).toContain('<pre><code class="language-python">');
+    expect(html).not.toContain('data-info');
+  });
+
+  it('marks fenced diagram blocks for the preview to render', () => {
+    const html = renderPreviewHtml('```mermaid width=80%\ngraph TD\n  A --> B\n```');
+
+    expect(html).toContain('<pre data-info="mermaid width=80%"><code class="language-mermaid">');
+  });
+});
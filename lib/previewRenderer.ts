@@ -0,0 +1,60 @@
+/**
+ * 预览 HTML：渲染规范化后的 Markdown（见 markdownPipeline），公式用 KaTeX 渲染，
+ * 图表代码块（Mermaid、Graphviz 等）保留为 <pre data-info="…"><code class="language-…">（data-info 为完整的信息字符串，含宽度），
+ * 由预览区渲染为图表
+ */
+
+import { marked } from 'marked';
+import { hasLatexFormula, processLatexInText } from './mathRenderer';
+import { highlightCodeToHtml } from './codeHighlighter';
+import { parseDiagramInfo } from './diagramRenderers';
+
+// 围栏代码块与行内代码：与导出一致，其中的 $、\( 等不作为公式处理
+const CODE_PATTERN = /^ {0,3}(`{3,}|~{3,}).*\n[\s\S]*?^ {0,3}\1[ \t]*$|`[^`\n]+`/gm;
+
+const escapeHtml = (text: string): string => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// marked 的 class 只取信息字符串的第一个词，宽度等参数记录在 <pre> 上
+const renderer = new marked.Renderer();
+const renderCode = renderer.code.bind(renderer);
+renderer.code = (code, infostring, escaped) => {
+  const html = renderCode(code, infostring, escaped);
+  if (!parseDiagramInfo(infostring)) return html;
+  return html.replace(/^<pre>/, `<pre data-info="${escapeHtml(infostring!.trim()).replace(/"/g, '&quot;')}">`);
+};
+
+/**
+ * 生成预览 HTML
+ * @param markdown 已规范化的 Markdown
+ */
+export const renderPreviewHtml = (markdown: string): string => {
+  if (!markdown.trim()) return '';
+
+  let processedText = markdown;
+  if (hasLatexFormula(processedText)) {
+    // 先用占位符保护代码，处理完公式后再恢复
+    const codeBlocks: string[] = [];
+    processedText = processedText.replace(CODE_PATTERN, (code) => {
+      codeBlocks.push(code);
+      return `[[CODE_BLOCK_${codeBlocks.length - 1}]]`;
+    });
+    processedText = processLatexInText(processedText)
+      .replace(/\[\[CODE_BLOCK_(\d+)\]\]/g, (_match, index) => codeBlocks[Number(index)]);
+  }
+
+  try {
+    return marked.parse(processedText, {
+      gfm: true,
+      breaks: true,
+      headerIds: true,
+      mangle: false,
+      renderer,
+      // 与 Word 导出使用同一套代码高亮（图表代码保持原样，稍后渲染为图表）
+      highlight: (code: string, lang: string) => parseDiagramInfo(lang) ? code : highlightCodeToHtml(code, lang)
+    }) as string;
+  } catch (error) {
+    console.error('[Preview] Error parsing markdown:', error);
+    // 如果解析失败，返回原始文本（编码后）
+    return escapeHtml(processedText);
+  }
+};
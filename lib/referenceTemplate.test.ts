@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { Document, HeadingLevel, Packer, Paragraph } from 'docx';
+import { applyReferenceTemplate } from './referenceTemplate';
+import { DEFAULT_PAGE_LAYOUT } from './pageSetup';
+
+const W_NAMESPACE = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+// 标题 1 样式关联多级编号 (numId 5 → abstractNum 3，"第%1章")
+const createTemplate = async (): Promise<ArrayBuffer> => {
+  const zip = new JSZip();
+  zip.file('word/document.xml',
+    `<w:document ${W_NAMESPACE}><w:body><w:p/><w:sectPr><w:pgSz w:w="11906" w:h="16838"/></w:sectPr></w:body></w:document>`);
+  zip.file('word/_rels/document.xml.rels',
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"></Relationships>');
+  zip.file('word/styles.xml',
+    `<w:styles ${W_NAMESPACE}>` +
+    '<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/>' +
+    '<w:pPr><w:numPr><w:numId w:val="5"/></w:numPr><w:outlineLvl w:val="0"/></w:pPr></w:style>' +
+    '</w:styles>');
+  zip.file('word/numbering.xml',
+    `<w:numbering ${W_NAMESPACE}>` +
+    '<w:abstractNum w:abstractNumId="3"><w:multiLevelType w:val="multilevel"/>' +
+    '<w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="chineseCounting"/><w:lvlText w:val="第%1章"/><w:pStyle w:val="Heading1"/></w:lvl>' +
+    '</w:abstractNum>' +
+    '<w:num w:numId="5"><w:abstractNumId w:val="3"/></w:num>' +
+    '</w:numbering>');
+  return zip.generateAsync({ type: 'arraybuffer' });
+};
+
+const createDocument = async (): Promise<Blob> => {
+  const doc = new Document({
+    sections: [{ children: [new Paragraph({ text: '标题', heading: HeadingLevel.HEADING_1 })] }],
+  });
+  return new Blob([await Packer.toBuffer(doc)]);
+};
+
+describe('applyReferenceTemplate', () => {
+  it('copies the numbering definitions referenced by template styles and remaps their ids', async () => {
+    const result = await applyReferenceTemplate(await createDocument(), {
+      name: 'template.docx',
+      data: await createTemplate(),
+      page: DEFAULT_PAGE_LAYOUT,
+    });
+    const zip = await JSZip.loadAsync(await result.arrayBuffer());
+    const styles = await zip.file('word/styles.xml')!.async('string');
+    const numbering = await zip.file('word/numbering.xml')!.async('string');
+
+    const heading = styles.match(/<w:style\b[^>]*w:styleId="Heading1"[\s\S]*?<\/w:style>/)![0];
+    const numId = heading.match(/<w:numId w:val="(\d+)"/)![1];
+    const num = numbering.match(new RegExp(`<w:num w:numId="${numId}">[\\s\\S]*?</w:num>`))![0];
+    const abstractNumId = num.match(/<w:abstractNumId w:val="(\d+)"/)![1];
+    const abstractNum = numbering.match(new RegExp(`<w:abstractNum w:abstractNumId="${abstractNumId}"[\\s\\S]*?</w:abstractNum>`))![0];
+
+    expect(abstractNum).toContain('<w:lvlText w:val="第%1章"/>');
+    expect(abstractNum).not.toContain('●');
+    // abstractNum 须位于所有 num 之前
+    expect(numbering.lastIndexOf('<w:abstractNum ')).toBeLessThan(numbering.search(/<w:num\b/));
+  });
+});
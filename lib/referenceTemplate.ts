@@ -0,0 +1,386 @@
+/**
+ * 参考模板（类似 pandoc --reference-doc）：
+ * 导入时读取上传 .docx 的页面设置，导出时把模板的样式定义、主题字体、
+ * 节属性（纸张、边距）以及页眉页脚（含 Logo 图片）合并到生成的文档中
+ */
+
+import JSZip from 'jszip';
+import { PageLayout, ReferenceTemplate } from '../types';
+import { DEFAULT_PAGE_LAYOUT } from './pageSetup';
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const RELATIONSHIP_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const PART_CONTENT_TYPES: { [type: string]: string } = {
+  header: 'application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml',
+  footer: 'application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml',
+  theme: 'application/vnd.openxmlformats-officedocument.theme+xml',
+};
+
+const MEDIA_CONTENT_TYPES: { [extension: string]: string } = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  svg: 'image/svg+xml',
+  emf: 'image/x-emf',
+  wmf: 'image/x-wmf',
+};
+
+// 复制到输出文档中的部件统一加前缀，避免与生成器产生的文件重名
+const TEMPLATE_PREFIX = 'template-';
+
+interface Relationship {
+  id: string;
+  type: string;
+  target: string;
+  external: boolean;
+}
+
+const readAttribute = (tag: string, name: string): string | null => {
+  const match = tag.match(new RegExp(`\\b${name}="([^"]*)"`));
+  return match ? match[1] : null;
+};
+
+const parseRelationships = (xml: string): Relationship[] =>
+  (xml.match(/<Relationship\b[^>]*>/g) || []).map(tag => ({
+    id: readAttribute(tag, 'Id') || '',
+    type: readAttribute(tag, 'Type') || '',
+    target: readAttribute(tag, 'Target') || '',
+    external: readAttribute(tag, 'TargetMode') === 'External',
+  }));
+
+const createRelationshipTag = (relationship: Relationship): string =>
+  `<Relationship Id="${relationship.id}" Type="${relationship.type}" Target="${relationship.target}"` +
+  `${relationship.external ? ' TargetMode="External"' : ''}/>`;
+
+const appendBeforeClosingTag = (xml: string, closingTag: string, content: string): string => {
+  const index = xml.lastIndexOf(closingTag);
+  return index === -1 ? xml : xml.slice(0, index) + content + xml.slice(index);
+};
+
+// 文档中最后一个 <w:sectPr> 属于 <w:body>，即整篇文档（或最后一节）的页面设置
+const findBodySectionProperties = (documentXml: string): string | null => {
+  const matches = documentXml.match(/<w:sectPr\b[\s\S]*?<\/w:sectPr>/g);
+  return matches ? matches[matches.length - 1] : null;
+};
+
+const HEADER_FOOTER_REFERENCES = /<w:(?:header|footer)Reference\b[^>]*\/>/g;
+
+// <w:sectPr> 子元素须按架构顺序排列
+const SECTION_ELEMENT_ORDER = [
+  'headerReference', 'footerReference', 'footnotePr', 'endnotePr', 'type', 'pgSz', 'pgMar', 'paperSrc',
+  'pgBorders', 'lnNumType', 'pgNumType', 'cols', 'formProt', 'vAlign', 'noEndnote', 'titlePg',
+  'textDirection', 'bidi', 'rtlGutter', 'docGrid', 'printerSettings', 'sectPrChange',
+];
+
+const sectionElementPattern = (name: string) => new RegExp(`<w:${name}\\b[^>]*?(?:/>|>[\\s\\S]*?</w:${name}>)`);
+
+const findSectionElement = (sectionProperties: string, name: string): string | null =>
+  sectionProperties.match(sectionElementPattern(name))?.[0] ?? null;
+
+// 替换、删除 (element 为 null) 或按顺序插入节属性中的子元素
+const replaceSectionElement = (sectionProperties: string, name: string, element: string | null): string => {
+  const pattern = sectionElementPattern(name);
+  if (pattern.test(sectionProperties)) return sectionProperties.replace(pattern, () => element ?? '');
+  if (!element) return sectionProperties;
+
+  const later = SECTION_ELEMENT_ORDER.slice(SECTION_ELEMENT_ORDER.indexOf(name) + 1);
+  const next = sectionProperties.match(new RegExp(`<w:(?:${later.join('|')})\\b`));
+  return next
+    ? sectionProperties.replace(next[0], () => element + next[0])
+    : sectionProperties.replace('</w:sectPr>', () => element + '</w:sectPr>');
+};
+
+const readTwips = (xml: string, element: string, attribute: string): number | null => {
+  const tag = xml.match(new RegExp(`<w:${element}\\b[^>]*>`));
+  const value = tag ? readAttribute(tag[0], `w:${attribute}`) : null;
+  return value !== null && /^-?\d+$/.test(value) ? Math.abs(parseInt(value, 10)) : null;
+};
+
+const parsePageLayout = (sectionProperties: string | null): PageLayout => {
+  if (!sectionProperties) return DEFAULT_PAGE_LAYOUT;
+  const { width, height, margin } = DEFAULT_PAGE_LAYOUT;
+  return {
+    width: readTwips(sectionProperties, 'pgSz', 'w') ?? width,
+    height: readTwips(sectionProperties, 'pgSz', 'h') ?? height,
+    margin: {
+      top: readTwips(sectionProperties, 'pgMar', 'top') ?? margin.top,
+      right: readTwips(sectionProperties, 'pgMar', 'right') ?? margin.right,
+      bottom: readTwips(sectionProperties, 'pgMar', 'bottom') ?? margin.bottom,
+      left: readTwips(sectionProperties, 'pgMar', 'left') ?? margin.left,
+    },
+  };
+};
+
+/**
+ * 读取上传的参考模板
+ * @throws 文件不是有效的 Word 文档时抛出带中文提示的错误
+ */
+export const loadReferenceTemplate = async (file: File): Promise<ReferenceTemplate> => {
+  const data = await file.arrayBuffer();
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new Error('无法读取模板文件，请上传 .docx 格式的 Word 文档');
+  }
+
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+  if (!documentXml || !zip.file('word/styles.xml')) {
+    throw new Error('模板文件缺少正文或样式定义，请确认是 Word 保存的 .docx 文档');
+  }
+
+  return {
+    name: file.name,
+    data,
+    page: parsePageLayout(findBodySectionProperties(documentXml)),
+  };
+};
+
+class TemplateMerger {
+  private relationshipCount = 0;
+
+  constructor(private output: JSZip, private source: JSZip) { }
+
+  private async read(zip: JSZip, path: string): Promise<string | null> {
+    return (await zip.file(path)?.async('string')) ?? null;
+  }
+
+  private async updateOutput(path: string, update: (xml: string) => string): Promise<void> {
+    const xml = await this.read(this.output, path);
+    if (xml !== null) this.output.file(path, update(xml));
+  }
+
+  private addContentType(entry: string): Promise<void> {
+    return this.updateOutput('[Content_Types].xml', xml => appendBeforeClosingTag(xml, '</Types>', entry));
+  }
+
+  // 在输出文档的 document.xml.rels 中登记一个新关系，返回关系 Id
+  private async addDocumentRelationship(type: string, target: string): Promise<string> {
+    const id = `rIdTemplate${++this.relationshipCount}`;
+    await this.updateOutput('word/_rels/document.xml.rels', xml =>
+      appendBeforeClosingTag(xml, '</Relationships>', createRelationshipTag({ id, type, target, external: false })));
+    return id;
+  }
+
+  /**
+   * 复制模板样式关联的多级列表编号（如标题编号）：把用到的 <w:abstractNum>、<w:num> 追加到生成的 numbering.xml，
+   * 并改用不与生成器冲突的编号 Id；返回改写了编号 Id 的模板样式表。模板中找不到定义的编号引用直接去掉，
+   * 否则会指向生成文档中的列表（numId 1 为项目符号列表）
+   */
+  private async mergeNumbering(templateStyles: string): Promise<string> {
+    const referenced = new Set(Array.from(templateStyles.matchAll(/<w:numId\b[^>]*\bw:val="(\d+)"/g), m => m[1]));
+    referenced.delete('0');
+    if (referenced.size === 0) return templateStyles;
+
+    const templateNumbering = await this.read(this.source, 'word/numbering.xml') || '';
+    const outputNumbering = await this.read(this.output, 'word/numbering.xml');
+    const maxId = (pattern: RegExp) =>
+      Math.max(0, ...Array.from((outputNumbering || '').matchAll(pattern), m => parseInt(m[1], 10)));
+    let nextAbstractId = maxId(/<w:abstractNum\b[^>]*\bw:abstractNumId="(\d+)"/g);
+    let nextNumId = maxId(/<w:num\b[^>]*\bw:numId="(\d+)"/g);
+
+    const abstractIds = new Map<string, string>();
+    const numIds = new Map<string, string>();
+    const abstractNums: string[] = [];
+    const nums: string[] = [];
+    for (const id of referenced) {
+      const num = templateNumbering.match(new RegExp(`<w:num\\b[^>]*\\bw:numId="${id}"[^>]*>[\\s\\S]*?</w:num>`))?.[0];
+      const abstractId = num ? readAttribute(num.match(/<w:abstractNumId\b[^>]*>/)?.[0] || '', 'w:val') : null;
+      const abstractNum = abstractId === null ? undefined : templateNumbering.match(
+        new RegExp(`<w:abstractNum\\b[^>]*\\bw:abstractNumId="${abstractId}"[^>]*>[\\s\\S]*?</w:abstractNum>`))?.[0];
+      if (outputNumbering === null || !num || abstractId === null || !abstractNum) continue;
+
+      if (!abstractIds.has(abstractId)) {
+        const newAbstractId = String(++nextAbstractId);
+        abstractIds.set(abstractId, newAbstractId);
+        // 图片项目符号 (numPicBullet) 没有复制，改用 lvlText 中的字符
+        abstractNums.push(abstractNum
+          .replace(/(<w:abstractNum\b[^>]*\bw:abstractNumId=")\d+"/, `$1${newAbstractId}"`)
+          .replace(/<w:lvlPicBulletId\b[^>]*\/>/g, ''));
+      }
+      const newNumId = String(++nextNumId);
+      numIds.set(id, newNumId);
+      nums.push(num
+        .replace(/(<w:num\b[^>]*\bw:numId=")\d+"/, `$1${newNumId}"`)
+        .replace(/(<w:abstractNumId\b[^>]*\bw:val=")\d+"/, `$1${abstractIds.get(abstractId)}"`));
+    }
+
+    if (outputNumbering !== null && nums.length > 0) {
+      // 所有 <w:abstractNum> 须位于 <w:num> 之前
+      const firstNum = outputNumbering.search(/<w:num\b/);
+      const withAbstractNums = firstNum === -1
+        ? appendBeforeClosingTag(outputNumbering, '</w:numbering>', abstractNums.join(''))
+        : outputNumbering.slice(0, firstNum) + abstractNums.join('') + outputNumbering.slice(firstNum);
+      this.output.file('word/numbering.xml', appendBeforeClosingTag(withAbstractNums, '</w:numbering>', nums.join('')));
+    }
+
+    return templateStyles.replace(/<w:numPr\b[^>]*>[\s\S]*?<\/w:numPr>/g, numPr => {
+      const id = numPr.match(/<w:numId\b[^>]*\bw:val="(\d+)"/)?.[1];
+      if (!id || id === '0') return numPr;
+      const newId = numIds.get(id);
+      return newId ? numPr.replace(/(<w:numId\b[^>]*\bw:val=")\d+"/, `$1${newId}"`) : '';
+    });
+  }
+
+  /**
+   * 以模板的样式表为准，补充生成器依赖但模板中没有的样式（脚注引用、超链接等）
+   */
+  async mergeStyles(): Promise<void> {
+    const sourceStyles = await this.read(this.source, 'word/styles.xml');
+    const generatedStyles = await this.read(this.output, 'word/styles.xml');
+    if (!sourceStyles || !generatedStyles) return;
+    const templateStyles = await this.mergeNumbering(sourceStyles);
+
+    const styleIds = (xml: string) => new Set(Array.from(xml.matchAll(/<w:style\b[^>]*\bw:styleId="([^"]+)"/g), m => m[1]));
+    const existing = styleIds(templateStyles);
+    const missing = (generatedStyles.match(/<w:style\b[^>]*>[\s\S]*?<\/w:style>/g) || [])
+      .filter(style => {
+        const id = readAttribute(style, 'w:styleId');
+        return id !== null && !existing.has(id);
+      });
+
+    this.output.file('word/styles.xml', appendBeforeClosingTag(templateStyles, '</w:styles>', missing.join('')));
+  }
+
+  /**
+   * 复制主题部件：模板样式中的 "+正文"/"+标题" 字体（minorHAnsi 等）由主题定义
+   */
+  async copyTheme(): Promise<void> {
+    const sourceRels = parseRelationships(await this.read(this.source, 'word/_rels/document.xml.rels') || '');
+    const themeRel = sourceRels.find(rel => rel.type === `${RELATIONSHIP_TYPE}/theme`);
+    const themeXml = themeRel ? await this.read(this.source, `word/${themeRel.target}`) : null;
+    if (!themeRel || !themeXml || this.output.file(/^word\/theme\//).length > 0) return;
+
+    this.output.file('word/theme/theme1.xml', themeXml);
+    await this.addDocumentRelationship(themeRel.type, 'theme/theme1.xml');
+    await this.addContentType(`<Override PartName="/word/theme/theme1.xml" ContentType="${PART_CONTENT_TYPES.theme}"/>`);
+  }
+
+  // 复制页眉/页脚引用的图片等内部资源，返回改写后的关系文件
+  private async copyPartResources(relsXml: string): Promise<string> {
+    const relationships = parseRelationships(relsXml);
+    const knownExtensions = new Set<string>();
+    const contentTypes = await this.read(this.output, '[Content_Types].xml') || '';
+    for (const match of contentTypes.matchAll(/Extension="([^"]+)"/g)) knownExtensions.add(match[1].toLowerCase());
+
+    for (const relationship of relationships) {
+      if (relationship.external) continue;
+      const sourcePath = `word/${relationship.target.replace(/^\.?\//, '')}`;
+      const file = this.source.file(sourcePath);
+      if (!file) continue;
+
+      const fileName = sourcePath.split('/').pop()!;
+      const targetDir = sourcePath.split('/').slice(1, -1).join('/');
+      relationship.target = `${targetDir ? `${targetDir}/` : ''}${TEMPLATE_PREFIX}${fileName}`;
+      this.output.file(`word/${relationship.target}`, await file.async('uint8array'));
+
+      const extension = fileName.split('.').pop()!.toLowerCase();
+      if (!knownExtensions.has(extension) && MEDIA_CONTENT_TYPES[extension]) {
+        knownExtensions.add(extension);
+        await this.addContentType(`<Default Extension="${extension}" ContentType="${MEDIA_CONTENT_TYPES[extension]}"/>`);
+      }
+    }
+
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+      `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+      relationships.map(createRelationshipTag).join('') +
+      `</Relationships>`;
+  }
+
+  // 复制模板节属性引用的页眉页脚，返回改写了关系 Id 的节属性
+  private async copyHeadersAndFooters(sectionProperties: string): Promise<string> {
+    const sourceRels = parseRelationships(await this.read(this.source, 'word/_rels/document.xml.rels') || '');
+    const references = Array.from(sectionProperties.matchAll(/<w:(header|footer)Reference\b[^>]*\br:id="([^"]+)"[^>]*\/>/g));
+
+    for (const [tag, kind, id] of references) {
+      const relationship = sourceRels.find(rel => rel.id === id);
+      const partXml = relationship ? await this.read(this.source, `word/${relationship.target}`) : null;
+      if (!relationship || partXml === null) {
+        // 找不到对应部件的引用会导致 Word 报错，直接去掉
+        sectionProperties = sectionProperties.replace(tag, '');
+        continue;
+      }
+
+      const partName = `${TEMPLATE_PREFIX}${relationship.target.split('/').pop()}`;
+      this.output.file(`word/${partName}`, partXml);
+      const partRels = await this.read(this.source, `word/_rels/${relationship.target.split('/').pop()}.rels`);
+      if (partRels) {
+        this.output.file(`word/_rels/${partName}.rels`, await this.copyPartResources(partRels));
+      }
+
+      const newId = await this.addDocumentRelationship(relationship.type, partName);
+      await this.addContentType(`<Override PartName="/word/${partName}" ContentType="${PART_CONTENT_TYPES[kind]}"/>`);
+      sectionProperties = sectionProperties.replace(tag, tag.replace(`r:id="${id}"`, `r:id="${newId}"`));
+    }
+
+    // 奇偶页不同的页眉页脚由 settings.xml 中的开关控制
+    const sourceSettings = await this.read(this.source, 'word/settings.xml');
+    if (sourceSettings && /<w:evenAndOddHeaders\b(?![^>]*w:val="(?:false|0)")/.test(sourceSettings)) {
+      await this.updateOutput('word/settings.xml', xml => xml.includes('<w:evenAndOddHeaders')
+        ? xml
+        : xml.replace(/(<w:settings\b[^>]*>)/, '$1<w:evenAndOddHeaders/>'));
+    }
+    return sectionProperties;
+  }
+
+  /**
+   * 用模板的节属性（纸张、边距等）替换生成文档正文节的节属性，纸张方向沿用生成的设置；
+   * 导出设置中配置了页眉页脚时沿用生成的页眉页脚、页码格式与首页设置，否则复制模板的页眉页脚
+   */
+  async copySectionProperties(): Promise<void> {
+    const sourceDocument = await this.read(this.source, 'word/document.xml');
+    let outputDocument = await this.read(this.output, 'word/document.xml');
+    let sectionProperties = sourceDocument ? findBodySectionProperties(sourceDocument) : null;
+    const generated = outputDocument ? findBodySectionProperties(outputDocument) : null;
+    if (!outputDocument || !sectionProperties || !generated) return;
+
+    // 横向节的纸张宽高与方向由生成器决定，尺寸本身已按模板设置
+    sectionProperties = replaceSectionElement(sectionProperties, 'pgSz', findSectionElement(generated, 'pgSz'));
+
+    // 文档分为多节（封面、横向页面）时，页眉页脚设置在第一个正文节（页码从 1 开始）上
+    const hasGeneratedHeaders = /<w:(?:header|footer)Reference\b/.test(outputDocument);
+    if (hasGeneratedHeaders) {
+      sectionProperties = sectionProperties.replace(HEADER_FOOTER_REFERENCES, '');
+      const generatedReferences = generated.match(HEADER_FOOTER_REFERENCES) || [];
+      sectionProperties = sectionProperties.replace(/(<w:sectPr\b[^>]*>)/, (openTag) => openTag + generatedReferences.join(''));
+      for (const name of ['pgNumType', 'titlePg']) {
+        sectionProperties = replaceSectionElement(sectionProperties, name, findSectionElement(generated, name));
+      }
+    } else {
+      sectionProperties = await this.copyHeadersAndFooters(sectionProperties);
+      const templateReferences = sectionProperties.match(HEADER_FOOTER_REFERENCES) || [];
+      const firstContentSection = outputDocument.match(/<w:sectPr\b[^>]*>(?:(?!<\/w:sectPr>)[\s\S])*?<w:pgNumType\b[^>]*\bw:start="1"[\s\S]*?<\/w:sectPr>/)?.[0];
+      if (templateReferences.length > 0 && firstContentSection && firstContentSection !== generated) {
+        outputDocument = outputDocument.replace(firstContentSection, () =>
+          firstContentSection.replace(/(<w:sectPr\b[^>]*>)/, (openTag) => openTag + templateReferences.join('')));
+      }
+    }
+
+    const result = sectionProperties;
+    const bodyIndex = outputDocument.lastIndexOf(generated);
+    this.output.file('word/document.xml', outputDocument.slice(0, bodyIndex) + result + outputDocument.slice(bodyIndex + generated.length));
+  }
+}
+
+/**
+ * 将参考模板合并到生成的文档中
+ */
+export const applyReferenceTemplate = async (docx: Blob, template: ReferenceTemplate): Promise<Blob> => {
+  const [output, source] = await Promise.all([
+    JSZip.loadAsync(await docx.arrayBuffer()),
+    JSZip.loadAsync(template.data),
+  ]);
+
+  const merger = new TemplateMerger(output, source);
+  await merger.mergeStyles();
+  await merger.copyTheme();
+  await merger.copySectionProperties();
+
+  return await output.generateAsync({ type: 'blob', mimeType: DOCX_MIME_TYPE });
+};
@@ -0,0 +1,219 @@
+/**
+ * 图表与公式图片的嵌入：SVG 矢量图及其 PNG 备用图，或只有 PNG 位图（按导出设置的格式与倍率）
+ */
+
+import type { Font } from 'opentype.js';
+import { DiagramImageFormat, ImageScale } from '../types';
+
+export interface EmbeddedImage {
+  // 为 png 格式时为 null
+  svg: Uint8Array | null;
+  png: Uint8Array;
+  // 1 倍时的像素尺寸
+  width: number;
+  height: number;
+}
+
+export interface EmbeddedImageOptions {
+  format: DiagramImageFormat;
+  scale: ImageScale;
+}
+
+// 渲染好的图表：SVG 元素及其像素尺寸
+export interface SvgDiagram {
+  svg: SVGSVGElement;
+  width: number;
+  height: number;
+}
+
+// 画布像素上限，过大的图降低倍率，避免浏览器内存不足
+const MAX_CANVAS_PIXELS = 20000000;
+
+export const serializeSvg = (svg: SVGSVGElement): string =>
+  `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(svg)}`;
+
+/**
+ * 读取 SVG 的像素尺寸：优先使用 viewBox，否则使用 width、height 属性
+ * @param unitScale viewBox 单位与像素之比（Graphviz 的单位为 pt）
+ */
+export const toSvgDiagram = (svg: SVGSVGElement, unitScale = 1): SvgDiagram | null => {
+  if (svg.tagName.toLowerCase() !== 'svg') return null;
+  const viewBox = svg.getAttribute('viewBox')?.split(/[\s,]+/).map(Number);
+  const hasViewBox = !!viewBox && viewBox.length === 4 && !viewBox.some(isNaN);
+  const [width, height] = hasViewBox
+    ? [viewBox![2], viewBox![3]]
+    : [parseFloat(svg.getAttribute('width') || ''), parseFloat(svg.getAttribute('height') || '')];
+  if (!(width > 0) || !(height > 0)) return null;
+  // 缩放显示需要 viewBox
+  if (!hasViewBox) svg.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  return { svg, width: width * unitScale, height: height * unitScale };
+};
+
+export const parseSvgDiagram = (svgText: string, unitScale = 1): SvgDiagram | null =>
+  toSvgDiagram(new DOMParser().parseFromString(svgText, 'image/svg+xml').documentElement as unknown as SVGSVGElement, unitScale);
+
+// 独立的 SVG 文件需要命名空间和明确的尺寸（Mermaid 输出的宽度为 100%）
+const createSizedSvg = (svg: SVGSVGElement, width: number, height: number): string => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  clone.style.removeProperty('max-width');
+  return serializeSvg(clone);
+};
+
+// Word、LibreOffice 只支持有限的 CSS：把 <style> 中的样式（如 Mermaid 的主题样式）计算后写成各元素的属性
+const INLINED_PROPERTIES = [
+  'fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-dasharray', 'opacity',
+  'font-family', 'font-size', 'font-weight', 'font-style', 'text-anchor',
+];
+
+// 计算样式和文字排版需要把 SVG 临时挂到文档中
+const withAttachedSvg = (svg: SVGSVGElement, action: () => void): void => {
+  const container = document.createElement('div');
+  container.style.position = 'absolute';
+  container.style.left = '-9999px';
+  container.style.top = '-9999px';
+  container.appendChild(svg);
+  document.body.appendChild(container);
+
+  try {
+    action();
+  } finally {
+    container.remove();
+  }
+};
+
+export const inlineSvgStyles = (svg: SVGSVGElement): void => withAttachedSvg(svg, () => {
+  svg.querySelectorAll('path, rect, circle, ellipse, line, polyline, polygon, text, tspan').forEach(element => {
+    const computed = getComputedStyle(element);
+    INLINED_PROPERTIES.forEach(property => {
+      const value = computed.getPropertyValue(property);
+      if (value) element.setAttribute(property, value);
+    });
+  });
+  svg.querySelectorAll('style').forEach(style => style.remove());
+});
+
+// 文字转为路径后保留的属性
+const OUTLINE_ATTRIBUTES = ['transform', 'clip-path', 'mask', 'opacity'];
+
+// 浏览器按 whiteSpace 合并空白后的文字，与 getExtentOfChar 的字符序号一一对应；无法对应时返回 null
+const addressableText = (text: SVGTextContentElement): string | null => {
+  const raw = text.textContent || '';
+  const collapsed = raw.replace(/[\t\r\n ]+/g, ' ');
+  const count = text.getNumberOfChars();
+  return [raw, collapsed, collapsed.trim(), collapsed.trimStart()].find(candidate => candidate.length === count) ?? null;
+};
+
+/**
+ * 把 SVG 中的文字转为 font 的字形轮廓，打开文档的电脑没有相应字体时也能显示
+ * SVG 须已按 font 排版（font-family 为 font 注册的网页字体），字形位置取自浏览器的排版结果；
+ * 一个 <text> 转为一个 <path>，颜色取自 <text>（<tspan> 的颜色不保留）
+ */
+export const outlineSvgText = (svg: SVGSVGElement, font: Font): void => withAttachedSvg(svg, () => {
+  // 字符框的高度为字体的上下高度之和，基线位于其中
+  const lineHeight = (font.ascender - font.descender) / font.unitsPerEm;
+  const ascentRatio = font.ascender / (font.ascender - font.descender);
+
+  svg.querySelectorAll('text').forEach(text => {
+    const content = addressableText(text);
+    if (content === null) return;
+
+    let pathData = '';
+    for (let index = 0; index < content.length; index++) {
+      const codePoint = content.codePointAt(index)!;
+      const character = String.fromCodePoint(codePoint);
+      if (!/\s/.test(character)) {
+        const extent = text.getExtentOfChar(index);
+        const size = extent.height / lineHeight;
+        const baseline = extent.y + extent.height * ascentRatio;
+        if (size > 0) pathData += font.charToGlyph(character).getPath(extent.x, baseline, size).toPathData(2);
+      }
+      if (codePoint > 0xffff) index++;
+    }
+
+    const computed = getComputedStyle(text);
+    const path = document.createElementNS('http://www.w3.org/2000/svg', 'path');
+    path.setAttribute('d', pathData);
+    OUTLINE_ATTRIBUTES.forEach(name => {
+      const value = text.getAttribute(name);
+      if (value) path.setAttribute(name, value);
+    });
+    ['fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-opacity'].forEach(property => {
+      const value = computed.getPropertyValue(property);
+      if (value) path.setAttribute(property, value);
+    });
+    // 字体没有粗体字形，与 PDF 导出一样用描边模拟加粗
+    const weight = parseInt(computed.fontWeight, 10);
+    if ((weight >= 600 || computed.fontWeight === 'bold') && computed.stroke === 'none') {
+      path.setAttribute('stroke', computed.fill);
+      path.setAttribute('stroke-width', String(parseFloat(computed.fontSize) * 0.03));
+    }
+    text.replaceWith(path);
+  });
+});
+
+const loadSvgImage = (svgText: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(new Blob([svgText], { type: 'image/svg+xml' }));
+  const image = new Image();
+  image.onload = () => {
+    URL.revokeObjectURL(url);
+    resolve(image);
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('SVG 图片加载失败'));
+  };
+  image.src = url;
+});
+
+/**
+ * 把 SVG 按倍率栅格化为白底 PNG
+ */
+export const rasterizeSvg = async (svg: SVGSVGElement, width: number, height: number, scale: ImageScale): Promise<Uint8Array | null> => {
+  const pixelScale = Math.min(scale, Math.sqrt(MAX_CANVAS_PIXELS / (width * height)));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * pixelScale));
+  canvas.height = Math.max(1, Math.round(height * pixelScale));
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+
+  try {
+    const image = await loadSvgImage(createSizedSvg(svg, width, height));
+    context.fillStyle = '#FFFFFF';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    return blob ? new Uint8Array(await blob.arrayBuffer()) : null;
+  } catch (error) {
+    console.error('[SvgImage] Failed to rasterize SVG:', error);
+    return null;
+  } finally {
+    // 释放画布内存
+    canvas.width = 0;
+    canvas.height = 0;
+  }
+};
+
+/**
+ * 生成嵌入文档的图片：svg 格式同时生成 PNG 备用图
+ * @param width 显示宽度（像素）
+ * @param height 显示高度（像素）
+ */
+export const createEmbeddedImage = async (
+  svg: SVGSVGElement,
+  width: number,
+  height: number,
+  options: EmbeddedImageOptions
+): Promise<EmbeddedImage | null> => {
+  const png = await rasterizeSvg(svg, width, height, options.scale);
+  if (!png) return null;
+
+  return {
+    svg: options.format === 'svg' ? new TextEncoder().encode(createSizedSvg(svg, width, height)) : null,
+    png,
+    width,
+    height,
+  };
+};
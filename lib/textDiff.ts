@@ -0,0 +1,86 @@
+/**
+ * 按行比较两个版本的文本，用于草稿快照的差异对比
+ */
+
+export type DiffLineType = 'equal' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+// LCS 表的最大单元数，超过后中间部分按整体替换处理，避免长文档卡死页面
+const MAX_LCS_CELLS = 4_000_000;
+
+const diffMiddle = (oldLines: string[], newLines: string[]): DiffLine[] => {
+  const n = oldLines.length;
+  const m = newLines.length;
+  if (n * m > MAX_LCS_CELLS) {
+    return [
+      ...oldLines.map(text => ({ type: 'removed' as const, text })),
+      ...newLines.map(text => ({ type: 'added' as const, text })),
+    ];
+  }
+
+  // lengths[i][j]：oldLines[i..] 与 newLines[j..] 的最长公共子序列长度
+  const lengths = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i][j] = oldLines[i] === newLines[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: 'equal', text: oldLines[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      result.push({ type: 'removed', text: oldLines[i++] });
+    } else {
+      result.push({ type: 'added', text: newLines[j++] });
+    }
+  }
+  while (i < n) result.push({ type: 'removed', text: oldLines[i++] });
+  while (j < m) result.push({ type: 'added', text: newLines[j++] });
+  return result;
+};
+
+/**
+ * 逐行比较旧版本与新版本，先去掉相同的首尾再对中间部分求 LCS
+ */
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const oldLines = oldText.split('\n');
+  const newLines = newText.split('\n');
+
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix
+    && suffix < newLines.length - prefix
+    && oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) suffix++;
+
+  const toEqual = (text: string): DiffLine => ({ type: 'equal', text });
+  return [
+    ...oldLines.slice(0, prefix).map(toEqual),
+    ...diffMiddle(oldLines.slice(prefix, oldLines.length - suffix), newLines.slice(prefix, newLines.length - suffix)),
+    ...oldLines.slice(oldLines.length - suffix).map(toEqual),
+  ];
+};
+
+export const getDiffStats = (lines: DiffLine[]): DiffStats => ({
+  added: lines.filter(line => line.type === 'added').length,
+  removed: lines.filter(line => line.type === 'removed').length,
+});
@@ -31,7 +31,101 @@ CREATE POLICY "Users can view their own conversions" ON public.conversions
 CREATE POLICY "Users can insert their own conversions" ON public.conversions
   FOR INSERT WITH CHECK (auth.uid() = user_id);
 
--- 3. Auto-create Profile on Signup
+-- Full markdown source and the path of the generated .docx in the documents bucket
+ALTER TABLE public.conversions ADD COLUMN IF NOT EXISTS markdown TEXT;
+ALTER TABLE public.conversions ADD COLUMN IF NOT EXISTS storage_path TEXT;
+
+DROP POLICY IF EXISTS "Users can update their own conversions" ON public.conversions;
+CREATE POLICY "Users can update their own conversions" ON public.conversions
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own conversions" ON public.conversions;
+CREATE POLICY "Users can delete their own conversions" ON public.conversions
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Tags and search: English words go through the tsvector index, Chinese (no word segmentation
+-- in the "simple" config) falls back to trigram-indexed ILIKE on title and search_text.
+-- Both use the full markdown; rows saved before the markdown column existed keep markdown NULL
+-- (they cannot be reopened) and are searched by their 500-character content preview
+ALTER TABLE public.conversions ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+-- Earlier versions of this script generated search_vector from content only; ADD COLUMN IF NOT EXISTS
+-- keeps an existing definition, so drop the old column (and its index) before adding it again
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'conversions' AND column_name = 'search_vector'
+      AND generation_expression NOT LIKE '%markdown%'
+  ) THEN
+    ALTER TABLE public.conversions DROP COLUMN search_vector;
+  END IF;
+END $$;
+ALTER TABLE public.conversions ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(markdown, content, '')), 'B')
+  ) STORED;
+ALTER TABLE public.conversions ADD COLUMN IF NOT EXISTS search_text TEXT
+  GENERATED ALWAYS AS (coalesce(markdown, content, '')) STORED;
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS conversions_user_created_idx ON public.conversions (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS conversions_search_idx ON public.conversions USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS conversions_tags_idx ON public.conversions USING GIN (tags);
+CREATE INDEX IF NOT EXISTS conversions_title_trgm_idx ON public.conversions USING GIN (title gin_trgm_ops);
+-- Replaced by the index on search_text
+DROP INDEX IF EXISTS public.conversions_content_trgm_idx;
+CREATE INDEX IF NOT EXISTS conversions_search_text_trgm_idx ON public.conversions USING GIN (search_text gin_trgm_ops);
+
+-- Format of the generated file ('docx', 'pdf', 'html', 'odt' or 'markdown' for the zipped
+-- markdown bundle); older rows are all Word documents
+ALTER TABLE public.conversions ADD COLUMN IF NOT EXISTS format TEXT NOT NULL DEFAULT 'docx';
+
+-- 3. Storage Bucket for generated documents (private, files stored under {user_id}/)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('documents', 'documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Users can read their own documents" ON storage.objects;
+CREATE POLICY "Users can read their own documents" ON storage.objects
+  FOR SELECT USING (bucket_id = 'documents' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users can upload their own documents" ON storage.objects;
+CREATE POLICY "Users can upload their own documents" ON storage.objects
+  FOR INSERT WITH CHECK (bucket_id = 'documents' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users can update their own documents" ON storage.objects;
+CREATE POLICY "Users can update their own documents" ON storage.objects
+  FOR UPDATE USING (bucket_id = 'documents' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users can delete their own documents" ON storage.objects;
+CREATE POLICY "Users can delete their own documents" ON storage.objects
+  FOR DELETE USING (bucket_id = 'documents' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- 4. Drafts Table (one cloud copy of the editor draft per user, synced from the local autosave)
+CREATE TABLE IF NOT EXISTS public.drafts (
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL PRIMARY KEY,
+  content TEXT NOT NULL DEFAULT '',
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+ALTER TABLE public.drafts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own draft" ON public.drafts;
+CREATE POLICY "Users can view their own draft" ON public.drafts
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert their own draft" ON public.drafts;
+CREATE POLICY "Users can insert their own draft" ON public.drafts
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own draft" ON public.drafts;
+CREATE POLICY "Users can update their own draft" ON public.drafts
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+-- 5. Auto-create Profile on Signup
 CREATE OR REPLACE FUNCTION public.handle_new_user()
 RETURNS TRIGGER AS $$
 BEGIN
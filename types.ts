@@ -2,4 +2,192 @@ export interface AppConfig {
   keepStyles: boolean;
   convertMermaid: boolean;
   optimizeTables: boolean;
-}
\ No newline at end of file
+}
+
+// 链接输出方式：可点击链接 / 在括号中附加网址 / 网址放入脚注（适合打印）
+export type LinkStyle = 'hyperlink' | 'inline-url' | 'footnote';
+
+// 文档主题：字号单位为半磅，间距与缩进单位为 twips (1/20 磅)
+export type DocumentThemeId = 'business' | 'academic' | 'minimal' | 'gongwen';
+
+export interface ThemeFont {
+  // 西文字体
+  latin: string;
+  // 中文字体
+  eastAsia: string;
+}
+
+export interface ThemeHeadingStyle {
+  font: ThemeFont;
+  size: number;
+  color: string;
+  bold: boolean;
+  alignment: 'left' | 'center';
+  spacing: { before: number; after: number };
+  firstLineIndent: number;
+  // 标题下方的分隔线
+  bottomBorder: boolean;
+}
+
+export interface DocumentTheme {
+  id: DocumentThemeId;
+  name: string;
+  description: string;
+  body: {
+    font: ThemeFont;
+    size: number;
+    color: string;
+    alignment: 'left' | 'justify';
+    spacing: { before: number; after: number; line: number };
+    // 固定行距（公文常用），否则 line 按 240 = 单倍行距计算
+    exactLineSpacing: boolean;
+    firstLineIndent: number;
+  };
+  // H1 ~ H6
+  headings: [ThemeHeadingStyle, ThemeHeadingStyle, ThemeHeadingStyle, ThemeHeadingStyle, ThemeHeadingStyle, ThemeHeadingStyle];
+  codeFont: string;
+  tableFontSize: number;
+  colors: {
+    link: string;
+    border: string;
+    codeBg: string;
+    quoteBorder: string;
+    quoteBg: string;
+  };
+}
+
+export interface PageMargins {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+// 页面设置，单位为 twips
+export interface PageLayout {
+  width: number;
+  height: number;
+  margin: PageMargins;
+}
+
+// 上传的参考模板（类似 pandoc --reference-doc），导出时沿用其样式、页面设置与页眉页脚
+export interface ReferenceTemplate {
+  name: string;
+  data: ArrayBuffer;
+  page: PageLayout;
+}
+
+export type PaperSize = 'A4' | 'Letter' | 'A3' | 'B5';
+export type PageOrientation = 'portrait' | 'landscape';
+
+// 页码数字格式：1 / - 1 - / I / 一
+export type PageNumberFormat = 'decimal' | 'dash' | 'roman' | 'chinese';
+
+// 预览与导出共用的 Markdown 自动修复步骤，可在导出设置中单独关闭（见 lib/markdownPipeline.ts）
+export type RepairPassId = 'dedent' | 'closeFences' | 'wrapMermaid' | 'normalizeSpaces';
+
+export const DEFAULT_REPAIR_PASSES: Record<RepairPassId, boolean> = {
+  dedent: true,
+  closeFences: true,
+  wrapMermaid: true,
+  normalizeSpaces: true,
+};
+
+// Mermaid 图表与公式图片的嵌入方式：svg 为矢量图并附带 PNG 备用图（不支持 SVG 的软件显示备用图），png 只嵌入位图
+export type DiagramImageFormat = 'svg' | 'png';
+
+// PNG 图片（含 SVG 的备用图）的渲染倍率，越高越清晰、文件越大
+export type ImageScale = 1 | 2 | 4;
+
+// Mermaid 内置主题
+export type MermaidTheme = 'default' | 'neutral' | 'forest' | 'dark' | 'base';
+
+// 图表文字字体：黑体、宋体、楷体（各自包含 Windows、macOS 与 Linux 上的对应字体）
+export type DiagramFont = 'sans' | 'serif' | 'kai';
+
+// Mermaid 图表设置，预览与所有导出格式共用；图表代码中的 %%{init: …}%% 指令优先于这里的主题和图表字体
+export interface MermaidSettings {
+  theme: MermaidTheme;
+  // 严格模式：禁用图表中的 HTML 标签、点击事件和链接脚本，适合渲染来源不可信的内容
+  strict: boolean;
+}
+
+export interface WordExportOptions {
+  themeId: DocumentThemeId;
+  referenceTemplate: ReferenceTemplate | null;
+  paperSize: PaperSize;
+  orientation: PageOrientation;
+  // 页边距，单位为毫米
+  pageMargins: PageMargins;
+  // 超过 6 列的表格自动放入横向页面
+  autoLandscapeTables: boolean;
+  linkStyle: LinkStyle;
+  // 文末的 References / 参考文献 列表生成带书签的条目，正文中的 [n] 转换为链接到条目的上标引用
+  referenceCitations: boolean;
+  // 关闭后只嵌入 data:/blob: 图片，不发起任何网络请求（适合保密文档）
+  allowRemoteImages: boolean;
+  // 代码块右上角显示语言名称
+  codeLanguageCaption: boolean;
+  codeLineNumbers: boolean;
+  // 文档开头插入目录域（打开文档时由 Word 更新）
+  tableOfContents: boolean;
+  // 多级标题编号 1 / 1.1 / 1.1.1
+  headingNumbering: boolean;
+  // 页眉页脚文字，可使用 {title} {date} {page} {pages} 占位符，留空则不添加
+  headerText: string;
+  footerText: string;
+  pageNumberFormat: PageNumberFormat;
+  // 首页不显示页眉页脚
+  differentFirstPage: boolean;
+  // 用第一个一级标题和作者、日期生成单独的封面页（封面不计页码）
+  coverPage: boolean;
+  coverAuthor: string;
+  // 留空时使用导出当天的日期
+  coverDate: string;
+  repairs: Record<RepairPassId, boolean>;
+  diagramFormat: DiagramImageFormat;
+  imageScale: ImageScale;
+  // 图表（Mermaid、Graphviz、ECharts 等）的文字字体
+  diagramFont: DiagramFont;
+  // 未指定宽度（如 ```mermaid width=80%）的图表最大宽度，占正文宽度的百分比
+  diagramMaxWidth: number;
+  mermaid: MermaidSettings;
+  // PlantUML 服务地址（如本地部署的 http://localhost:8080），留空时 PlantUML 代码块保留为代码
+  plantUmlServer: string;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: WordExportOptions = {
+  themeId: 'business',
+  referenceTemplate: null,
+  paperSize: 'A4',
+  orientation: 'portrait',
+  pageMargins: { top: 12.7, right: 12.7, bottom: 12.7, left: 12.7 },
+  autoLandscapeTables: false,
+  linkStyle: 'hyperlink',
+  referenceCitations: false,
+  allowRemoteImages: true,
+  codeLanguageCaption: true,
+  codeLineNumbers: false,
+  tableOfContents: false,
+  headingNumbering: false,
+  headerText: '',
+  footerText: '',
+  pageNumberFormat: 'decimal',
+  differentFirstPage: false,
+  coverPage: false,
+  coverAuthor: '',
+  coverDate: '',
+  repairs: DEFAULT_REPAIR_PASSES,
+  diagramFormat: 'svg',
+  imageScale: 2,
+  diagramFont: 'sans',
+  diagramMaxWidth: 100,
+  mermaid: {
+    theme: 'default',
+    strict: false,
+  },
+  plantUmlServer: '',
+};
+
+// 下载的文件格式，均使用相同的导出设置；markdown 为整理后的 Markdown 与图表、公式图片打包的 zip
+export type ExportFormat = 'docx' | 'pdf' | 'html' | 'odt' | 'markdown';